@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  authenticate,
+  createSession,
+  endSession,
+  Principal,
+  PROJECT_COOKIE,
+  SESSION_COOKIE,
+  SESSION_MAX_AGE_S,
+  verifyApiKey,
+} from '@/lib/auth/keys';
+
+function toSessionResponse(principal: Principal) {
+  return { name: principal.name, projectId: principal.projectId, scopes: principal.scopes };
+}
+
+// GET /api/auth/session - Who the current request is authenticated as
+export async function GET(request: NextRequest) {
+  const auth = await authenticate(request);
+  if (auth instanceof NextResponse) return auth;
+
+  return NextResponse.json(toSessionResponse(auth));
+}
+
+// POST /api/auth/session - Dashboard login: trade an API key for a session cookie
+// Body: { apiKey }
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const apiKey = typeof body.apiKey === 'string' ? body.apiKey.trim() : '';
+
+    const principal = apiKey ? await verifyApiKey(apiKey) : null;
+    if (!principal) {
+      return NextResponse.json(
+        { error: 'Invalid or revoked API key' },
+        { status: 401 }
+      );
+    }
+
+    // The cookie holds an opaque session token, never the key itself
+    const token = await createSession(apiKey);
+    const response = NextResponse.json(toSessionResponse(principal));
+    response.cookies.set(SESSION_COOKIE, token, {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === 'production',
+      sameSite: 'strict',
+      path: '/',
+      maxAge: SESSION_MAX_AGE_S,
+    });
+    return response;
+  } catch (error) {
+    console.error('Error logging in:', error);
+    return NextResponse.json(
+      { error: 'Failed to log in' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/auth/session - Log out of the dashboard
+export async function DELETE(request: NextRequest) {
+  const token = request.cookies.get(SESSION_COOKIE)?.value;
+  if (token) {
+    await endSession(token).catch((error) => console.error('Error ending session:', error));
+  }
+
+  const response = NextResponse.json({ success: true });
+  response.cookies.delete(SESSION_COOKIE);
+  response.cookies.delete(PROJECT_COOKIE);
+  return response;
+}
@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db, isUuid } from '@/lib/db/client';
+import { beginInvocation, checkBackgroundTarget, launchInvocation } from '@/lib/invocations/run';
+import { DEFAULT_TIMEOUT_MS } from '@/lib/invocations/timeout';
+import { verifySignature } from '@/lib/webhooks/signature';
+import { decryptSecret } from '@/lib/workers/secrets';
+
+const MAX_BODY_BYTES = 1024 * 1024;
+// Credentials meant for this platform are kept out of the stored payload
+const DROPPED_HEADERS = new Set(['authorization', 'cookie']);
+
+// POST /api/hooks/:hookId - Webhook delivery; the signature takes the place of an API key
+// The function receives { method, headers, query, body } with the body as raw text,
+// and runs in the background: the response is 202 with the invocation ID.
+// Every delivery is recorded in the worker's invocation history with its signature
+// status; deliveries that fail verification are not run, and only a summary of
+// them (method and body size) is recorded.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ hookId: string }> }
+) {
+  const { hookId } = await params;
+
+  try {
+    const hook = isUuid(hookId) ? await db.getWebhookForDelivery(hookId) : null;
+    const worker = hook ? await db.getWorker(hook.project_id, hook.worker_id) : null;
+
+    if (!hook || !worker) {
+      return NextResponse.json(
+        { error: 'Webhook not found' },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.text();
+    if (Buffer.byteLength(body) > MAX_BODY_BYTES) {
+      return NextResponse.json(
+        { error: `Body is larger than ${MAX_BODY_BYTES} bytes` },
+        { status: 413 }
+      );
+    }
+
+    const secret = hook.secret_encrypted
+      ? decryptSecret(worker.id, `webhook:${hook.id}`, hook.secret_encrypted)
+      : null;
+    const verification = verifySignature(hook.signature, secret, body, request.headers);
+    db.touchWebhook(hook.id).catch(console.error);
+
+    const rejected = verification.status === 'missing' || verification.status === 'invalid';
+    // Anyone can reach this URL, so unverified bodies are never stored
+    const payload = rejected
+      ? { method: request.method, bodyBytes: Buffer.byteLength(body) }
+      : {
+        method: request.method,
+        headers: Object.fromEntries([...request.headers].filter(([name]) => !DROPPED_HEADERS.has(name))),
+        query: Object.fromEntries(request.nextUrl.searchParams),
+        body,
+      };
+
+    const invocation = await beginInvocation({
+      workerId: worker.id,
+      target: worker,
+      functionName: hook.function_name,
+      payload,
+      timeoutMs: worker.timeout_ms ?? DEFAULT_TIMEOUT_MS,
+      webhookId: hook.id,
+      signatureStatus: verification.status,
+    });
+
+    // Deliveries that fail verification are recorded but never run
+    const check = rejected
+      ? { error: `Signature verification failed: ${verification.reason}`, status: 401 }
+      : checkBackgroundTarget(worker, hook.function_name);
+
+    if ('error' in check) {
+      await db.completeInvocation(invocation.id, { status: 'error', error: check.error, durationMs: 0 });
+      return NextResponse.json(
+        { error: check.error, invocationId: invocation.id },
+        { status: check.status }
+      );
+    }
+
+    launchInvocation(invocation, check.worker, {
+      expired: check.expired,
+      rebuildOnExpiry: check.worker.rebuild_on_expiry,
+    });
+
+    return NextResponse.json({
+      invocationId: invocation.id,
+      signatureStatus: verification.status,
+    }, { status: 202 });
+  } catch (error) {
+    console.error('Error delivering webhook:', error);
+    return NextResponse.json(
+      { error: 'Failed to deliver webhook' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateProject } from '@/lib/auth/keys';
+import { db } from '@/lib/db/client';
+import { cancelInvocation } from '@/lib/invocations/run';
+import { toInvocationResponse } from '@/lib/workers/format';
+
+// GET /api/invocations/:id - Get the status and result of an invocation
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authenticateProject(request);
+  if (auth instanceof NextResponse) return auth;
+
+  const { id } = await params;
+
+  try {
+    const invocation = await db.getInvocation(auth.project.id, id);
+
+    if (!invocation) {
+      return NextResponse.json(
+        { error: 'Invocation not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(toInvocationResponse(invocation));
+  } catch (error) {
+    console.error('Error getting invocation:', error);
+    return NextResponse.json(
+      { error: 'Failed to get invocation' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/invocations/:id - Cancel a running invocation and stop its sandbox
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authenticateProject(request, 'invoke');
+  if (auth instanceof NextResponse) return auth;
+
+  const { id } = await params;
+
+  try {
+    const invocation = await db.getInvocation(auth.project.id, id);
+
+    if (!invocation) {
+      return NextResponse.json(
+        { error: 'Invocation not found' },
+        { status: 404 }
+      );
+    }
+
+    const cancelled = await cancelInvocation(auth.project.id, id);
+
+    if (!cancelled) {
+      // Finished between the lookup and the cancel
+      const current = await db.getInvocation(auth.project.id, id);
+      return NextResponse.json(
+        { error: `Invocation is not running. Current status: ${current?.status ?? invocation.status}` },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json(toInvocationResponse(cancelled));
+  } catch (error) {
+    console.error('Error cancelling invocation:', error);
+    return NextResponse.json(
+      { error: 'Failed to cancel invocation' },
+      { status: 500 }
+    );
+  }
+}
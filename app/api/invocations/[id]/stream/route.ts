@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateProject } from '@/lib/auth/keys';
+import { db } from '@/lib/db/client';
+import { formatSSEEvent, SSE_HEADERS } from '@/lib/invocations/sse';
+import { toInvocationLogResponse } from '@/lib/workers/format';
+
+// Logs are flushed to the database about once a second while a function runs
+const POLL_INTERVAL_MS = 500;
+
+// GET /api/invocations/:id/stream - Attach to an invocation's logs over SSE
+// Replays stored logs, follows new ones, and ends with a result or error event
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authenticateProject(request);
+  if (auth instanceof NextResponse) return auth;
+
+  const { id } = await params;
+
+  try {
+    const invocation = await db.getInvocation(auth.project.id, id);
+
+    if (!invocation) {
+      return NextResponse.json(
+        { error: 'Invocation not found' },
+        { status: 404 }
+      );
+    }
+  } catch (error) {
+    console.error('Error getting invocation:', error);
+    return NextResponse.json(
+      { error: 'Failed to get invocation' },
+      { status: 500 }
+    );
+  }
+
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      let lastLogId: string | undefined;
+
+      try {
+        while (!request.signal.aborted) {
+          // Read the status before the logs: the final batch is stored before the
+          // status changes, so a finished invocation's logs are complete here
+          const invocation = await db.getInvocation(auth.project.id, id);
+          if (!invocation) {
+            controller.enqueue(encoder.encode(formatSSEEvent('error', { error: 'Invocation not found' })));
+            break;
+          }
+
+          const logs = await db.getInvocationLogs(id, lastLogId);
+          for (const log of logs) {
+            controller.enqueue(encoder.encode(formatSSEEvent('log', toInvocationLogResponse(log))));
+            lastLogId = log.id;
+          }
+
+          if (invocation.status === 'success') {
+            controller.enqueue(encoder.encode(formatSSEEvent('result', {
+              success: true,
+              invocationId: invocation.id,
+              version: invocation.version,
+              result: invocation.result,
+              duration: invocation.duration_ms,
+              coldStart: invocation.cold_start,
+            })));
+            break;
+          }
+
+          if (invocation.status !== 'running') {
+            controller.enqueue(encoder.encode(formatSSEEvent('error', {
+              invocationId: invocation.id,
+              version: invocation.version,
+              type: invocation.status,
+              error: invocation.error,
+              errorDetails: invocation.error_details,
+            })));
+            break;
+          }
+
+          await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL_MS));
+        }
+      } catch (error) {
+        if (!request.signal.aborted) {
+          controller.enqueue(encoder.encode(formatSSEEvent('error', {
+            error: error instanceof Error ? error.message : 'Failed to stream invocation',
+          })));
+        }
+      } finally {
+        // A disconnected client has already cancelled the stream
+        if (!request.signal.aborted) controller.close();
+      }
+    },
+  });
+
+  return new Response(stream, { headers: SSE_HEADERS });
+}
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticatePlatformAdmin, isCronRequest } from '@/lib/auth/keys';
+import { sweepLostInvocations } from '@/lib/invocations/run';
+
+// GET /api/invocations/sweep - Time out invocations whose process died mid-run (called by Vercel Cron)
+// Accepts the CRON_SECRET bearer token Vercel Cron sends, or an admin API key not bound to a project
+export async function GET(request: NextRequest) {
+  if (!isCronRequest(request)) {
+    const auth = await authenticatePlatformAdmin(request);
+    if (auth instanceof NextResponse) return auth;
+  }
+
+  try {
+    const timedOut = await sweepLostInvocations();
+    return NextResponse.json({ timedOut });
+  } catch (error) {
+    console.error('Error sweeping invocations:', error);
+    return NextResponse.json(
+      { error: 'Failed to sweep invocations' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/invocations/sweep - Same as GET, for external schedulers that POST
+export const POST = GET;
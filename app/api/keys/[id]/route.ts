@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticate } from '@/lib/auth/keys';
+import { db } from '@/lib/db/client';
+import { toApiKeyResponse } from '@/lib/workers/format';
+
+// DELETE /api/keys/:id - Revoke an API key; it stops working immediately
+// A project-bound admin key can only revoke keys in its own project
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authenticate(request, 'admin');
+  if (auth instanceof NextResponse) return auth;
+
+  const { id } = await params;
+
+  try {
+    const apiKey = await db.revokeApiKey(id, auth.projectId);
+
+    if (!apiKey) {
+      return NextResponse.json(
+        { error: 'API key not found or already revoked' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(toApiKeyResponse(apiKey));
+  } catch (error) {
+    console.error('Error revoking API key:', error);
+    return NextResponse.json(
+      { error: 'Failed to revoke API key' },
+      { status: 500 }
+    );
+  }
+}
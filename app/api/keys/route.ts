@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { API_KEY_SCOPES, authenticate, generateApiKey, isApiKeyScope } from '@/lib/auth/keys';
+import { db } from '@/lib/db/client';
+import type { ApiKeyScope } from '@/lib/db/schema';
+import { toApiKeyResponse } from '@/lib/workers/format';
+
+// POST /api/keys - Create an API key
+// Body: { name, scopes: ('deploy' | 'invoke' | 'admin')[], projectId? }
+// Without projectId the key works in every project. A project-bound admin key
+// can only create keys for its own project.
+// The key itself is only returned here - the database keeps a hash
+export async function POST(request: NextRequest) {
+  const auth = await authenticate(request, 'admin');
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+
+    if (!name) {
+      return NextResponse.json(
+        { error: 'Key name is required' },
+        { status: 400 }
+      );
+    }
+
+    if (!Array.isArray(body.scopes) || body.scopes.length === 0 || !body.scopes.every(isApiKeyScope)) {
+      return NextResponse.json(
+        { error: `scopes must be a non-empty array of: ${API_KEY_SCOPES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const projectId = body.projectId ?? auth.projectId;
+    if (auth.projectId && projectId !== auth.projectId) {
+      return NextResponse.json(
+        { error: 'This API key can only create keys for its own project' },
+        { status: 403 }
+      );
+    }
+
+    if (projectId !== null && (typeof projectId !== 'string' || !(await db.getProject(projectId)))) {
+      return NextResponse.json(
+        { error: 'Project not found' },
+        { status: 404 }
+      );
+    }
+
+    const { key, keyHash, prefix } = generateApiKey();
+    const scopes: ApiKeyScope[] = [...new Set<ApiKeyScope>(body.scopes)];
+    const apiKey = await db.createApiKey({ projectId, name, keyHash, prefix, scopes });
+
+    return NextResponse.json({ ...toApiKeyResponse(apiKey), key }, { status: 201 });
+  } catch (error) {
+    console.error('Error creating API key:', error);
+    return NextResponse.json(
+      { error: 'Failed to create API key' },
+      { status: 500 }
+    );
+  }
+}
+
+// GET /api/keys - List API keys, including revoked ones
+// A project-bound admin key only sees its own project's keys
+export async function GET(request: NextRequest) {
+  const auth = await authenticate(request, 'admin');
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const keys = await db.listApiKeys(auth.projectId);
+    return NextResponse.json(keys.map(toApiKeyResponse));
+  } catch (error) {
+    console.error('Error listing API keys:', error);
+    return NextResponse.json(
+      { error: 'Failed to list API keys' },
+      { status: 500 }
+    );
+  }
+}
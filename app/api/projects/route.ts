@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticate, authenticatePlatformAdmin } from '@/lib/auth/keys';
+import { db } from '@/lib/db/client';
+import { toProjectResponse } from '@/lib/workers/format';
+
+// GET /api/projects - List the projects this key can act in
+export async function GET(request: NextRequest) {
+  const auth = await authenticate(request);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const projects = await db.listProjects();
+    return NextResponse.json(
+      projects
+        .filter((project) => !auth.projectId || project.id === auth.projectId)
+        .map(toProjectResponse)
+    );
+  } catch (error) {
+    console.error('Error listing projects:', error);
+    return NextResponse.json(
+      { error: 'Failed to list projects' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/projects - Create a project
+// Body: { name }
+export async function POST(request: NextRequest) {
+  const auth = await authenticatePlatformAdmin(request);
+  if (auth instanceof NextResponse) return auth;
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const name = typeof body.name === 'string' ? body.name.trim() : '';
+
+    if (!name) {
+      return NextResponse.json(
+        { error: 'Project name is required' },
+        { status: 400 }
+      );
+    }
+
+    if (await db.getProjectByName(name)) {
+      return NextResponse.json(
+        { error: `Project '${name}' already exists` },
+        { status: 409 }
+      );
+    }
+
+    const project = await db.createProject(name);
+    return NextResponse.json(toProjectResponse(project), { status: 201 });
+  } catch (error) {
+    console.error('Error creating project:', error);
+    return NextResponse.json(
+      { error: 'Failed to create project' },
+      { status: 500 }
+    );
+  }
+}
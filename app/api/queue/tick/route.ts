@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticatePlatformAdmin, isCronRequest } from '@/lib/auth/keys';
+import { consumeJobs } from '@/lib/queue/consumer';
+
+// GET /api/queue/tick - Start every due job and retry (called each minute by Vercel Cron)
+// Accepts the CRON_SECRET bearer token Vercel Cron sends, or an admin API key not bound to a project
+export async function GET(request: NextRequest) {
+  if (!isCronRequest(request)) {
+    const auth = await authenticatePlatformAdmin(request);
+    if (auth instanceof NextResponse) return auth;
+  }
+
+  try {
+    const started = await consumeJobs();
+    return NextResponse.json({ started });
+  } catch (error) {
+    console.error('Error consuming jobs:', error);
+    return NextResponse.json(
+      { error: 'Failed to consume jobs' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/queue/tick - Same as GET, for external schedulers that POST
+export const POST = GET;
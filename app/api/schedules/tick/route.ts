@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticatePlatformAdmin, isCronRequest } from '@/lib/auth/keys';
+import { runDueSchedules } from '@/lib/schedules/scheduler';
+
+// GET /api/schedules/tick - Fire every due schedule (called each minute by Vercel Cron)
+// Accepts the CRON_SECRET bearer token Vercel Cron sends, or an admin API key not bound to a project
+export async function GET(request: NextRequest) {
+  if (!isCronRequest(request)) {
+    const auth = await authenticatePlatformAdmin(request);
+    if (auth instanceof NextResponse) return auth;
+  }
+
+  try {
+    const fired = await runDueSchedules();
+    return NextResponse.json({ fired });
+  } catch (error) {
+    console.error('Error running schedules:', error);
+    return NextResponse.json(
+      { error: 'Failed to run schedules' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/schedules/tick - Same as GET, for external schedulers that POST
+export const POST = GET;
@@ -1,8 +1,12 @@
-import { NextResponse } from 'next/server';
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticatePlatformAdmin } from '@/lib/auth/keys';
 import { db } from '@/lib/db/client';
 
 // POST /api/setup - Initialize database schema
-export async function POST() {
+export async function POST(request: NextRequest) {
+  const auth = await authenticatePlatformAdmin(request);
+  if (auth instanceof NextResponse) return auth;
+
   try {
     await db.initSchema();
     return NextResponse.json({
@@ -22,9 +26,12 @@ export async function POST() {
 }
 
 // GET /api/setup - Check database status
-export async function GET() {
+export async function GET(request: NextRequest) {
+  const auth = await authenticatePlatformAdmin(request);
+  if (auth instanceof NextResponse) return auth;
+
   try {
-    await db.getAllWorkers();
+    await db.listProjects();
     return NextResponse.json({
       initialized: true,
       message: 'Database ready',
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticatePlatformAdmin, isCronRequest } from '@/lib/auth/keys';
+import { renewExpiringSnapshots } from '@/lib/workers/renew';
+
+// GET /api/snapshots/renew - Rebuild snapshots that are about to expire (called hourly by Vercel Cron)
+// Accepts the CRON_SECRET bearer token Vercel Cron sends, or an admin API key not bound to a project
+export async function GET(request: NextRequest) {
+  if (!isCronRequest(request)) {
+    const auth = await authenticatePlatformAdmin(request);
+    if (auth instanceof NextResponse) return auth;
+  }
+
+  try {
+    const renewing = await renewExpiringSnapshots();
+    return NextResponse.json({ renewing });
+  } catch (error) {
+    console.error('Error renewing snapshots:', error);
+    return NextResponse.json(
+      { error: 'Failed to renew snapshots' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/snapshots/renew - Same as GET, for external schedulers that POST
+export const POST = GET;
@@ -0,0 +1,142 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateProject } from '@/lib/auth/keys';
+import { db } from '@/lib/db/client';
+import { isValidAliasName, parseAliasRoutes } from '@/lib/workers/aliases';
+import { toWorkerAliasResponse } from '@/lib/workers/format';
+
+// GET /api/workers/:id/aliases/:alias - Get one alias
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; alias: string }> }
+) {
+  const auth = await authenticateProject(request);
+  if (auth instanceof NextResponse) return auth;
+
+  const { id, alias: name } = await params;
+
+  try {
+    const worker = await db.getWorker(auth.project.id, id);
+
+    if (!worker) {
+      return NextResponse.json(
+        { error: 'Worker not found' },
+        { status: 404 }
+      );
+    }
+
+    const alias = await db.getAlias(id, name);
+
+    if (!alias) {
+      return NextResponse.json(
+        { error: 'Alias not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(toWorkerAliasResponse(alias));
+  } catch (error) {
+    console.error('Error getting alias:', error);
+    return NextResponse.json(
+      { error: 'Failed to get alias' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/workers/:id/aliases/:alias - Create or repoint an alias
+// Body: { version: 3 } or { routes: [{ version: 3, weight: 90 }, { version: 4, weight: 10 }] }
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; alias: string }> }
+) {
+  const auth = await authenticateProject(request, 'deploy');
+  if (auth instanceof NextResponse) return auth;
+
+  const { id, alias: name } = await params;
+
+  try {
+    if (!isValidAliasName(name)) {
+      return NextResponse.json(
+        { error: 'Alias names must be 1-63 letters, digits, dashes or underscores' },
+        { status: 400 }
+      );
+    }
+
+    const worker = await db.getWorker(auth.project.id, id);
+
+    if (!worker) {
+      return NextResponse.json(
+        { error: 'Worker not found' },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const routes = parseAliasRoutes(body);
+
+    if ('error' in routes) {
+      return NextResponse.json(
+        { error: routes.error },
+        { status: 400 }
+      );
+    }
+
+    // Every routed version must exist
+    const versions = await db.getWorkerVersions(id);
+    const missing = routes.find((r) => !versions.some((v) => v.version === r.version));
+    if (missing) {
+      return NextResponse.json(
+        { error: `Version ${missing.version} not found` },
+        { status: 404 }
+      );
+    }
+
+    const alias = await db.upsertAlias(id, name, routes);
+    return NextResponse.json(toWorkerAliasResponse(alias));
+  } catch (error) {
+    console.error('Error updating alias:', error);
+    return NextResponse.json(
+      { error: 'Failed to update alias' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/workers/:id/aliases/:alias - Remove an alias
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; alias: string }> }
+) {
+  const auth = await authenticateProject(request, 'deploy');
+  if (auth instanceof NextResponse) return auth;
+
+  const { id, alias: name } = await params;
+
+  try {
+    const worker = await db.getWorker(auth.project.id, id);
+
+    if (!worker) {
+      return NextResponse.json(
+        { error: 'Worker not found' },
+        { status: 404 }
+      );
+    }
+
+    const deleted = await db.deleteAlias(id, name);
+
+    if (!deleted) {
+      return NextResponse.json(
+        { error: 'Alias not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting alias:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete alias' },
+      { status: 500 }
+    );
+  }
+}
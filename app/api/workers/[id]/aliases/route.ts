@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateProject } from '@/lib/auth/keys';
+import { db } from '@/lib/db/client';
+import { toWorkerAliasResponse } from '@/lib/workers/format';
+
+// GET /api/workers/:id/aliases - List a worker's aliases and their routes
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authenticateProject(request);
+  if (auth instanceof NextResponse) return auth;
+
+  const { id } = await params;
+
+  try {
+    const worker = await db.getWorker(auth.project.id, id);
+
+    if (!worker) {
+      return NextResponse.json(
+        { error: 'Worker not found' },
+        { status: 404 }
+      );
+    }
+
+    const aliases = await db.getAliases(id);
+    return NextResponse.json(aliases.map(toWorkerAliasResponse));
+  } catch (error) {
+    console.error('Error listing aliases:', error);
+    return NextResponse.json(
+      { error: 'Failed to list aliases' },
+      { status: 500 }
+    );
+  }
+}
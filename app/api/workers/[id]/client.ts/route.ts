@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateProject } from '@/lib/auth/keys';
+import { db } from '@/lib/db/client';
+import { clientContentDisposition, generateClientSource } from '@/lib/workers/client-sdk';
+import { resolveInvocationTarget } from '@/lib/workers/resolve';
+
+// GET /api/workers/:id/client.ts - Generated TypeScript client for the worker's functions
+// ?version=N generates a client typed for (and pinned to) that version; ?alias=prod is typed
+// from the version the alias currently picks
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authenticateProject(request);
+  if (auth instanceof NextResponse) return auth;
+
+  const { id } = await params;
+  const searchParams = request.nextUrl.searchParams;
+
+  try {
+    const worker = await db.getWorker(auth.project.id, id);
+
+    if (!worker) {
+      return NextResponse.json(
+        { error: 'Worker not found' },
+        { status: 404 }
+      );
+    }
+
+    const target = await resolveInvocationTarget(worker, searchParams);
+
+    if ('error' in target) {
+      return NextResponse.json(
+        { error: target.error },
+        { status: target.status }
+      );
+    }
+
+    const source = generateClientSource(worker, target, {
+      baseUrl: request.nextUrl.origin,
+      pinnedVersion: searchParams.has('version') ? target.version : null,
+    });
+
+    return new NextResponse(source, {
+      headers: {
+        'Content-Type': 'text/typescript; charset=utf-8',
+        'Content-Disposition': clientContentDisposition(worker.name),
+      },
+    });
+  } catch (error) {
+    console.error('Error generating client:', error);
+    return NextResponse.json(
+      { error: 'Failed to generate client' },
+      { status: 500 }
+    );
+  }
+}
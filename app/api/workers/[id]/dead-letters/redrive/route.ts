@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { authenticateProject } from '@/lib/auth/keys';
+import { db } from '@/lib/db/client';
+import { consumeJobs, parseRedriveInput } from '@/lib/queue/consumer';
+import { toJobResponse } from '@/lib/workers/format';
+
+// POST /api/workers/:id/dead-letters/redrive - Queue dead letters again with a fresh set of attempts
+// Body: { jobIds: [...] } for specific jobs, or {} for all of the worker's dead letters
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authenticateProject(request, 'invoke');
+  if (auth instanceof NextResponse) return auth;
+
+  const { id } = await params;
+
+  try {
+    const worker = await db.getWorker(auth.project.id, id);
+
+    if (!worker) {
+      return NextResponse.json(
+        { error: 'Worker not found' },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const input = parseRedriveInput(body);
+
+    if ('error' in input) {
+      return NextResponse.json(
+        { error: input.error },
+        { status: 400 }
+      );
+    }
+
+    const jobs = await db.redriveJobs(id, input.jobIds);
+
+    if (jobs.length > 0) {
+      after(() => consumeJobs().catch((error) => console.error('Error consuming jobs:', error)));
+    }
+
+    return NextResponse.json({ redriven: jobs.map(toJobResponse) });
+  } catch (error) {
+    console.error('Error redriving dead letters:', error);
+    return NextResponse.json(
+      { error: 'Failed to redrive dead letters' },
+      { status: 500 }
+    );
+  }
+}
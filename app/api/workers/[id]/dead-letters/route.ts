@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateProject } from '@/lib/auth/keys';
+import { db } from '@/lib/db/client';
+import { toJobResponse } from '@/lib/workers/format';
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+// GET /api/workers/:id/dead-letters - List jobs that ran out of attempts, most recent first
+// Query: ?limit=20&offset=0
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authenticateProject(request);
+  if (auth instanceof NextResponse) return auth;
+
+  const { id } = await params;
+  const searchParams = request.nextUrl.searchParams;
+
+  try {
+    const worker = await db.getWorker(auth.project.id, id);
+
+    if (!worker) {
+      return NextResponse.json(
+        { error: 'Worker not found' },
+        { status: 404 }
+      );
+    }
+
+    const limit = Math.min(Math.max(Number(searchParams.get('limit')) || DEFAULT_LIMIT, 1), MAX_LIMIT);
+    const offset = Math.max(Number(searchParams.get('offset')) || 0, 0);
+
+    const { jobs, total } = await db.listJobs(id, { status: 'dead', limit, offset });
+
+    return NextResponse.json({
+      deadLetters: jobs.map(toJobResponse),
+      pagination: {
+        limit,
+        offset,
+        total,
+        nextOffset: offset + jobs.length < total ? offset + jobs.length : null,
+      },
+    });
+  } catch (error) {
+    console.error('Error listing dead letters:', error);
+    return NextResponse.json(
+      { error: 'Failed to list dead letters' },
+      { status: 500 }
+    );
+  }
+}
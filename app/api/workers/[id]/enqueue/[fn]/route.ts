@@ -0,0 +1,77 @@
+import { NextRequest, NextResponse, after } from 'next/server';
+import { authenticateProject } from '@/lib/auth/keys';
+import { db } from '@/lib/db/client';
+import { validatePayload } from '@/lib/invocations/validate';
+import { consumeJobs, parseEnqueueOptions } from '@/lib/queue/consumer';
+import { toJobResponse } from '@/lib/workers/format';
+
+// POST /api/workers/:id/enqueue/:fn - Queue a call to the current version, retried until it succeeds
+// ?maxAttempts=3 limits the attempts; ?backoff=1000 is the delay (ms) before the first retry, doubling after each
+// Jobs that run out of attempts are listed at /api/workers/:id/dead-letters
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; fn: string }> }
+) {
+  const auth = await authenticateProject(request, 'invoke');
+  if (auth instanceof NextResponse) return auth;
+
+  const { id, fn } = await params;
+
+  try {
+    const worker = await db.getWorker(auth.project.id, id);
+
+    if (!worker) {
+      return NextResponse.json(
+        { error: 'Worker not found' },
+        { status: 404 }
+      );
+    }
+
+    if (!worker.functions.includes(fn)) {
+      return NextResponse.json(
+        { error: `Function '${fn}' not found. Available: ${worker.functions.join(', ')}` },
+        { status: 404 }
+      );
+    }
+
+    const options = parseEnqueueOptions(request.nextUrl.searchParams);
+    if ('error' in options) {
+      return NextResponse.json(
+        { error: options.error },
+        { status: 400 }
+      );
+    }
+
+    const payload = await request.json().catch(() => ({}));
+
+    const violations = validatePayload(worker, fn, payload);
+    if (violations.length > 0) {
+      return NextResponse.json(
+        { error: "Payload does not match the function's input schema", violations },
+        { status: 422 }
+      );
+    }
+
+    const job = await db.createJob({
+      workerId: id,
+      functionName: fn,
+      payload,
+      ...options,
+      runAt: new Date(),
+    });
+
+    // Start it now rather than waiting for the next queue tick
+    after(() => consumeJobs().catch((error) => console.error('Error consuming jobs:', error)));
+
+    return NextResponse.json({
+      ...toJobResponse(job),
+      statusUrl: `/api/workers/${id}/jobs/${job.id}`,
+    }, { status: 202 });
+  } catch (error) {
+    console.error('Error enqueuing job:', error);
+    return NextResponse.json(
+      { error: 'Failed to enqueue job' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,94 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateProject } from '@/lib/auth/keys';
+import { db } from '@/lib/db/client';
+import { toWorkerSecretResponse } from '@/lib/workers/format';
+import { parseEnvUpdate, SecretsKeyError, updateWorkerEnv } from '@/lib/workers/secrets';
+
+// GET /api/workers/:id/env - List the names of a worker's variables (never their values)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authenticateProject(request);
+  if (auth instanceof NextResponse) return auth;
+
+  const { id } = await params;
+
+  try {
+    const worker = await db.getWorker(auth.project.id, id);
+
+    if (!worker) {
+      return NextResponse.json(
+        { error: 'Worker not found' },
+        { status: 404 }
+      );
+    }
+
+    const secrets = await db.getWorkerSecrets(id);
+    return NextResponse.json(secrets.map(toWorkerSecretResponse));
+  } catch (error) {
+    console.error('Error listing worker env:', error);
+    return NextResponse.json(
+      { error: 'Failed to list worker env' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT /api/workers/:id/env - Set or remove variables, encrypted at rest
+// Body: { API_TOKEN: "value", OLD_TOKEN: null } - variables not mentioned are kept
+// Every version of the worker sees them as process.env from its next invocation
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authenticateProject(request, 'deploy');
+  if (auth instanceof NextResponse) return auth;
+
+  const { id } = await params;
+
+  try {
+    const worker = await db.getWorker(auth.project.id, id);
+
+    if (!worker) {
+      return NextResponse.json(
+        { error: 'Worker not found' },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json().catch(() => null);
+    const update = parseEnvUpdate(body);
+
+    if ('error' in update) {
+      return NextResponse.json(
+        { error: update.error },
+        { status: 400 }
+      );
+    }
+
+    const secrets = await updateWorkerEnv(id, update);
+
+    if ('error' in secrets) {
+      return NextResponse.json(
+        { error: secrets.error },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json(secrets.map(toWorkerSecretResponse));
+  } catch (error) {
+    if (error instanceof SecretsKeyError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 500 }
+      );
+    }
+
+    console.error('Error updating worker env:', error);
+    return NextResponse.json(
+      { error: 'Failed to update worker env' },
+      { status: 500 }
+    );
+  }
+}
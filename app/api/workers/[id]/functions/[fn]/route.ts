@@ -1,6 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { authenticateProject } from '@/lib/auth/keys';
 import { db } from '@/lib/db/client';
-import { getSandboxClient, LogEntry } from '@/lib/sandbox/client';
+import { runInvocation } from '@/lib/invocations/run';
+import { resolveInvocationTimeout } from '@/lib/invocations/timeout';
+import { validatePayload } from '@/lib/invocations/validate';
+import { isTargetExpired, rehydrateTarget } from '@/lib/workers/rehydrate';
+import { resolveInvocationTarget } from '@/lib/workers/resolve';
 
 // POST /api/workers/:id/functions/:fn - Invoke a worker function
 // This endpoint is kept for backwards compatibility
@@ -9,10 +14,13 @@ export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string; fn: string }> }
 ) {
+  const auth = await authenticateProject(request, 'invoke');
+  if (auth instanceof NextResponse) return auth;
+
   const { id, fn } = await params;
 
   try {
-    const worker = await db.getWorker(id);
+    const worker = await db.getWorker(auth.project.id, id);
 
     if (!worker) {
       return NextResponse.json(
@@ -21,67 +29,100 @@ export async function POST(
       );
     }
 
+    const target = await resolveInvocationTarget(worker, request.nextUrl.searchParams);
+
+    if ('error' in target) {
+      return NextResponse.json(
+        { error: target.error },
+        { status: target.status }
+      );
+    }
+
     // Check if worker has expired
-    if (worker.status === 'expired') {
+    const expired = isTargetExpired(worker, target);
+    if (expired && !worker.rebuild_on_expiry) {
       return NextResponse.json(
-        { error: 'Worker snapshot has expired. Please redeploy.' },
+        { error: 'Worker snapshot has expired. Rebuild or redeploy it.' },
         { status: 410 }
       );
     }
 
-    if (worker.status !== 'ready') {
+    if (!expired && target.status !== 'ready') {
       return NextResponse.json(
-        { error: `Worker is not ready. Current status: ${worker.status}` },
+        { error: `Worker is not ready. Current status: ${target.status}` },
         { status: 400 }
       );
     }
 
-    if (!worker.functions.includes(fn)) {
+    if (!target.functions.includes(fn)) {
       return NextResponse.json(
-        { error: `Function '${fn}' not found. Available: ${worker.functions.join(', ')}` },
+        { error: `Function '${fn}' not found. Available: ${target.functions.join(', ')}` },
         { status: 404 }
       );
     }
 
+    const timeoutMs = resolveInvocationTimeout(worker, request);
+    if (typeof timeoutMs !== 'number') {
+      return NextResponse.json(
+        { error: timeoutMs.error },
+        { status: 400 }
+      );
+    }
+
     // Get request payload
     const payload = await request.json().catch(() => ({}));
 
-    // Update last invoked timestamp
-    db.updateLastInvoked(id).catch(console.error);
+    // Reject bad input before a sandbox is ever created
+    const violations = validatePayload(target, fn, payload);
+    if (violations.length > 0) {
+      return NextResponse.json(
+        { error: "Payload does not match the function's input schema", violations },
+        { status: 422 }
+      );
+    }
 
-    // Invoke using sandbox
-    const sandboxClient = getSandboxClient();
-    const logs: Array<{ level: string; message: string; timestamp: number }> = [];
+    // Workers with rebuildOnExpiry get a fresh snapshot of the same version first
+    const live = expired ? await rehydrateTarget(id, target) : target;
 
-    const result = await sandboxClient.invokeFunction(
-      worker.snapshot_id,
-      fn,
+    // Invoke using sandbox
+    const outcome = await runInvocation({
+      workerId: id,
+      target: live,
+      functionName: fn,
       payload,
-      (log: LogEntry) => {
-        logs.push({
-          level: log.stream === 'stderr' ? 'error' : 'info',
-          message: log.data,
-          timestamp: log.timestamp,
-        });
-      }
-    );
+      timeoutMs,
+      rebuildOnExpiry: worker.rebuild_on_expiry,
+    });
+    const logs = outcome.logs.map(({ level, message, args, fields, timestamp }) => ({
+      level,
+      message,
+      args,
+      fields,
+      timestamp,
+    }));
 
-    // Check if result contains error
-    if (result.result && typeof result.result === 'object' && '__error' in (result.result as object)) {
-      const errorResult = result.result as { __error: boolean; message: string };
+    if (!outcome.success) {
       return NextResponse.json({
         success: false,
         function: fn,
-        error: errorResult.message,
+        invocationId: outcome.invocationId,
+        version: outcome.version,
+        type: outcome.status,
+        coldStart: outcome.coldStart,
+        error: outcome.error,
+        errorDetails: outcome.errorDetails,
         logs,
-      }, { status: 500 });
+      }, { status: outcome.status === 'timeout' ? 504 : 500 });
     }
 
     return NextResponse.json({
       success: true,
       function: fn,
-      result: result.result,
-      duration: result.duration,
+      invocationId: outcome.invocationId,
+      version: outcome.version,
+      result: outcome.result,
+      duration: outcome.duration,
+      coldStart: outcome.coldStart,
       logs,
     });
   } catch (error) {
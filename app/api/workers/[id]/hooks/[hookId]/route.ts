@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateProject } from '@/lib/auth/keys';
+import { db } from '@/lib/db/client';
+import { toWebhookResponse } from '@/lib/workers/format';
+
+// GET /api/workers/:id/hooks/:hookId - Get one webhook (without its secret)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; hookId: string }> }
+) {
+  const auth = await authenticateProject(request);
+  if (auth instanceof NextResponse) return auth;
+
+  const { id, hookId } = await params;
+
+  try {
+    const worker = await db.getWorker(auth.project.id, id);
+    const hook = worker ? await db.getWebhook(id, hookId) : null;
+
+    if (!hook) {
+      return NextResponse.json(
+        { error: 'Webhook not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(toWebhookResponse(hook));
+  } catch (error) {
+    console.error('Error getting webhook:', error);
+    return NextResponse.json(
+      { error: 'Failed to get webhook' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/workers/:id/hooks/:hookId - Remove a webhook; its URL stops accepting deliveries
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; hookId: string }> }
+) {
+  const auth = await authenticateProject(request, 'deploy');
+  if (auth instanceof NextResponse) return auth;
+
+  const { id, hookId } = await params;
+
+  try {
+    const worker = await db.getWorker(auth.project.id, id);
+    const deleted = worker ? await db.deleteWebhook(id, hookId) : false;
+
+    if (!deleted) {
+      return NextResponse.json(
+        { error: 'Webhook not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting webhook:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete webhook' },
+      { status: 500 }
+    );
+  }
+}
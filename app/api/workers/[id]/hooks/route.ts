@@ -0,0 +1,119 @@
+import { randomBytes, randomUUID } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateProject } from '@/lib/auth/keys';
+import { db } from '@/lib/db/client';
+import { parseSignatureConfig } from '@/lib/webhooks/signature';
+import { toWebhookResponse } from '@/lib/workers/format';
+import { encryptSecret, SecretsKeyError } from '@/lib/workers/secrets';
+
+// GET /api/workers/:id/hooks - List a worker's inbound webhooks
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authenticateProject(request);
+  if (auth instanceof NextResponse) return auth;
+
+  const { id } = await params;
+
+  try {
+    const worker = await db.getWorker(auth.project.id, id);
+
+    if (!worker) {
+      return NextResponse.json(
+        { error: 'Worker not found' },
+        { status: 404 }
+      );
+    }
+
+    const hooks = await db.getWebhooks(id);
+    return NextResponse.json(hooks.map(toWebhookResponse));
+  } catch (error) {
+    console.error('Error listing webhooks:', error);
+    return NextResponse.json(
+      { error: 'Failed to list webhooks' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/workers/:id/hooks - Create a webhook that invokes a function
+// Body: { function, signature: { scheme: 'github' | 'stripe' | 'slack' | 'none' } or
+//   { scheme: 'hmac', header, algorithm?, encoding?, prefix? }, secret? }
+// Without a secret one is generated; it is only returned in this response
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authenticateProject(request, 'deploy');
+  if (auth instanceof NextResponse) return auth;
+
+  const { id } = await params;
+
+  try {
+    const worker = await db.getWorker(auth.project.id, id);
+
+    if (!worker) {
+      return NextResponse.json(
+        { error: 'Worker not found' },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+
+    if (typeof body.function !== 'string' || !worker.functions.includes(body.function)) {
+      return NextResponse.json(
+        { error: `function must be one of: ${worker.functions.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const signature = parseSignatureConfig(body.signature);
+    if ('error' in signature) {
+      return NextResponse.json(
+        { error: signature.error },
+        { status: 400 }
+      );
+    }
+
+    if (body.secret !== undefined && (typeof body.secret !== 'string' || !body.secret)) {
+      return NextResponse.json(
+        { error: 'secret must be a non-empty string' },
+        { status: 400 }
+      );
+    }
+
+    const hookId = randomUUID();
+    const generated = signature.scheme !== 'none' && body.secret === undefined
+      ? 'whsec_' + randomBytes(24).toString('base64url')
+      : null;
+    const secret = signature.scheme === 'none' ? null : body.secret ?? generated;
+
+    const hook = await db.createWebhook({
+      id: hookId,
+      workerId: id,
+      functionName: body.function,
+      signature,
+      secretEncrypted: secret ? encryptSecret(id, `webhook:${hookId}`, secret) : null,
+    });
+
+    return NextResponse.json(
+      { ...toWebhookResponse(hook), ...(generated ? { secret: generated } : {}) },
+      { status: 201 }
+    );
+  } catch (error) {
+    if (error instanceof SecretsKeyError) {
+      return NextResponse.json(
+        { error: error.message },
+        { status: 500 }
+      );
+    }
+
+    console.error('Error creating webhook:', error);
+    return NextResponse.json(
+      { error: 'Failed to create webhook' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateProject } from '@/lib/auth/keys';
+import { db } from '@/lib/db/client';
+import { toInvocationLogResponse, toInvocationResponse } from '@/lib/workers/format';
+
+// GET /api/workers/:id/invocations/:invocationId - Get one invocation with its stored logs
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; invocationId: string }> }
+) {
+  const auth = await authenticateProject(request);
+  if (auth instanceof NextResponse) return auth;
+
+  const { id, invocationId } = await params;
+
+  try {
+    const invocation = await db.getInvocation(auth.project.id, invocationId);
+
+    if (!invocation || invocation.worker_id !== id) {
+      return NextResponse.json(
+        { error: 'Invocation not found' },
+        { status: 404 }
+      );
+    }
+
+    const logs = await db.getInvocationLogs(invocationId);
+
+    return NextResponse.json({
+      ...toInvocationResponse(invocation),
+      logs: logs.map(toInvocationLogResponse),
+    });
+  } catch (error) {
+    console.error('Error getting invocation:', error);
+    return NextResponse.json(
+      { error: 'Failed to get invocation' },
+      { status: 500 }
+    );
+  }
+}
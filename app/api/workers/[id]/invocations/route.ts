@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateProject } from '@/lib/auth/keys';
+import { db } from '@/lib/db/client';
+import type { InvocationStatus } from '@/lib/db/schema';
+import { toInvocationResponse } from '@/lib/workers/format';
+
+const INVOCATION_STATUSES: InvocationStatus[] = ['running', 'success', 'error', 'timeout', 'cancelled'];
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+
+// GET /api/workers/:id/invocations - List invocation history, newest first
+// Query: ?function=name&status=running|success|error|timeout|cancelled&limit=20&offset=0
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authenticateProject(request);
+  if (auth instanceof NextResponse) return auth;
+
+  const { id } = await params;
+  const searchParams = request.nextUrl.searchParams;
+
+  try {
+    const worker = await db.getWorker(auth.project.id, id);
+
+    if (!worker) {
+      return NextResponse.json(
+        { error: 'Worker not found' },
+        { status: 404 }
+      );
+    }
+
+    const status = searchParams.get('status');
+    if (status !== null && !INVOCATION_STATUSES.includes(status as InvocationStatus)) {
+      return NextResponse.json(
+        { error: `Invalid status '${status}'. Expected one of: ${INVOCATION_STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const limit = Math.min(Math.max(Number(searchParams.get('limit')) || DEFAULT_LIMIT, 1), MAX_LIMIT);
+    const offset = Math.max(Number(searchParams.get('offset')) || 0, 0);
+
+    const { invocations, total } = await db.listInvocations(id, {
+      functionName: searchParams.get('function') ?? undefined,
+      status: (status as InvocationStatus | null) ?? undefined,
+      limit,
+      offset,
+    });
+
+    return NextResponse.json({
+      invocations: invocations.map(toInvocationResponse),
+      pagination: {
+        limit,
+        offset,
+        total,
+        nextOffset: offset + invocations.length < total ? offset + invocations.length : null,
+      },
+    });
+  } catch (error) {
+    console.error('Error listing invocations:', error);
+    return NextResponse.json(
+      { error: 'Failed to list invocations' },
+      { status: 500 }
+    );
+  }
+}
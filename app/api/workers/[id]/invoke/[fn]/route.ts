@@ -1,17 +1,30 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { authenticateProject } from '@/lib/auth/keys';
 import { db } from '@/lib/db/client';
-import { getSandboxClient, LogEntry } from '@/lib/sandbox/client';
+import { beginInvocation, launchInvocation, runInvocation } from '@/lib/invocations/run';
+import { formatSSEEvent, SSE_HEADERS } from '@/lib/invocations/sse';
+import { resolveInvocationTimeout } from '@/lib/invocations/timeout';
+import { validatePayload } from '@/lib/invocations/validate';
+import { isTargetExpired, rehydrateTarget } from '@/lib/workers/rehydrate';
+import { InvocationTarget, resolveInvocationTarget } from '@/lib/workers/resolve';
 
 // POST /api/workers/:id/invoke/:fn - Invoke a worker function
+// ?version=N pins a version, ?alias=prod routes through an alias
 // Supports both SSE streaming (Accept: text/event-stream) and batch JSON response
+// ?async=true returns 202 with an invocation ID and runs the function in the background
+// ?timeout=ms or an X-Invocation-Timeout header overrides the worker's timeout
+// Workers with rebuildOnExpiry rebuild an expired snapshot first (streamed as a `rebuilding` event)
 export async function POST(
   request: NextRequest,
   { params }: { params: Promise<{ id: string; fn: string }> }
 ) {
+  const auth = await authenticateProject(request, 'invoke');
+  if (auth instanceof NextResponse) return auth;
+
   const { id, fn } = await params;
 
   try {
-    const worker = await db.getWorker(id);
+    const worker = await db.getWorker(auth.project.id, id);
 
     if (!worker) {
       return NextResponse.json(
@@ -20,44 +33,82 @@ export async function POST(
       );
     }
 
+    const target = await resolveInvocationTarget(worker, request.nextUrl.searchParams);
+
+    if ('error' in target) {
+      return NextResponse.json(
+        { error: target.error },
+        { status: target.status }
+      );
+    }
+
     // Check if worker has expired
-    if (worker.status === 'expired') {
+    const expired = isTargetExpired(worker, target);
+    if (expired && !worker.rebuild_on_expiry) {
       return NextResponse.json(
-        { error: 'Worker snapshot has expired. Please redeploy.' },
+        { error: 'Worker snapshot has expired. Rebuild or redeploy it.' },
         { status: 410 }
       );
     }
 
-    if (worker.status !== 'ready') {
+    if (!expired && target.status !== 'ready') {
       return NextResponse.json(
-        { error: `Worker is not ready. Current status: ${worker.status}` },
+        { error: `Worker is not ready. Current status: ${target.status}` },
         { status: 400 }
       );
     }
 
-    if (!worker.functions.includes(fn)) {
+    if (!target.functions.includes(fn)) {
       return NextResponse.json(
-        { error: `Function '${fn}' not found. Available: ${worker.functions.join(', ')}` },
+        { error: `Function '${fn}' not found. Available: ${target.functions.join(', ')}` },
         { status: 404 }
       );
     }
 
+    const timeoutMs = resolveInvocationTimeout(worker, request);
+    if (typeof timeoutMs !== 'number') {
+      return NextResponse.json(
+        { error: timeoutMs.error },
+        { status: 400 }
+      );
+    }
+
     // Get request payload
     const payload = await request.json().catch(() => ({}));
 
-    // Update last invoked timestamp
-    db.updateLastInvoked(id).catch(console.error);
+    // Reject bad input before a sandbox is ever created
+    const violations = validatePayload(target, fn, payload);
+    if (violations.length > 0) {
+      return NextResponse.json(
+        { error: "Payload does not match the function's input schema", violations },
+        { status: 422 }
+      );
+    }
+    const invocation = {
+      workerId: id,
+      target,
+      functionName: fn,
+      payload,
+      timeoutMs,
+      expired,
+      rebuildOnExpiry: worker.rebuild_on_expiry,
+    };
+
+    if (request.nextUrl.searchParams.get('async') === 'true') {
+      return await handleAsyncInvocation(invocation);
+    }
 
     // Check if client wants SSE streaming
     const acceptHeader = request.headers.get('accept') || '';
     const wantsSSE = acceptHeader.includes('text/event-stream');
 
     if (wantsSSE) {
-      return handleSSEInvocation(worker.snapshot_id, fn, payload);
+      return handleSSEInvocation(invocation, request.signal);
     }
 
     // Otherwise, return batch JSON response
-    return handleBatchInvocation(worker.snapshot_id, fn, payload);
+    // Awaited so a failure lands in the catch below as a JSON 500
+    return await handleBatchInvocation(await withLiveTarget(invocation));
   } catch (error) {
     console.error('Error invoking function:', error);
     return NextResponse.json(
@@ -67,123 +118,152 @@ export async function POST(
   }
 }
 
-// Handle SSE streaming invocation
-function handleSSEInvocation(
-  snapshotId: string,
-  functionName: string,
-  payload: unknown
-): Response {
+interface InvocationRequest {
+  workerId: string;
+  target: InvocationTarget;
+  functionName: string;
+  payload: unknown;
+  timeoutMs: number;
+  // The target's snapshot is gone and has to be rebuilt before the run
+  expired: boolean;
+  rebuildOnExpiry: boolean;
+}
+
+// Rebuild an expired target's snapshot from source, keeping the version
+async function withLiveTarget(invocation: InvocationRequest): Promise<InvocationRequest> {
+  if (!invocation.expired) return invocation;
+  const target = await rehydrateTarget(invocation.workerId, invocation.target);
+  return { ...invocation, target, expired: false };
+}
+
+// Handle SSE streaming invocation - the run is cancelled if the client disconnects
+function handleSSEInvocation(invocation: InvocationRequest, requestSignal: AbortSignal): Response {
   const encoder = new TextEncoder();
+  const disconnect = new AbortController();
+  const signal = AbortSignal.any([requestSignal, disconnect.signal]);
 
   const stream = new ReadableStream({
     async start(controller) {
-      const sandboxClient = getSandboxClient();
+      // Nothing can be written once the client has gone
+      function send(event: string, data: unknown) {
+        if (!signal.aborted) controller.enqueue(encoder.encode(formatSSEEvent(event, data)));
+      }
 
       try {
-        const result = await sandboxClient.invokeFunction(
-          snapshotId,
-          functionName,
-          payload,
-          (log: LogEntry) => {
+        if (invocation.expired) {
+          send('rebuilding', { version: invocation.target.version });
+        }
+        const live = await withLiveTarget(invocation);
+
+        const outcome = await runInvocation({
+          ...live,
+          signal,
+          // The snapshot can also turn out to be gone only once the sandbox boots
+          onRebuilding: (version) => send('rebuilding', { version }),
+          onLog: (log) => {
             // Send log event
-            const event = formatSSEEvent('log', {
+            send('log', {
               stream: log.stream,
-              message: log.data,
+              level: log.level,
+              message: log.message,
+              args: log.args,
+              fields: log.fields,
               timestamp: log.timestamp,
             });
-            controller.enqueue(encoder.encode(event));
-          }
-        );
-
-        // Check if result contains error
-        if (result.result && typeof result.result === 'object' && '__error' in (result.result as object)) {
-          const errorResult = result.result as { __error: boolean; message: string };
-          const event = formatSSEEvent('error', {
-            error: errorResult.message,
+          },
+        });
+
+        if (!outcome.success) {
+          send('error', {
+            invocationId: outcome.invocationId,
+            version: outcome.version,
+            type: outcome.status,
+            coldStart: outcome.coldStart,
+            error: outcome.error,
+            errorDetails: outcome.errorDetails,
           });
-          controller.enqueue(encoder.encode(event));
         } else {
           // Send result event
-          const event = formatSSEEvent('result', {
+          send('result', {
             success: true,
-            result: result.result,
-            duration: result.duration,
+            invocationId: outcome.invocationId,
+            version: outcome.version,
+            result: outcome.result,
+            duration: outcome.duration,
+            coldStart: outcome.coldStart,
           });
-          controller.enqueue(encoder.encode(event));
         }
       } catch (error) {
         // Send error event
-        const event = formatSSEEvent('error', {
+        send('error', {
           error: error instanceof Error ? error.message : 'Function execution failed',
         });
-        controller.enqueue(encoder.encode(event));
       } finally {
-        controller.close();
+        if (!signal.aborted) controller.close();
       }
     },
-  });
-
-  return new Response(stream, {
-    headers: {
-      'Content-Type': 'text/event-stream',
-      'Cache-Control': 'no-cache',
-      'Connection': 'keep-alive',
+    cancel() {
+      disconnect.abort();
     },
   });
+
+  return new Response(stream, { headers: SSE_HEADERS });
 }
 
-// Handle batch JSON invocation (backwards compatible)
-async function handleBatchInvocation(
-  snapshotId: string,
-  functionName: string,
-  payload: unknown
-): Promise<NextResponse> {
-  const sandboxClient = getSandboxClient();
-  const logs: Array<{ level: string; message: string; timestamp: number }> = [];
+// Handle async invocation - poll GET /api/invocations/:id or attach to /stream for logs
+async function handleAsyncInvocation(request: InvocationRequest): Promise<NextResponse> {
+  const invocation = await beginInvocation(request);
 
-  try {
-    const result = await sandboxClient.invokeFunction(
-      snapshotId,
-      functionName,
-      payload,
-      (log: LogEntry) => {
-        logs.push({
-          level: log.stream === 'stderr' ? 'error' : 'info',
-          message: log.data,
-          timestamp: log.timestamp,
-        });
-      }
-    );
+  // Keeps running after the 202 is sent, including any rebuild of an expired
+  // snapshot; the outcome lands in the invocation record. If the function
+  // outlives this process, /api/invocations/sweep marks it timed out
+  launchInvocation(invocation, request.target, request);
 
-    // Check if result contains error
-    if (result.result && typeof result.result === 'object' && '__error' in (result.result as object)) {
-      const errorResult = result.result as { __error: boolean; message: string };
-      return NextResponse.json({
-        success: false,
-        function: functionName,
-        error: errorResult.message,
-        logs,
-      }, { status: 500 });
-    }
+  return NextResponse.json({
+    invocationId: invocation.id,
+    function: request.functionName,
+    version: invocation.version,
+    timeoutMs: invocation.timeout_ms,
+    status: invocation.status,
+    statusUrl: `/api/invocations/${invocation.id}`,
+    streamUrl: `/api/invocations/${invocation.id}/stream`,
+  }, { status: 202 });
+}
 
-    return NextResponse.json({
-      success: true,
-      function: functionName,
-      result: result.result,
-      duration: result.duration,
-      logs,
-    });
-  } catch (error) {
+// Handle batch JSON invocation (backwards compatible)
+async function handleBatchInvocation(invocation: InvocationRequest): Promise<NextResponse> {
+  const { functionName } = invocation;
+  const outcome = await runInvocation(invocation);
+  const logs = outcome.logs.map(({ level, message, args, fields, timestamp }) => ({
+    level,
+    message,
+    args,
+    fields,
+    timestamp,
+  }));
+
+  if (!outcome.success) {
     return NextResponse.json({
       success: false,
       function: functionName,
-      error: error instanceof Error ? error.message : 'Function execution failed',
+      invocationId: outcome.invocationId,
+      version: outcome.version,
+      type: outcome.status,
+      coldStart: outcome.coldStart,
+      error: outcome.error,
+      errorDetails: outcome.errorDetails,
       logs,
-    }, { status: 500 });
+    }, { status: outcome.status === 'timeout' ? 504 : 500 });
   }
-}
 
-// Format SSE event
-function formatSSEEvent(event: string, data: unknown): string {
-  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+  return NextResponse.json({
+    success: true,
+    function: functionName,
+    invocationId: outcome.invocationId,
+    version: outcome.version,
+    result: outcome.result,
+    duration: outcome.duration,
+    coldStart: outcome.coldStart,
+    logs,
+  });
 }
@@ -0,0 +1,35 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateProject } from '@/lib/auth/keys';
+import { db } from '@/lib/db/client';
+import { toJobResponse } from '@/lib/workers/format';
+
+// GET /api/workers/:id/jobs/:jobId - Get a queued job's status, attempts and last error
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; jobId: string }> }
+) {
+  const auth = await authenticateProject(request);
+  if (auth instanceof NextResponse) return auth;
+
+  const { id, jobId } = await params;
+
+  try {
+    const worker = await db.getWorker(auth.project.id, id);
+    const job = worker ? await db.getJob(id, jobId) : null;
+
+    if (!job) {
+      return NextResponse.json(
+        { error: 'Job not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(toJobResponse(job));
+  } catch (error) {
+    console.error('Error getting job:', error);
+    return NextResponse.json(
+      { error: 'Failed to get job' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateProject } from '@/lib/auth/keys';
+import { db } from '@/lib/db/client';
+import { buildOpenAPIDocument } from '@/lib/workers/openapi';
+import { resolveInvocationTarget } from '@/lib/workers/resolve';
+
+// GET /api/workers/:id/openapi.json - OpenAPI 3.1 document for the worker's functions
+// ?version=N or ?alias=prod describes that version instead of the current one
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authenticateProject(request);
+  if (auth instanceof NextResponse) return auth;
+
+  const { id } = await params;
+
+  try {
+    const worker = await db.getWorker(auth.project.id, id);
+
+    if (!worker) {
+      return NextResponse.json(
+        { error: 'Worker not found' },
+        { status: 404 }
+      );
+    }
+
+    const target = await resolveInvocationTarget(worker, request.nextUrl.searchParams);
+
+    if ('error' in target) {
+      return NextResponse.json(
+        { error: target.error },
+        { status: target.status }
+      );
+    }
+
+    return NextResponse.json(buildOpenAPIDocument(worker, target, request.nextUrl.origin));
+  } catch (error) {
+    console.error('Error generating OpenAPI document:', error);
+    return NextResponse.json(
+      { error: 'Failed to generate OpenAPI document' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateProject } from '@/lib/auth/keys';
+import { db } from '@/lib/db/client';
+import { buildErrorResponse } from '@/lib/workers/deploy';
+import { toWorkerVersionResponse } from '@/lib/workers/format';
+import { rebuildVersion } from '@/lib/workers/renew';
+
+// POST /api/workers/:id/rebuild - Rebuild a version's snapshot from its stored source
+// Renews an expired (or expiring) snapshot without a redeploy; the worker ID and version stay the same
+// Body: { version: N } picks a version, otherwise the current one is rebuilt
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authenticateProject(request, 'deploy');
+  if (auth instanceof NextResponse) return auth;
+
+  const { id } = await params;
+
+  try {
+    const worker = await db.getWorker(auth.project.id, id);
+
+    if (!worker) {
+      return NextResponse.json(
+        { error: 'Worker not found' },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+
+    if (body.version !== undefined && !Number.isInteger(body.version)) {
+      return NextResponse.json(
+        { error: 'version must be a version number' },
+        { status: 400 }
+      );
+    }
+
+    const version = await db.getWorkerVersion(id, body.version ?? worker.current_version);
+
+    if (!version) {
+      return NextResponse.json(
+        { error: `Version ${body.version} not found` },
+        { status: 404 }
+      );
+    }
+
+    const rebuilt = await rebuildVersion(version);
+    return NextResponse.json(toWorkerVersionResponse(rebuilt, worker.current_version));
+  } catch (error) {
+    const response = buildErrorResponse(error);
+    if (response) return response;
+
+    console.error('Error rebuilding worker:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to rebuild worker' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,24 +1,22 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { authenticateProject, hasScope } from '@/lib/auth/keys';
 import { db } from '@/lib/db/client';
-
-// Helper to calculate days until expiration
-function calculateExpiresInDays(expiresAt: Date | string | null): number | null {
-  if (!expiresAt) return null;
-  const expDate = typeof expiresAt === 'string' ? new Date(expiresAt) : expiresAt;
-  const now = new Date();
-  const diff = expDate.getTime() - now.getTime();
-  return Math.max(0, Math.ceil(diff / (1000 * 60 * 60 * 24)));
-}
+import { isValidTimeout, MAX_TIMEOUT_MS } from '@/lib/invocations/timeout';
+import { calculateExpiresInDays, toWorkerResponse } from '@/lib/workers/format';
 
 // GET /api/workers/:id - Get worker info
+// sourceFiles and lockfile are included for keys with the deploy scope
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await authenticateProject(request);
+  if (auth instanceof NextResponse) return auth;
+
   const { id } = await params;
 
   try {
-    const worker = await db.getWorker(id);
+    const worker = await db.getWorker(auth.project.id, id);
 
     if (!worker) {
       return NextResponse.json(
@@ -30,21 +28,19 @@ export async function GET(
     // Check if snapshot has expired and auto-update status
     const expiresInDays = calculateExpiresInDays(worker.snapshot_expires_at);
     if (worker.status === 'ready' && expiresInDays !== null && expiresInDays <= 0) {
-      await db.updateWorkerExpired(id);
+      await db.updateVersionExpired(id, worker.version);
       worker.status = 'expired';
     }
 
+    // The source and lockfile are only for keys that can deploy
+    if (!hasScope(auth, 'deploy')) {
+      return NextResponse.json(toWorkerResponse(worker));
+    }
+
     return NextResponse.json({
-      id: worker.id,
-      name: worker.name,
-      snapshotId: worker.snapshot_id,
-      functions: worker.functions,
-      status: worker.status,
-      errorMessage: worker.error_message,
-      createdAt: worker.created_at,
-      snapshotExpiresAt: worker.snapshot_expires_at,
-      lastInvokedAt: worker.last_invoked_at,
-      expiresInDays,
+      ...toWorkerResponse(worker),
+      sourceFiles: worker.source_files,
+      lockfile: worker.lockfile,
     });
   } catch (error) {
     console.error('Error getting worker:', error);
@@ -55,15 +51,100 @@ export async function GET(
   }
 }
 
+// PATCH /api/workers/:id - Update worker settings
+// currentVersion moves the current version pointer (e.g. to roll back)
+// timeoutMs sets the invocation timeout (null restores the default)
+// rebuildOnExpiry makes invoking an expired snapshot rebuild it instead of returning 410
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authenticateProject(request, 'deploy');
+  if (auth instanceof NextResponse) return auth;
+
+  const { id } = await params;
+
+  try {
+    const body = await request.json().catch(() => ({}));
+
+    if (body.currentVersion === undefined && body.timeoutMs === undefined && body.rebuildOnExpiry === undefined) {
+      return NextResponse.json(
+        { error: 'Provide currentVersion, timeoutMs and/or rebuildOnExpiry' },
+        { status: 400 }
+      );
+    }
+
+    if (body.currentVersion !== undefined && !Number.isInteger(body.currentVersion)) {
+      return NextResponse.json(
+        { error: 'currentVersion must be a version number' },
+        { status: 400 }
+      );
+    }
+
+    if (body.timeoutMs !== undefined && body.timeoutMs !== null && !isValidTimeout(body.timeoutMs)) {
+      return NextResponse.json(
+        { error: `timeoutMs must be milliseconds between 1 and ${MAX_TIMEOUT_MS}` },
+        { status: 400 }
+      );
+    }
+
+    if (body.rebuildOnExpiry !== undefined && typeof body.rebuildOnExpiry !== 'boolean') {
+      return NextResponse.json(
+        { error: 'rebuildOnExpiry must be a boolean' },
+        { status: 400 }
+      );
+    }
+
+    let worker = await db.getWorker(auth.project.id, id);
+
+    if (!worker) {
+      return NextResponse.json(
+        { error: 'Worker not found' },
+        { status: 404 }
+      );
+    }
+
+    if (body.currentVersion !== undefined) {
+      worker = await db.setCurrentVersion(id, body.currentVersion);
+
+      if (!worker) {
+        return NextResponse.json(
+          { error: `Version ${body.currentVersion} not found` },
+          { status: 404 }
+        );
+      }
+    }
+
+    if (body.timeoutMs !== undefined) {
+      worker = (await db.setWorkerTimeout(id, body.timeoutMs))!;
+    }
+
+    if (body.rebuildOnExpiry !== undefined) {
+      worker = (await db.setWorkerRebuildOnExpiry(id, body.rebuildOnExpiry))!;
+    }
+
+    return NextResponse.json(toWorkerResponse(worker));
+  } catch (error) {
+    console.error('Error updating worker:', error);
+    return NextResponse.json(
+      { error: 'Failed to update worker' },
+      { status: 500 }
+    );
+  }
+}
+
 // DELETE /api/workers/:id - Delete worker from database
 export async function DELETE(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
+  const auth = await authenticateProject(request, 'deploy');
+  if (auth instanceof NextResponse) return auth;
+
   const { id } = await params;
 
   try {
-    const deleted = await db.deleteWorker(id);
+    const deleted = await db.deleteWorker(auth.project.id, id);
 
     if (!deleted) {
       return NextResponse.json(
@@ -0,0 +1,137 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateProject } from '@/lib/auth/keys';
+import { db } from '@/lib/db/client';
+import { validatePayload } from '@/lib/invocations/validate';
+import { computeNextRun, parseScheduleInput, toScheduleInput } from '@/lib/schedules/scheduler';
+import { toScheduleResponse } from '@/lib/workers/format';
+
+// GET /api/workers/:id/schedules/:scheduleId - Get one schedule with its next and last run
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; scheduleId: string }> }
+) {
+  const auth = await authenticateProject(request);
+  if (auth instanceof NextResponse) return auth;
+
+  const { id, scheduleId } = await params;
+
+  try {
+    const worker = await db.getWorker(auth.project.id, id);
+    const schedule = worker ? await db.getSchedule(id, scheduleId) : null;
+
+    if (!schedule) {
+      return NextResponse.json(
+        { error: 'Schedule not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(toScheduleResponse(schedule));
+  } catch (error) {
+    console.error('Error getting schedule:', error);
+    return NextResponse.json(
+      { error: 'Failed to get schedule' },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH /api/workers/:id/schedules/:scheduleId - Change a schedule, e.g. { enabled: false }
+// The next run is recomputed from now
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; scheduleId: string }> }
+) {
+  const auth = await authenticateProject(request, 'deploy');
+  if (auth instanceof NextResponse) return auth;
+
+  const { id, scheduleId } = await params;
+
+  try {
+    const worker = await db.getWorker(auth.project.id, id);
+    const existing = worker ? await db.getSchedule(id, scheduleId) : null;
+
+    if (!worker || !existing) {
+      return NextResponse.json(
+        { error: 'Schedule not found' },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const input = parseScheduleInput(body, toScheduleInput(existing));
+
+    if ('error' in input) {
+      return NextResponse.json(
+        { error: input.error },
+        { status: 400 }
+      );
+    }
+
+    if (!worker.functions.includes(input.functionName)) {
+      return NextResponse.json(
+        { error: `Function '${input.functionName}' not found. Available: ${worker.functions.join(', ')}` },
+        { status: 404 }
+      );
+    }
+
+    const violations = validatePayload(worker, input.functionName, input.payload);
+    if (violations.length > 0) {
+      return NextResponse.json(
+        { error: "Payload does not match the function's input schema", violations },
+        { status: 422 }
+      );
+    }
+
+    const schedule = await db.updateSchedule(id, scheduleId, {
+      ...input,
+      nextRunAt: computeNextRun(input),
+    });
+
+    if (!schedule) {
+      return NextResponse.json(
+        { error: 'Schedule not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json(toScheduleResponse(schedule));
+  } catch (error) {
+    console.error('Error updating schedule:', error);
+    return NextResponse.json(
+      { error: 'Failed to update schedule' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/workers/:id/schedules/:scheduleId - Remove a schedule
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; scheduleId: string }> }
+) {
+  const auth = await authenticateProject(request, 'deploy');
+  if (auth instanceof NextResponse) return auth;
+
+  const { id, scheduleId } = await params;
+
+  try {
+    const worker = await db.getWorker(auth.project.id, id);
+    const deleted = worker ? await db.deleteSchedule(id, scheduleId) : false;
+
+    if (!deleted) {
+      return NextResponse.json(
+        { error: 'Schedule not found' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error deleting schedule:', error);
+    return NextResponse.json(
+      { error: 'Failed to delete schedule' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,99 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateProject } from '@/lib/auth/keys';
+import { db } from '@/lib/db/client';
+import { validatePayload } from '@/lib/invocations/validate';
+import { computeNextRun, parseScheduleInput } from '@/lib/schedules/scheduler';
+import { toScheduleResponse } from '@/lib/workers/format';
+
+// GET /api/workers/:id/schedules - List a worker's cron schedules
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authenticateProject(request);
+  if (auth instanceof NextResponse) return auth;
+
+  const { id } = await params;
+
+  try {
+    const worker = await db.getWorker(auth.project.id, id);
+
+    if (!worker) {
+      return NextResponse.json(
+        { error: 'Worker not found' },
+        { status: 404 }
+      );
+    }
+
+    const schedules = await db.getSchedules(id);
+    return NextResponse.json(schedules.map(toScheduleResponse));
+  } catch (error) {
+    console.error('Error listing schedules:', error);
+    return NextResponse.json(
+      { error: 'Failed to list schedules' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/workers/:id/schedules - Invoke a function on a cron schedule
+// Body: { function, cron: "0 9 * * mon-fri", timezone?: "Europe/Berlin", payload?, enabled? }
+// Scheduled runs use the worker's current version and timeout
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authenticateProject(request, 'deploy');
+  if (auth instanceof NextResponse) return auth;
+
+  const { id } = await params;
+
+  try {
+    const worker = await db.getWorker(auth.project.id, id);
+
+    if (!worker) {
+      return NextResponse.json(
+        { error: 'Worker not found' },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const input = parseScheduleInput(body);
+
+    if ('error' in input) {
+      return NextResponse.json(
+        { error: input.error },
+        { status: 400 }
+      );
+    }
+
+    if (!worker.functions.includes(input.functionName)) {
+      return NextResponse.json(
+        { error: `Function '${input.functionName}' not found. Available: ${worker.functions.join(', ')}` },
+        { status: 404 }
+      );
+    }
+
+    const violations = validatePayload(worker, input.functionName, input.payload);
+    if (violations.length > 0) {
+      return NextResponse.json(
+        { error: "Payload does not match the function's input schema", violations },
+        { status: 422 }
+      );
+    }
+
+    const schedule = await db.createSchedule({
+      workerId: id,
+      ...input,
+      nextRunAt: computeNextRun(input),
+    });
+    return NextResponse.json(toScheduleResponse(schedule), { status: 201 });
+  } catch (error) {
+    console.error('Error creating schedule:', error);
+    return NextResponse.json(
+      { error: 'Failed to create schedule' },
+      { status: 500 }
+    );
+  }
+}
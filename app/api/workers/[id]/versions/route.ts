@@ -0,0 +1,89 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { authenticateProject } from '@/lib/auth/keys';
+import { db } from '@/lib/db/client';
+import { buildErrorResponse, buildWorkerVersion, parseWorkerSource } from '@/lib/workers/deploy';
+import { toWorkerVersionResponse } from '@/lib/workers/format';
+
+// POST /api/workers/:id/versions - Publish a new immutable version
+// The new version becomes current unless the body sets `promote: false`
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authenticateProject(request, 'deploy');
+  if (auth instanceof NextResponse) return auth;
+
+  const { id } = await params;
+
+  try {
+    const worker = await db.getWorker(auth.project.id, id);
+
+    if (!worker) {
+      return NextResponse.json(
+        { error: 'Worker not found' },
+        { status: 404 }
+      );
+    }
+
+    const body = await request.json();
+
+    const source = parseWorkerSource(body);
+    if ('error' in source) {
+      return NextResponse.json(
+        { error: source.error },
+        { status: 400 }
+      );
+    }
+
+    const promote = body.promote !== false;
+    const built = await buildWorkerVersion(source);
+    const version = await db.createWorkerVersion(id, built, promote);
+
+    return NextResponse.json(
+      toWorkerVersionResponse(version, promote ? version.version : worker.current_version),
+      { status: 201 }
+    );
+  } catch (error) {
+    const response = buildErrorResponse(error);
+    if (response) return response;
+
+    console.error('Error publishing version:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Failed to publish version' },
+      { status: 500 }
+    );
+  }
+}
+
+// GET /api/workers/:id/versions - List all versions, newest first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authenticateProject(request);
+  if (auth instanceof NextResponse) return auth;
+
+  const { id } = await params;
+
+  try {
+    const worker = await db.getWorker(auth.project.id, id);
+
+    if (!worker) {
+      return NextResponse.json(
+        { error: 'Worker not found' },
+        { status: 404 }
+      );
+    }
+
+    const versions = await db.getWorkerVersions(id);
+    return NextResponse.json(
+      versions.map((v) => toWorkerVersionResponse(v, worker.current_version))
+    );
+  } catch (error) {
+    console.error('Error listing versions:', error);
+    return NextResponse.json(
+      { error: 'Failed to list versions' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,18 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { db } from '@/lib/db/client';
-import { getSandboxClient } from '@/lib/sandbox/client';
-import { generateWorkerScript } from '@/lib/sandbox/worker-script';
-
-// Helper to calculate days until expiration
-function calculateExpiresInDays(expiresAt: Date | null): number | null {
-  if (!expiresAt) return null;
-  const now = new Date();
-  const diff = expiresAt.getTime() - now.getTime();
-  return Math.max(0, Math.ceil(diff / (1000 * 60 * 60 * 24)));
-}
+import { authenticateProject } from '@/lib/auth/keys';
+import { db, isUniqueViolation } from '@/lib/db/client';
+import { isValidTimeout, MAX_TIMEOUT_MS } from '@/lib/invocations/timeout';
+import { buildErrorResponse, buildWorkerVersion, parseWorkerSource } from '@/lib/workers/deploy';
+import { toWorkerResponse } from '@/lib/workers/format';
 
 // POST /api/workers - Deploy worker code using sandbox snapshot
+// Deploying to an existing name publishes a new version of that worker
+// Optional timeoutMs sets the worker's invocation timeout (null restores the default)
 export async function POST(request: NextRequest) {
+  const auth = await authenticateProject(request, 'deploy');
+  if (auth instanceof NextResponse) return auth;
+
   try {
     const body = await request.json();
 
@@ -23,42 +22,49 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (!body.code || typeof body.code !== 'string') {
+    if (body.timeoutMs !== undefined && body.timeoutMs !== null && !isValidTimeout(body.timeoutMs)) {
       return NextResponse.json(
-        { error: 'Worker code is required' },
+        { error: `timeoutMs must be milliseconds between 1 and ${MAX_TIMEOUT_MS}` },
         { status: 400 }
       );
     }
 
-    // Generate Node.js worker script from user code
-    const { script, functions } = generateWorkerScript(body.code);
+    const source = parseWorkerSource(body);
+    if ('error' in source) {
+      return NextResponse.json(
+        { error: source.error },
+        { status: 400 }
+      );
+    }
 
-    // Create sandbox and snapshot (synchronous - no build phase!)
-    const sandboxClient = getSandboxClient();
-    const { snapshotId, expiresAt } = await sandboxClient.createWorkerSnapshot(
-      script,
-      functions
-    );
+    const version = await buildWorkerVersion(source);
 
     // Store worker with snapshot info - status is 'ready' immediately
-    const worker = await db.createWorker({
-      name: body.name,
-      snapshotId,
-      sourceCode: body.code,
-      functions,
-      snapshotExpiresAt: expiresAt,
-    });
+    let existing = await db.getWorkerByName(auth.project.id, body.name);
+    if (!existing) {
+      try {
+        const worker = await db.createWorker({ projectId: auth.project.id, name: body.name, timeoutMs: body.timeoutMs, ...version });
+        // Immediate - no build phase!
+        return NextResponse.json(toWorkerResponse(worker), { status: 201 });
+      } catch (error) {
+        if (!isUniqueViolation(error)) throw error;
+        // A concurrent deploy created the name first; publish this one as its next version
+        existing = await db.getWorkerByName(auth.project.id, body.name);
+        if (!existing) throw error;
+      }
+    }
 
-    return NextResponse.json({
-      id: worker.id,
-      name: worker.name,
-      snapshotId: worker.snapshot_id,
-      functions,
-      status: 'ready', // Immediate - no build phase!
-      expiresInDays: calculateExpiresInDays(expiresAt),
-    }, { status: 201 });
+    await db.createWorkerVersion(existing.id, version, true);
+    if (body.timeoutMs !== undefined) {
+      await db.setWorkerTimeout(existing.id, body.timeoutMs);
+    }
+    const worker = (await db.getWorker(auth.project.id, existing.id))!;
+    return NextResponse.json(toWorkerResponse(worker), { status: 201 });
 
   } catch (error) {
+    const response = buildErrorResponse(error);
+    if (response) return response;
+
     console.error('Error deploying worker:', error);
     return NextResponse.json(
       { error: error instanceof Error ? error.message : 'Failed to deploy worker' },
@@ -68,21 +74,13 @@ export async function POST(request: NextRequest) {
 }
 
 // GET /api/workers - List all workers
-export async function GET() {
+export async function GET(request: NextRequest) {
+  const auth = await authenticateProject(request);
+  if (auth instanceof NextResponse) return auth;
+
   try {
-    const workers = await db.getAllWorkers();
-    return NextResponse.json(workers.map(w => ({
-      id: w.id,
-      name: w.name,
-      snapshotId: w.snapshot_id,
-      functions: w.functions,
-      status: w.status,
-      errorMessage: w.error_message,
-      createdAt: w.created_at,
-      snapshotExpiresAt: w.snapshot_expires_at,
-      lastInvokedAt: w.last_invoked_at,
-      expiresInDays: calculateExpiresInDays(w.snapshot_expires_at ? new Date(w.snapshot_expires_at) : null),
-    })));
+    const workers = await db.getAllWorkers(auth.project.id);
+    return NextResponse.json(workers.map(toWorkerResponse));
   } catch (error) {
     console.error('Error listing workers:', error);
     return NextResponse.json(
@@ -5,21 +5,91 @@ import WorkerList from "@/components/WorkerList";
 import CodeEditor from "@/components/CodeEditor";
 import FunctionInvoker from "@/components/FunctionInvoker";
 import LogViewer from "@/components/LogViewer";
+import InvocationHistory from "@/components/InvocationHistory";
+import LoginForm from "@/components/LoginForm";
+
+interface FunctionMetadata {
+  name: string;
+  async: boolean;
+  payloadType: string | null;
+  returnType: string | null;
+  description: string | null;
+}
 
 interface Worker {
   id: string;
   name: string;
+  version?: number;
   snapshotId: string;
   status: "creating" | "ready" | "error" | "expired";
   functions: string[];
+  functionMetadata?: FunctionMetadata[];
   errorMessage: string | null;
   expiresInDays?: number | null;
+  nextScheduledRunAt?: string | null;
+  lastScheduledRunAt?: string | null;
+  rebuildOnExpiry?: boolean;
+}
+
+interface Session {
+  name: string;
+  projectId: string | null;
+  scopes: string[];
+}
+
+interface Project {
+  id: string;
+  name: string;
 }
 
 interface LogEntry {
   timestamp: number;
   level: string;
   message: string;
+  fields?: Record<string, unknown>;
+}
+
+interface StackFrame {
+  function: string | null;
+  file: string;
+  line: number;
+  column: number;
+  userCode: boolean;
+}
+
+interface ErrorDetails {
+  name: string;
+  message: string;
+  stack?: string;
+  frames: StackFrame[];
+  cause?: ErrorDetails;
+  properties?: Record<string, unknown>;
+}
+
+interface SourceLocation {
+  file: string;
+  line: number;
+  column: number;
+}
+
+interface Invocation {
+  id: string;
+  version: number;
+  function: string;
+  payload: unknown;
+  result: unknown;
+  error: string | null;
+  errorDetails: ErrorDetails | null;
+  status: "running" | "success" | "error" | "timeout" | "cancelled";
+  duration: number | null;
+  startedAt: string;
+}
+
+interface CompileDiagnostic {
+  file: string;
+  line: number;
+  column: number;
+  message: string;
 }
 
 const DEFAULT_CODE = `export async function countdown(payload: any) {
@@ -50,20 +120,130 @@ export async function fetchData(payload: any) {
 }
 `;
 
+const ENTRY_FILE = "index.ts";
+
+// The API scopes requests to the project in this cookie (PROJECT_COOKIE in lib/auth/keys.ts)
+const PROJECT_COOKIE = "workers_project";
+
+function readProjectCookie(): string | null {
+  const match = document.cookie.match(new RegExp(`(?:^|;\\s*)${PROJECT_COOKIE}=([^;]*)`));
+  return match ? decodeURIComponent(match[1]) : null;
+}
+
+function writeProjectCookie(projectId: string) {
+  document.cookie = `${PROJECT_COOKIE}=${encodeURIComponent(projectId)}; path=/; samesite=strict`;
+}
+
 export default function Home() {
+  // undefined while the session is being checked, null when logged out
+  const [session, setSession] = useState<Session | null | undefined>(undefined);
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [currentProject, setCurrentProject] = useState<Project | null>(null);
   const [workers, setWorkers] = useState<Worker[]>([]);
   const [selectedWorker, setSelectedWorker] = useState<Worker | null>(null);
-  const [code, setCode] = useState(DEFAULT_CODE);
+  const [files, setFiles] = useState<Record<string, string>>({ [ENTRY_FILE]: DEFAULT_CODE });
+  const [activeFile, setActiveFile] = useState(ENTRY_FILE);
+  const [editorFocus, setEditorFocus] = useState<{ line: number; column: number } | null>(null);
+  const [dependencies, setDependencies] = useState("{}");
   const [workerName, setWorkerName] = useState("my-worker");
   const [isDeploying, setIsDeploying] = useState(false);
+  const [rebuildingWorkerId, setRebuildingWorkerId] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [logs, setLogs] = useState<LogEntry[]>([]);
   const [isStreaming, setIsStreaming] = useState(false);
+  const [selectedInvocation, setSelectedInvocation] = useState<Invocation | null>(null);
+  const [historyRefreshKey, setHistoryRefreshKey] = useState(0);
 
   useEffect(() => {
-    fetchWorkers();
+    async function checkSession() {
+      try {
+        const res = await fetch("/api/auth/session");
+        if (res.ok) {
+          setSession(await res.json());
+          await loadProjects();
+          fetchWorkers();
+        } else {
+          setSession(null);
+        }
+      } catch (err) {
+        console.error("Failed to check session:", err);
+        setSession(null);
+      }
+    }
+
+    checkSession();
   }, []);
 
+  async function handleLogin(newSession: Session) {
+    setSession(newSession);
+    await loadProjects();
+    fetchWorkers();
+  }
+
+  async function handleLogout() {
+    await fetch("/api/auth/session", { method: "DELETE" }).catch(console.error);
+    setSession(null);
+    setProjects([]);
+    setCurrentProject(null);
+    setWorkers([]);
+    setSelectedWorker(null);
+    setSelectedInvocation(null);
+    setLogs([]);
+  }
+
+  // Reopen the project used last, falling back to the first one the key can see.
+  // Workers are fetched afterwards, once the project cookie is set.
+  async function loadProjects() {
+    try {
+      const res = await fetch("/api/projects");
+      if (!res.ok) return;
+      const list: Project[] = await res.json();
+      setProjects(list);
+
+      const saved = readProjectCookie();
+      const project = list.find((p) => p.id === saved) ?? list[0];
+      if (project) {
+        writeProjectCookie(project.id);
+        setCurrentProject(project);
+      }
+    } catch (err) {
+      console.error("Failed to fetch projects:", err);
+    }
+  }
+
+  function switchProject(project: Project) {
+    writeProjectCookie(project.id);
+    setCurrentProject(project);
+    setWorkers([]);
+    setSelectedWorker(null);
+    setSelectedInvocation(null);
+    setLogs([]);
+    fetchWorkers();
+  }
+
+  async function handleCreateProject() {
+    const name = prompt("Project name")?.trim();
+    if (!name) return;
+
+    try {
+      const res = await fetch("/api/projects", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        setError(data.error || "Failed to create project");
+        return;
+      }
+
+      setProjects((prev) => [...prev, data]);
+      switchProject(data);
+    } catch (err) {
+      console.error("Failed to create project:", err);
+    }
+  }
+
   async function fetchWorkers() {
     try {
       const res = await fetch("/api/workers");
@@ -83,28 +263,57 @@ export default function Home() {
     setError(null);
 
     try {
+      let parsedDependencies;
+      try {
+        parsedDependencies = JSON.parse(dependencies || "{}");
+      } catch {
+        throw new Error("Dependencies must be valid JSON");
+      }
+
       const res = await fetch("/api/workers", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ name: workerName.trim(), code }),
+        body: JSON.stringify({
+          name: workerName.trim(),
+          files,
+          entry: ENTRY_FILE,
+          dependencies: parsedDependencies,
+        }),
       });
 
       const data = await res.json();
-      if (!res.ok) throw new Error(data.error || "Deployment failed");
+      if (!res.ok) {
+        // Compile errors come back with line/column diagnostics
+        if (Array.isArray(data.diagnostics) && data.diagnostics.length > 0) {
+          throw new Error(
+            data.diagnostics
+              .map((d: CompileDiagnostic) => `${d.file}:${d.line}:${d.column} - ${d.message}`)
+              .join("\n")
+          );
+        }
+        throw new Error(data.error || "Deployment failed");
+      }
 
       // With sandboxes, workers are ready immediately (no build phase)
       const newWorker: Worker = {
         id: data.id,
         name: data.name,
+        version: data.version,
         snapshotId: data.snapshotId,
         status: data.status, // Should be 'ready' immediately
         functions: data.functions,
+        functionMetadata: data.functionMetadata,
         errorMessage: null,
         expiresInDays: data.expiresInDays,
+        nextScheduledRunAt: data.nextScheduledRunAt,
+        lastScheduledRunAt: data.lastScheduledRunAt,
+        rebuildOnExpiry: data.rebuildOnExpiry,
       };
 
-      setWorkers((prev) => [newWorker, ...prev]);
+      // Redeploying an existing name publishes a new version of the same worker
+      setWorkers((prev) => [newWorker, ...prev.filter((w) => w.id !== newWorker.id)]);
       setSelectedWorker(newWorker);
+      setSelectedInvocation(null);
     } catch (err) {
       setError(err instanceof Error ? err.message : "Deployment failed");
     } finally {
@@ -124,6 +333,45 @@ export default function Home() {
     }
   }
 
+  // Rebuild an expired worker's snapshot from its stored source, then reload the row
+  async function handleRebuild(id: string) {
+    setRebuildingWorkerId(id);
+    setError(null);
+
+    try {
+      const res = await fetch(`/api/workers/${id}/rebuild`, { method: "POST" });
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || "Rebuild failed");
+      }
+
+      const workerRes = await fetch(`/api/workers/${id}`);
+      if (!workerRes.ok) return;
+      const data = await workerRes.json();
+      const rebuilt: Worker = {
+        id: data.id,
+        name: data.name,
+        version: data.version,
+        snapshotId: data.snapshotId,
+        status: data.status,
+        functions: data.functions,
+        functionMetadata: data.functionMetadata,
+        errorMessage: data.errorMessage,
+        expiresInDays: data.expiresInDays,
+        nextScheduledRunAt: data.nextScheduledRunAt,
+        lastScheduledRunAt: data.lastScheduledRunAt,
+        rebuildOnExpiry: data.rebuildOnExpiry,
+      };
+
+      setWorkers((prev) => prev.map((w) => (w.id === id ? rebuilt : w)));
+      if (selectedWorker?.id === id) setSelectedWorker(rebuilt);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Rebuild failed");
+    } finally {
+      setRebuildingWorkerId(null);
+    }
+  }
+
   // Handle individual log entries (real-time streaming)
   function handleLog(log: LogEntry) {
     setLogs((prev) => [...prev, log]);
@@ -135,13 +383,62 @@ export default function Home() {
     if (streaming) {
       // Clear logs when starting a new invocation
       setLogs([]);
+      setSelectedInvocation(null);
+    } else {
+      // Pick up the run that just finished
+      setHistoryRefreshKey((key) => key + 1);
     }
   }
 
-  return (
-    <div className="min-h-screen bg-zinc-50 dark:bg-zinc-900">
-      <header className="border-b border-zinc-200 dark:border-zinc-800 bg-white dark:bg-zinc-950 px-6 py-4">
-        <div className="max-w-7xl mx-auto">
+  // Jump to a stack frame, loading the worker's deployed source if the editor holds other code
+  async function handleOpenSource(location: SourceLocation) {
+    if (!selectedWorker) return;
+
+    if (!(location.file in files)) {
+      try {
+        const res = await fetch(`/api/workers/${selectedWorker.id}`);
+        if (!res.ok) return;
+        const data = await res.json();
+        // Keys without the deploy scope don't get the source
+        if (!data.sourceFiles || !(location.file in data.sourceFiles)) return;
+        if (!confirm(`Load the source of ${data.name} into the editor?`)) return;
+
+        setFiles(data.sourceFiles);
+        setWorkerName(data.name);
+        setDependencies(JSON.stringify(data.dependencies, null, 2));
+      } catch (err) {
+        console.error("Failed to load worker source:", err);
+        return;
+      }
+    }
+
+    setActiveFile(location.file);
+    setEditorFocus({ line: location.line, column: location.column });
+  }
+
+  // Load a past run's stored logs and result
+  async function handleSelectInvocation(invocation: Omit<Invocation, "errorDetails">) {
+    if (!selectedWorker) return;
+
+    setSelectedInvocation({ errorDetails: null, ...invocation });
+    setLogs([]);
+
+    try {
+      const res = await fetch(`/api/workers/${selectedWorker.id}/invocations/${invocation.id}`);
+      if (res.ok) {
+        const { logs, ...detail } = await res.json();
+        setSelectedInvocation(detail);
+        setLogs(logs);
+      }
+    } catch (err) {
+      console.error("Failed to fetch invocation:", err);
+    }
+  }
+
+  const header = (
+    <header className="border-b border-zinc-200 dark:border-zinc-800 bg-white dark:bg-zinc-950 px-6 py-4">
+      <div className="max-w-7xl mx-auto flex items-start justify-between gap-4">
+        <div>
           <h1 className="text-2xl font-bold text-zinc-900 dark:text-zinc-100">
             Workers Platform
           </h1>
@@ -149,19 +446,79 @@ export default function Home() {
             Deploy code → Get snapshot → Invoke functions with real-time logs
           </p>
         </div>
-      </header>
+        {session && (
+          <div className="flex items-center gap-3 text-sm">
+            {currentProject && (
+              <select
+                value={currentProject.id}
+                onChange={(e) => {
+                  const project = projects.find((p) => p.id === e.target.value);
+                  if (project) switchProject(project);
+                }}
+                disabled={projects.length < 2}
+                title="Project"
+                className="px-2 py-1 border border-zinc-300 dark:border-zinc-700 rounded-md bg-white dark:bg-zinc-900 text-zinc-900 dark:text-zinc-100"
+              >
+                {projects.map((project) => (
+                  <option key={project.id} value={project.id}>
+                    {project.name}
+                  </option>
+                ))}
+              </select>
+            )}
+            {session.scopes.includes("admin") && !session.projectId && (
+              <button
+                onClick={handleCreateProject}
+                className="px-3 py-1 bg-zinc-100 hover:bg-zinc-200 dark:bg-zinc-800 dark:hover:bg-zinc-700 text-zinc-700 dark:text-zinc-300 rounded-md transition-colors"
+              >
+                New project
+              </button>
+            )}
+            <span className="text-zinc-600 dark:text-zinc-400">
+              {session.name} <span className="text-zinc-400 dark:text-zinc-500">({session.scopes.join(", ")})</span>
+            </span>
+            <button
+              onClick={handleLogout}
+              className="px-3 py-1 bg-zinc-100 hover:bg-zinc-200 dark:bg-zinc-800 dark:hover:bg-zinc-700 text-zinc-700 dark:text-zinc-300 rounded-md transition-colors"
+            >
+              Log out
+            </button>
+          </div>
+        )}
+      </div>
+    </header>
+  );
+
+  if (!session) {
+    return (
+      <div className="min-h-screen bg-zinc-50 dark:bg-zinc-900">
+        {header}
+        <main className="max-w-7xl mx-auto px-6 py-8">
+          {session === null && <LoginForm onLogin={handleLogin} />}
+        </main>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-zinc-50 dark:bg-zinc-900">
+      {header}
 
       <main className="max-w-7xl mx-auto px-6 py-8">
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
           <div className="lg:col-span-1">
             <WorkerList
               workers={workers}
+              projectName={currentProject?.name ?? null}
               selectedWorker={selectedWorker}
               onSelect={(w) => {
                 setSelectedWorker(w);
+                setSelectedInvocation(null);
                 setLogs([]);
               }}
               onDelete={handleDelete}
+              onRebuild={handleRebuild}
+              rebuildingWorkerId={rebuildingWorkerId}
             />
           </div>
 
@@ -185,11 +542,31 @@ export default function Home() {
                   />
                 </div>
 
-                <CodeEditor code={code} onChange={setCode} />
+                <CodeEditor
+                  files={files}
+                  entryFile={ENTRY_FILE}
+                  activeFile={activeFile}
+                  focusPosition={editorFocus}
+                  onChange={setFiles}
+                  onActiveFileChange={setActiveFile}
+                />
+
+                <div>
+                  <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-1">
+                    Dependencies (JSON)
+                  </label>
+                  <textarea
+                    value={dependencies}
+                    onChange={(e) => setDependencies(e.target.value)}
+                    placeholder='{ "zod": "^3.23.0" }'
+                    className="w-full h-16 px-3 py-2 font-mono text-sm border border-zinc-300 dark:border-zinc-700 rounded-md bg-zinc-900 text-zinc-100 focus:outline-none focus:ring-2 focus:ring-blue-500 resize-none"
+                    spellCheck={false}
+                  />
+                </div>
 
                 {error && (
                   <div className="p-3 bg-red-50 dark:bg-red-950 border border-red-200 dark:border-red-800 rounded-md">
-                    <p className="text-red-600 dark:text-red-400 text-sm">{error}</p>
+                    <p className="text-red-600 dark:text-red-400 text-sm whitespace-pre-wrap">{error}</p>
                   </div>
                 )}
 
@@ -219,6 +596,8 @@ export default function Home() {
               <>
                 <FunctionInvoker
                   worker={selectedWorker}
+                  loadedInvocation={selectedInvocation}
+                  onOpenSource={handleOpenSource}
                   onLog={handleLog}
                   onStreamingChange={handleStreamingChange}
                 />
@@ -228,6 +607,12 @@ export default function Home() {
                   onClear={() => setLogs([])}
                   isStreaming={isStreaming}
                 />
+                <InvocationHistory
+                  worker={selectedWorker}
+                  selectedInvocationId={selectedInvocation?.id ?? null}
+                  onSelect={handleSelectInvocation}
+                  refreshKey={historyRefreshKey}
+                />
               </>
             ) : (
               <div className="bg-white dark:bg-zinc-950 rounded-lg border border-zinc-200 dark:border-zinc-800 p-8 text-center">
@@ -1,20 +1,108 @@
 'use client';
 
+import { useEffect, useRef } from 'react';
+
+interface SourcePosition {
+  line: number;
+  column: number;
+}
+
 interface CodeEditorProps {
-  code: string;
-  onChange: (code: string) => void;
+  files: Record<string, string>;
+  entryFile: string;
+  activeFile: string;
+  // Select and scroll to this position in the active file (e.g. from an error stack)
+  focusPosition?: SourcePosition | null;
+  onChange: (files: Record<string, string>) => void;
+  onActiveFileChange: (path: string) => void;
 }
 
-export default function CodeEditor({ code, onChange }: CodeEditorProps) {
+export default function CodeEditor({
+  files,
+  entryFile,
+  activeFile,
+  focusPosition,
+  onChange,
+  onActiveFileChange,
+}: CodeEditorProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  useEffect(() => {
+    const textarea = textareaRef.current;
+    if (!focusPosition || !textarea) return;
+
+    const lines = textarea.value.split('\n');
+    const lineIndex = Math.min(focusPosition.line, lines.length) - 1;
+    const lineStart = lines.slice(0, lineIndex).reduce((offset, line) => offset + line.length + 1, 0);
+    const lineEnd = lineStart + lines[lineIndex].length;
+
+    textarea.focus();
+    textarea.setSelectionRange(Math.min(lineStart + focusPosition.column - 1, lineEnd), lineEnd);
+    const lineHeight = parseFloat(getComputedStyle(textarea).lineHeight) || 20;
+    textarea.scrollTop = Math.max(0, (lineIndex - 3) * lineHeight);
+  }, [focusPosition]);
+
+  function handleAddFile() {
+    const path = prompt('File path (e.g. lib/util.ts)')?.trim().replace(/^\.?\/+/, '');
+    if (!path) return;
+    if (!(path in files)) {
+      onChange({ ...files, [path]: '' });
+    }
+    onActiveFileChange(path);
+  }
+
+  function handleRemoveFile(path: string) {
+    if (!confirm(`Remove ${path}?`)) return;
+    const remaining = { ...files };
+    delete remaining[path];
+    onChange(remaining);
+    if (activeFile === path) onActiveFileChange(entryFile);
+  }
+
   return (
     <div>
       <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-1">
         Worker Code
       </label>
+      <div className="flex flex-wrap items-center gap-1 mb-1">
+        {Object.keys(files).map((path) => (
+          <span
+            key={path}
+            onClick={() => onActiveFileChange(path)}
+            className={`inline-flex items-center gap-1 px-2 py-0.5 text-xs font-mono rounded cursor-pointer ${
+              path === activeFile
+                ? 'bg-zinc-900 text-zinc-100'
+                : 'bg-zinc-100 dark:bg-zinc-800 text-zinc-600 dark:text-zinc-300 hover:bg-zinc-200 dark:hover:bg-zinc-700'
+            }`}
+          >
+            {path}
+            {path !== entryFile && (
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  handleRemoveFile(path);
+                }}
+                className="text-zinc-400 hover:text-red-500"
+                title="Remove file"
+              >
+                ×
+              </button>
+            )}
+          </span>
+        ))}
+        <button
+          onClick={handleAddFile}
+          className="px-2 py-0.5 text-xs text-zinc-500 hover:text-zinc-900 dark:hover:text-zinc-100"
+          title="Add file"
+        >
+          + File
+        </button>
+      </div>
       <div className="relative">
         <textarea
-          value={code}
-          onChange={(e) => onChange(e.target.value)}
+          ref={textareaRef}
+          value={files[activeFile] ?? ''}
+          onChange={(e) => onChange({ ...files, [activeFile]: e.target.value })}
           className="w-full h-72 px-3 py-2 font-mono text-sm border border-zinc-300 dark:border-zinc-700 rounded-md bg-zinc-900 text-zinc-100 focus:outline-none focus:ring-2 focus:ring-blue-500 focus:border-transparent resize-none"
           spellCheck={false}
           placeholder={`export async function myFunction(payload: any) {
@@ -24,12 +112,12 @@ export default function CodeEditor({ code, onChange }: CodeEditorProps) {
 }`}
         />
         <div className="absolute top-2 right-2 text-xs text-zinc-500 bg-zinc-800 px-2 py-0.5 rounded">
-          TypeScript
+          {activeFile.endsWith('.json') ? 'JSON' : activeFile.endsWith('.js') ? 'JavaScript' : 'TypeScript'}
         </div>
       </div>
       <p className="mt-1.5 text-xs text-zinc-500 dark:text-zinc-400">
-        Export async functions that accept a payload and return a result.
-        Each exported function will be callable via the API.
+        Export async functions from {entryFile} that accept a payload and return a result.
+        Each exported function will be callable via the API. Other files can be imported with relative paths.
       </p>
     </div>
   );
@@ -2,35 +2,129 @@
 
 import { useState, useEffect } from 'react';
 
+interface FunctionMetadata {
+  name: string;
+  async: boolean;
+  payloadType: string | null;
+  returnType: string | null;
+  description: string | null;
+}
+
 interface Worker {
   id: string;
   name: string;
   snapshotId: string;
   status: 'creating' | 'ready' | 'error' | 'expired';
   functions: string[];
+  functionMetadata?: FunctionMetadata[];
   errorMessage: string | null;
+  // Invoking an expired snapshot rebuilds it instead of failing
+  rebuildOnExpiry?: boolean;
 }
 
 interface LogEntry {
   timestamp: number;
   level: string;
   message: string;
+  fields?: Record<string, unknown>;
+}
+
+interface StackFrame {
+  function: string | null;
+  file: string;
+  line: number;
+  column: number;
+  userCode: boolean;
+}
+
+interface ErrorDetails {
+  name: string;
+  message: string;
+  stack?: string;
+  frames: StackFrame[];
+  cause?: ErrorDetails;
+  properties?: Record<string, unknown>;
+}
+
+interface SourceLocation {
+  file: string;
+  line: number;
+  column: number;
+}
+
+// A past run loaded from the invocation history
+interface Invocation {
+  id: string;
+  version: number;
+  function: string;
+  payload: unknown;
+  result: unknown;
+  error: string | null;
+  errorDetails: ErrorDetails | null;
+  status: 'running' | 'success' | 'error' | 'timeout' | 'cancelled';
+  duration: number | null;
 }
 
 interface FunctionInvokerProps {
   worker: Worker;
+  loadedInvocation?: Invocation | null;
   onLog?: (log: LogEntry) => void;
   onStreamingChange?: (isStreaming: boolean) => void;
+  // Called when a stack frame in the user's code is clicked
+  onOpenSource?: (location: SourceLocation) => void;
+}
+
+// Thrown error with its stack frames; frames in user code link to the source
+function ErrorDetailsView({ details, onOpenSource }: { details: ErrorDetails; onOpenSource?: (location: SourceLocation) => void }) {
+  const userFrames = details.frames.filter((frame) => frame.userCode);
+
+  return (
+    <div className="mt-1 space-y-1">
+      <p className="text-red-600 dark:text-red-400 text-sm">
+        <span className="font-mono">{details.name}</span>: {details.message}
+      </p>
+      {userFrames.length > 0 && (
+        <ul className="font-mono text-xs space-y-0.5">
+          {userFrames.map((frame, i) => (
+            <li key={i}>
+              <button
+                onClick={() => onOpenSource?.(frame)}
+                className="text-red-500 dark:text-red-300 hover:underline text-left"
+                title="Show in editor"
+              >
+                at {frame.function ? `${frame.function} ` : ''}({frame.file}:{frame.line}:{frame.column})
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      {details.properties && (
+        <pre className="text-xs font-mono text-red-500 dark:text-red-300 whitespace-pre-wrap">
+          {JSON.stringify(details.properties, null, 2)}
+        </pre>
+      )}
+      {details.cause && (
+        <div className="pl-3 border-l border-red-200 dark:border-red-800">
+          <p className="text-xs text-red-500 dark:text-red-400">Caused by</p>
+          <ErrorDetailsView details={details.cause} onOpenSource={onOpenSource} />
+        </div>
+      )}
+    </div>
+  );
 }
 
-export default function FunctionInvoker({ worker, onLog, onStreamingChange }: FunctionInvokerProps) {
+export default function FunctionInvoker({ worker, loadedInvocation, onLog, onStreamingChange, onOpenSource }: FunctionInvokerProps) {
   const [selectedFunction, setSelectedFunction] = useState('');
   const [payload, setPayload] = useState('{}');
   const [result, setResult] = useState<Record<string, unknown> | null>(null);
   const [isInvoking, setIsInvoking] = useState(false);
+  const [isRebuilding, setIsRebuilding] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [errorDetails, setErrorDetails] = useState<ErrorDetails | null>(null);
   const [duration, setDuration] = useState<number | null>(null);
 
+  const selectedMetadata = worker.functionMetadata?.find((m) => m.name === selectedFunction);
+
   // Update selected function when worker changes
   useEffect(() => {
     if (worker.functions && worker.functions.length > 0) {
@@ -40,13 +134,39 @@ export default function FunctionInvoker({ worker, onLog, onStreamingChange }: Fu
     }
     setResult(null);
     setError(null);
+    setErrorDetails(null);
   }, [worker.id, worker.functions]);
 
+  // Show a past run's function, payload and outcome
+  useEffect(() => {
+    if (!loadedInvocation) return;
+
+    setSelectedFunction(loadedInvocation.function);
+    setPayload(JSON.stringify(loadedInvocation.payload ?? {}, null, 2));
+    setDuration(loadedInvocation.duration);
+    if (loadedInvocation.status !== 'success' && loadedInvocation.status !== 'running') {
+      setResult(null);
+      setError(loadedInvocation.error || 'Invocation failed');
+      setErrorDetails(loadedInvocation.errorDetails);
+    } else {
+      setError(null);
+      setErrorDetails(null);
+      setResult({
+        success: loadedInvocation.status === 'success',
+        invocationId: loadedInvocation.id,
+        version: loadedInvocation.version,
+        result: loadedInvocation.result,
+        duration: loadedInvocation.duration,
+      });
+    }
+  }, [loadedInvocation]);
+
   async function handleInvoke() {
     if (!selectedFunction) return;
 
     setIsInvoking(true);
     setError(null);
+    setErrorDetails(null);
     setResult(null);
     setDuration(null);
     onStreamingChange?.(true);
@@ -73,7 +193,11 @@ export default function FunctionInvoker({ worker, onLog, onStreamingChange }: Fu
 
       if (!res.ok) {
         const errorData = await res.json();
-        throw new Error(errorData.error || 'Invocation failed');
+        // Schema violations (422) are listed one per line under the message
+        const violations: { path: string; message: string }[] = errorData.violations ?? [];
+        throw new Error(
+          [errorData.error || 'Invocation failed', ...violations.map((v) => `${v.path || '/'}: ${v.message}`)].join('\n')
+        );
       }
 
       // Read SSE stream
@@ -105,17 +229,23 @@ export default function FunctionInvoker({ worker, onLog, onStreamingChange }: Fu
             // Process complete event
             try {
               const data = JSON.parse(eventData);
+              if (eventType !== 'rebuilding') setIsRebuilding(false);
 
-              if (eventType === 'log' && onLog) {
+              if (eventType === 'rebuilding') {
+                // The snapshot expired and is being rebuilt before the run starts
+                setIsRebuilding(true);
+              } else if (eventType === 'log' && onLog) {
                 onLog({
                   timestamp: data.timestamp,
-                  level: data.stream === 'stderr' ? 'error' : 'info',
+                  level: data.level,
                   message: data.message,
+                  fields: data.fields,
                 });
               } else if (eventType === 'result') {
                 setDuration(data.duration || (Date.now() - startTime));
                 setResult(data);
               } else if (eventType === 'error') {
+                setErrorDetails(data.errorDetails ?? null);
                 throw new Error(data.error);
               }
             } catch (e) {
@@ -136,24 +266,25 @@ export default function FunctionInvoker({ worker, onLog, onStreamingChange }: Fu
       setDuration(Date.now() - startTime);
     } finally {
       setIsInvoking(false);
+      setIsRebuilding(false);
       onStreamingChange?.(false);
     }
   }
 
-  if (worker.status === 'expired') {
+  if (worker.status === 'expired' && !worker.rebuildOnExpiry) {
     return (
       <div className="bg-white dark:bg-zinc-950 rounded-lg border border-zinc-200 dark:border-zinc-800 p-4">
         <h2 className="text-lg font-semibold text-zinc-900 dark:text-zinc-100 mb-2">
           Invoke Function
         </h2>
         <div className="flex items-center gap-2 text-zinc-500 dark:text-zinc-400">
-          <span className="text-amber-500">Worker snapshot has expired. Please redeploy.</span>
+          <span className="text-amber-500">Worker snapshot has expired. Rebuild or redeploy it.</span>
         </div>
       </div>
     );
   }
 
-  if (worker.status !== 'ready') {
+  if (worker.status !== 'ready' && worker.status !== 'expired') {
     return (
       <div className="bg-white dark:bg-zinc-950 rounded-lg border border-zinc-200 dark:border-zinc-800 p-4">
         <h2 className="text-lg font-semibold text-zinc-900 dark:text-zinc-100 mb-2">
@@ -184,6 +315,22 @@ export default function FunctionInvoker({ worker, onLog, onStreamingChange }: Fu
       </h2>
 
       <div className="space-y-4">
+        {loadedInvocation && !isInvoking && (
+          <div className="flex items-center justify-between gap-2 p-2 bg-zinc-50 dark:bg-zinc-900 border border-zinc-200 dark:border-zinc-800 rounded-md">
+            <span className="text-xs text-zinc-600 dark:text-zinc-300">
+              Showing run <span className="font-mono">{loadedInvocation.id.slice(0, 8)}</span> (v{loadedInvocation.version})
+            </span>
+            <button
+              onClick={handleInvoke}
+              disabled={!selectedFunction}
+              className="px-2 py-1 text-xs font-medium bg-zinc-200 hover:bg-zinc-300 dark:bg-zinc-800 dark:hover:bg-zinc-700 text-zinc-700 dark:text-zinc-200 rounded-md transition-colors"
+              title="Re-invoke with the same payload against the current snapshot"
+            >
+              Replay
+            </button>
+          </div>
+        )}
+
         <div>
           <label className="block text-sm font-medium text-zinc-700 dark:text-zinc-300 mb-1">
             Function
@@ -199,6 +346,18 @@ export default function FunctionInvoker({ worker, onLog, onStreamingChange }: Fu
               </option>
             ))}
           </select>
+          {selectedMetadata && (
+            <div className="mt-2 space-y-1">
+              <p className="text-xs font-mono text-zinc-500 dark:text-zinc-400 break-all">
+                {selectedMetadata.async ? 'async ' : ''}{selectedMetadata.name}(payload{selectedMetadata.payloadType ? `: ${selectedMetadata.payloadType}` : ''}){selectedMetadata.returnType ? `: ${selectedMetadata.returnType}` : ''}
+              </p>
+              {selectedMetadata.description && (
+                <p className="text-xs text-zinc-600 dark:text-zinc-300">
+                  {selectedMetadata.description}
+                </p>
+              )}
+            </div>
+          )}
         </div>
 
         <div>
@@ -224,7 +383,7 @@ export default function FunctionInvoker({ worker, onLog, onStreamingChange }: Fu
                 <circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4" />
                 <path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z" />
               </svg>
-              Invoking...
+              {isRebuilding ? 'Rebuilding snapshot...' : 'Invoking...'}
             </>
           ) : (
             <>
@@ -240,7 +399,11 @@ export default function FunctionInvoker({ worker, onLog, onStreamingChange }: Fu
         {error && (
           <div className="p-3 bg-red-50 dark:bg-red-950 border border-red-200 dark:border-red-800 rounded-md">
             <p className="text-red-600 dark:text-red-400 text-sm font-medium">Error</p>
-            <p className="text-red-600 dark:text-red-400 text-sm mt-1">{error}</p>
+            {errorDetails ? (
+              <ErrorDetailsView details={errorDetails} onOpenSource={onOpenSource} />
+            ) : (
+              <p className="text-red-600 dark:text-red-400 text-sm mt-1 whitespace-pre-wrap">{error}</p>
+            )}
             {duration !== null && (
               <p className="text-red-500 dark:text-red-500 text-xs mt-2">
                 Duration: {duration}ms
@@ -0,0 +1,170 @@
+'use client';
+
+import { useState, useEffect } from 'react';
+
+interface Worker {
+  id: string;
+  status: 'creating' | 'ready' | 'error' | 'expired';
+}
+
+interface Invocation {
+  id: string;
+  version: number;
+  function: string;
+  payload: unknown;
+  result: unknown;
+  error: string | null;
+  status: 'running' | 'success' | 'error' | 'timeout' | 'cancelled';
+  duration: number | null;
+  webhookId?: string | null;
+  signatureStatus?: 'verified' | 'unsigned' | 'missing' | 'invalid' | null;
+  startedAt: string;
+}
+
+interface InvocationHistoryProps {
+  worker: Worker;
+  selectedInvocationId: string | null;
+  onSelect: (invocation: Invocation) => void;
+  // Bumped by the parent whenever a new invocation finishes
+  refreshKey?: number;
+}
+
+const PAGE_SIZE = 20;
+
+const statusColors = {
+  running: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200',
+  success: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+  error: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200',
+  timeout: 'bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200',
+  cancelled: 'bg-zinc-100 text-zinc-800 dark:bg-zinc-800 dark:text-zinc-200',
+};
+
+export default function InvocationHistory({
+  worker,
+  selectedInvocationId,
+  onSelect,
+  refreshKey,
+}: InvocationHistoryProps) {
+  const [invocations, setInvocations] = useState<Invocation[]>([]);
+  const [total, setTotal] = useState(0);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    async function fetchInvocations() {
+      setIsLoading(true);
+      try {
+        const res = await fetch(`/api/workers/${worker.id}/invocations?limit=${PAGE_SIZE}`);
+        if (res.ok && !cancelled) {
+          const data = await res.json();
+          setInvocations(data.invocations);
+          setTotal(data.pagination.total);
+        }
+      } catch (err) {
+        console.error('Failed to fetch invocations:', err);
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    }
+
+    fetchInvocations();
+    return () => {
+      cancelled = true;
+    };
+  }, [worker.id, refreshKey]);
+
+  async function handleLoadMore() {
+    setIsLoading(true);
+    try {
+      const res = await fetch(
+        `/api/workers/${worker.id}/invocations?limit=${PAGE_SIZE}&offset=${invocations.length}`
+      );
+      if (res.ok) {
+        const data = await res.json();
+        setInvocations((prev) => [...prev, ...data.invocations]);
+        setTotal(data.pagination.total);
+      }
+    } catch (err) {
+      console.error('Failed to fetch invocations:', err);
+    } finally {
+      setIsLoading(false);
+    }
+  }
+
+  function formatStartedAt(iso: string): string {
+    return new Date(iso).toLocaleString();
+  }
+
+  return (
+    <div className="bg-white dark:bg-zinc-950 rounded-lg border border-zinc-200 dark:border-zinc-800">
+      <div className="px-4 py-3 border-b border-zinc-200 dark:border-zinc-800">
+        <h2 className="text-lg font-semibold text-zinc-900 dark:text-zinc-100">
+          History ({total})
+        </h2>
+      </div>
+
+      <div className="divide-y divide-zinc-200 dark:divide-zinc-800 max-h-80 overflow-y-auto">
+        {invocations.length === 0 ? (
+          <div className="px-4 py-6 text-center text-sm text-zinc-500 dark:text-zinc-400">
+            {isLoading ? 'Loading...' : 'No invocations yet'}
+          </div>
+        ) : (
+          invocations.map((invocation) => (
+            <div
+              key={invocation.id}
+              onClick={() => onSelect(invocation)}
+              className={`px-4 py-2 cursor-pointer transition-colors ${
+                selectedInvocationId === invocation.id
+                  ? 'bg-blue-50 dark:bg-blue-950'
+                  : 'hover:bg-zinc-50 dark:hover:bg-zinc-900'
+              }`}
+            >
+              <div className="flex items-center justify-between gap-2">
+                <span className="font-mono text-sm text-zinc-900 dark:text-zinc-100 truncate">
+                  {invocation.function}()
+                  <span className="ml-1.5 text-xs font-sans text-zinc-500 dark:text-zinc-400">
+                    v{invocation.version}
+                  </span>
+                  {invocation.webhookId && (
+                    <span
+                      title={`Webhook delivery, signature ${invocation.signatureStatus}`}
+                      className={`ml-1.5 text-xs font-sans ${
+                        invocation.signatureStatus === 'missing' || invocation.signatureStatus === 'invalid'
+                          ? 'text-red-600 dark:text-red-400'
+                          : 'text-zinc-500 dark:text-zinc-400'
+                      }`}
+                    >
+                      webhook · {invocation.signatureStatus}
+                    </span>
+                  )}
+                </span>
+                <span
+                  className={`px-2 py-0.5 text-xs font-medium rounded-full ${statusColors[invocation.status]}`}
+                >
+                  {invocation.status}
+                </span>
+              </div>
+              <div className="flex items-center justify-between mt-0.5 text-xs text-zinc-500 dark:text-zinc-400">
+                <span>{formatStartedAt(invocation.startedAt)}</span>
+                {invocation.duration !== null && <span>{invocation.duration}ms</span>}
+              </div>
+            </div>
+          ))
+        )}
+      </div>
+
+      {invocations.length < total && (
+        <div className="px-4 py-2 border-t border-zinc-200 dark:border-zinc-800">
+          <button
+            onClick={handleLoadMore}
+            disabled={isLoading}
+            className="w-full py-1 text-sm text-zinc-600 dark:text-zinc-300 hover:text-zinc-900 dark:hover:text-zinc-100 disabled:opacity-50"
+          >
+            {isLoading ? 'Loading...' : 'Load more'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -11,6 +11,7 @@ interface LogEntry {
   timestamp: number;
   level: string;
   message: string;
+  fields?: Record<string, unknown>;
 }
 
 interface LogViewerProps {
@@ -25,6 +26,7 @@ const levelColors: Record<string, string> = {
   warn: 'text-yellow-400',
   warning: 'text-yellow-400',
   info: 'text-blue-400',
+  debug: 'text-zinc-500',
 };
 
 export default function LogViewer({ worker, logs, onClear, isStreaming }: LogViewerProps) {
@@ -38,6 +40,12 @@ export default function LogViewer({ worker, logs, onClear, isStreaming }: LogVie
     return new Date(ms).toISOString().slice(11, 23);
   }
 
+  function formatFields(fields: Record<string, unknown>): string {
+    return Object.entries(fields)
+      .map(([key, value]) => `${key}=${typeof value === 'string' ? value : JSON.stringify(value)}`)
+      .join(' ');
+  }
+
   return (
     <div className="bg-white dark:bg-zinc-950 rounded-lg border border-zinc-200 dark:border-zinc-800 p-4">
       <div className="flex items-center justify-between mb-4">
@@ -72,7 +80,10 @@ export default function LogViewer({ worker, logs, onClear, isStreaming }: LogVie
               <span className={`ml-2 ${levelColors[log.level] || 'text-zinc-400'}`}>
                 [{log.level.toUpperCase()}]
               </span>
-              <span className="ml-2 text-zinc-300">{log.message}</span>
+              <span className="ml-2 text-zinc-300 whitespace-pre-wrap">{log.message}</span>
+              {log.fields && (
+                <span className="ml-2 text-zinc-500">{formatFields(log.fields)}</span>
+              )}
             </div>
           ))
         )}
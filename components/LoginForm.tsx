@@ -0,0 +1,78 @@
+'use client';
+
+import { useState } from 'react';
+
+interface Session {
+  name: string;
+  projectId: string | null;
+  scopes: string[];
+}
+
+interface LoginFormProps {
+  onLogin: (session: Session) => void;
+}
+
+export default function LoginForm({ onLogin }: LoginFormProps) {
+  const [apiKey, setApiKey] = useState('');
+  const [isLoggingIn, setIsLoggingIn] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  async function handleSubmit(e: React.FormEvent) {
+    e.preventDefault();
+    setIsLoggingIn(true);
+    setError(null);
+
+    try {
+      const res = await fetch('/api/auth/session', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ apiKey }),
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || 'Login failed');
+      }
+      setApiKey('');
+      onLogin(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Login failed');
+    } finally {
+      setIsLoggingIn(false);
+    }
+  }
+
+  return (
+    <form
+      onSubmit={handleSubmit}
+      className="max-w-md mx-auto bg-white dark:bg-zinc-950 rounded-lg border border-zinc-200 dark:border-zinc-800 p-6"
+    >
+      <h2 className="text-lg font-semibold text-zinc-900 dark:text-zinc-100">
+        Log in
+      </h2>
+      <p className="text-sm text-zinc-600 dark:text-zinc-400 mt-1 mb-4">
+        Enter an API key. Use the <code className="font-mono">ADMIN_API_KEY</code> to create the first keys.
+      </p>
+
+      <input
+        type="password"
+        value={apiKey}
+        onChange={(e) => setApiKey(e.target.value)}
+        placeholder="wk_..."
+        autoComplete="current-password"
+        className="w-full px-3 py-2 font-mono text-sm border border-zinc-300 dark:border-zinc-700 rounded-md bg-white dark:bg-zinc-900 text-zinc-900 dark:text-zinc-100"
+      />
+
+      {error && (
+        <p className="mt-2 text-sm text-red-600 dark:text-red-400">{error}</p>
+      )}
+
+      <button
+        type="submit"
+        disabled={isLoggingIn || !apiKey.trim()}
+        className="mt-4 w-full py-2 px-4 bg-blue-600 hover:bg-blue-700 disabled:bg-zinc-400 text-white font-medium rounded-md transition-colors"
+      >
+        {isLoggingIn ? 'Logging in...' : 'Log in'}
+      </button>
+    </form>
+  );
+}
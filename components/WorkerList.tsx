@@ -1,20 +1,37 @@
 'use client';
 
+interface FunctionMetadata {
+  name: string;
+  async: boolean;
+  payloadType: string | null;
+  returnType: string | null;
+  description: string | null;
+}
+
 interface Worker {
   id: string;
   name: string;
+  version?: number;
   snapshotId: string;
   status: 'creating' | 'ready' | 'error' | 'expired';
   functions: string[];
+  functionMetadata?: FunctionMetadata[];
   errorMessage: string | null;
   expiresInDays?: number | null;
+  nextScheduledRunAt?: string | null;
+  lastScheduledRunAt?: string | null;
+  rebuildOnExpiry?: boolean;
 }
 
 interface WorkerListProps {
   workers: Worker[];
+  projectName: string | null;
   selectedWorker: Worker | null;
   onSelect: (worker: Worker) => void;
   onDelete: (workerId: string) => void;
+  onRebuild: (workerId: string) => void;
+  // The worker whose snapshot is being rebuilt, if any
+  rebuildingWorkerId: string | null;
 }
 
 const statusColors = {
@@ -48,11 +65,18 @@ const statusIcons = {
   ),
 };
 
+function formatRunTime(iso: string): string {
+  return new Date(iso).toLocaleString(undefined, { dateStyle: 'short', timeStyle: 'short' });
+}
+
 export default function WorkerList({
   workers,
+  projectName,
   selectedWorker,
   onSelect,
   onDelete,
+  onRebuild,
+  rebuildingWorkerId,
 }: WorkerListProps) {
   return (
     <div className="bg-white dark:bg-zinc-950 rounded-lg border border-zinc-200 dark:border-zinc-800">
@@ -60,12 +84,17 @@ export default function WorkerList({
         <h2 className="text-lg font-semibold text-zinc-900 dark:text-zinc-100">
           Workers ({workers.length})
         </h2>
+        {projectName && (
+          <p className="text-xs text-zinc-500 dark:text-zinc-400 mt-0.5">
+            in project {projectName}
+          </p>
+        )}
       </div>
 
       <div className="divide-y divide-zinc-200 dark:divide-zinc-800 max-h-[600px] overflow-y-auto">
         {workers.length === 0 ? (
           <div className="px-4 py-8 text-center text-zinc-500 dark:text-zinc-400">
-            No workers deployed yet
+            No workers deployed to this project yet
           </div>
         ) : (
           workers.map((worker) => (
@@ -82,6 +111,11 @@ export default function WorkerList({
                 <div className="flex-1 min-w-0">
                   <h3 className="font-medium text-zinc-900 dark:text-zinc-100 truncate">
                     {worker.name}
+                    {worker.version !== undefined && (
+                      <span className="ml-1.5 text-xs font-normal text-zinc-500 dark:text-zinc-400">
+                        v{worker.version}
+                      </span>
+                    )}
                   </h3>
                   <p className="text-xs text-zinc-500 dark:text-zinc-400 mt-0.5 font-mono">
                     {worker.id.slice(0, 8)}...
@@ -117,6 +151,7 @@ export default function WorkerList({
                   {worker.functions.map((fn) => (
                     <span
                       key={fn}
+                      title={worker.functionMetadata?.find((m) => m.name === fn)?.description ?? undefined}
                       className="px-1.5 py-0.5 text-xs bg-zinc-100 dark:bg-zinc-800 text-zinc-600 dark:text-zinc-300 rounded font-mono"
                     >
                       {fn}()
@@ -124,6 +159,13 @@ export default function WorkerList({
                   ))}
                 </div>
               )}
+              {(worker.nextScheduledRunAt || worker.lastScheduledRunAt) && (
+                <p className="mt-2 text-xs text-zinc-500 dark:text-zinc-400">
+                  {worker.nextScheduledRunAt && <>Next run {formatRunTime(worker.nextScheduledRunAt)}</>}
+                  {worker.nextScheduledRunAt && worker.lastScheduledRunAt && ' · '}
+                  {worker.lastScheduledRunAt && <>Last run {formatRunTime(worker.lastScheduledRunAt)}</>}
+                </p>
+              )}
               {worker.status === 'error' && worker.errorMessage && (
                 <p className="mt-2 text-xs text-red-600 dark:text-red-400 truncate">
                   {worker.errorMessage}
@@ -135,9 +177,23 @@ export default function WorkerList({
                 </p>
               )}
               {worker.status === 'expired' && (
-                <p className="mt-2 text-xs text-zinc-500 dark:text-zinc-400">
-                  Snapshot expired - redeploy to use
-                </p>
+                <div className="mt-2 flex items-center justify-between gap-2">
+                  <p className="text-xs text-zinc-500 dark:text-zinc-400">
+                    {worker.rebuildOnExpiry
+                      ? 'Snapshot expired - rebuilt on next invocation'
+                      : 'Snapshot expired - rebuild to use'}
+                  </p>
+                  <button
+                    onClick={(e) => {
+                      e.stopPropagation();
+                      onRebuild(worker.id);
+                    }}
+                    disabled={rebuildingWorkerId !== null}
+                    className="px-2 py-0.5 text-xs font-medium rounded border border-zinc-300 dark:border-zinc-700 text-zinc-700 dark:text-zinc-300 hover:bg-zinc-100 dark:hover:bg-zinc-800 disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+                  >
+                    {rebuildingWorkerId === worker.id ? 'Rebuilding...' : 'Rebuild'}
+                  </button>
+                </div>
               )}
             </div>
           ))
@@ -0,0 +1,91 @@
+import { afterEach, describe, expect, mock, spyOn, test } from 'bun:test';
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/db/client';
+import type { ApiKey } from '@/lib/db/schema';
+import { authenticate, createSession, endSession, hashApiKey, SESSION_COOKIE, verifySession } from './keys';
+
+const KEY = 'wk_test-key';
+
+const apiKey: ApiKey = {
+  id: 'key-1',
+  project_id: 'project-1',
+  name: 'ci',
+  key_hash: hashApiKey(KEY),
+  prefix: KEY.slice(0, 10),
+  scopes: ['invoke'],
+  created_at: new Date(),
+  last_used_at: null,
+  revoked_at: null,
+};
+
+function stubKeys(...keys: ApiKey[]) {
+  spyOn(db, 'getApiKeyByHash').mockImplementation(async (keyHash) => keys.find((k) => k.key_hash === keyHash) ?? null);
+  spyOn(db, 'touchApiKey').mockResolvedValue();
+}
+
+afterEach(() => {
+  mock.restore();
+});
+
+describe('sessions', () => {
+  test('store hashes of the token and key, never the key', async () => {
+    const store = spyOn(db, 'createSession').mockResolvedValue();
+
+    const token = await createSession(KEY);
+
+    expect(token).not.toContain(KEY);
+    const [stored] = store.mock.calls[0];
+    expect(stored.tokenHash).toBe(hashApiKey(token));
+    expect(stored.keyHash).toBe(hashApiKey(KEY));
+    expect(JSON.stringify(stored)).not.toContain(KEY);
+  });
+
+  test('act as the key they were opened with until it is revoked', async () => {
+    stubKeys(apiKey);
+    const lookup = spyOn(db, 'getSessionKeyHash').mockResolvedValue(hashApiKey(KEY));
+
+    expect(await verifySession('token-1')).toEqual({ keyId: 'key-1', projectId: 'project-1', name: 'ci', scopes: ['invoke'] });
+    expect(lookup).toHaveBeenCalledWith(hashApiKey('token-1'));
+
+    stubKeys();
+    expect(await verifySession('token-1')).toBeNull();
+  });
+
+  test('end by token hash', async () => {
+    const remove = spyOn(db, 'deleteSession').mockResolvedValue();
+    await endSession('token-1');
+    expect(remove).toHaveBeenCalledWith(hashApiKey('token-1'));
+  });
+});
+
+describe('authenticate', () => {
+  function request(headers: Record<string, string>) {
+    return new NextRequest('https://example.com/api/workers', { headers });
+  }
+
+  test('accepts a session cookie', async () => {
+    stubKeys(apiKey);
+    spyOn(db, 'getSessionKeyHash').mockResolvedValue(hashApiKey(KEY));
+
+    const principal = await authenticate(request({ cookie: `${SESSION_COOKIE}=token-1` }), 'invoke');
+    expect(principal).toMatchObject({ keyId: 'key-1' });
+  });
+
+  test('does not take a raw API key as the session cookie', async () => {
+    stubKeys(apiKey);
+    spyOn(db, 'getSessionKeyHash').mockResolvedValue(null);
+
+    const response = await authenticate(request({ cookie: `${SESSION_COOKIE}=${KEY}` }));
+    expect(response).toBeInstanceOf(NextResponse);
+    expect((response as NextResponse).status).toBe(401);
+  });
+
+  test('prefers the Authorization header over the cookie', async () => {
+    stubKeys(apiKey);
+    const lookup = spyOn(db, 'getSessionKeyHash');
+
+    const principal = await authenticate(request({ authorization: `Bearer ${KEY}`, cookie: `${SESSION_COOKIE}=token-1` }));
+    expect(principal).toMatchObject({ keyId: 'key-1' });
+    expect(lookup).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,229 @@
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import { db, isUuid } from '@/lib/db/client';
+import type { ApiKeyScope, Project } from '@/lib/db/schema';
+
+export const API_KEY_SCOPES: ApiKeyScope[] = ['deploy', 'invoke', 'admin'];
+
+// The dashboard logs in by trading an API key for a session token in this httpOnly cookie
+export const SESSION_COOKIE = 'workers_session';
+export const SESSION_MAX_AGE_S = 7 * 24 * 60 * 60;
+
+// Requests pick a project with this header, or the dashboard's project cookie
+export const PROJECT_HEADER = 'x-project-id';
+export const PROJECT_COOKIE = 'workers_project';
+
+const KEY_PREFIX = 'wk_';
+
+/**
+ * Who a request is acting as. keyId is null for the ADMIN_API_KEY bootstrap key,
+ * which lives in the environment rather than the database. projectId is null for
+ * keys that work in every project.
+ */
+export interface Principal {
+  keyId: string | null;
+  projectId: string | null;
+  name: string;
+  scopes: ApiKeyScope[];
+}
+
+// A principal acting inside one project
+export interface ProjectPrincipal extends Principal {
+  project: Project;
+}
+
+export function generateApiKey(): { key: string; keyHash: string; prefix: string } {
+  const key = KEY_PREFIX + randomBytes(32).toString('base64url');
+  return { key, keyHash: hashApiKey(key), prefix: key.slice(0, 10) };
+}
+
+export function hashApiKey(key: string): string {
+  return createHash('sha256').update(key).digest('hex');
+}
+
+export function isApiKeyScope(value: unknown): value is ApiKeyScope {
+  return API_KEY_SCOPES.includes(value as ApiKeyScope);
+}
+
+// admin can do everything
+export function hasScope(principal: Principal, scope: ApiKeyScope): boolean {
+  return principal.scopes.includes('admin') || principal.scopes.includes(scope);
+}
+
+/**
+ * Look up the principal behind a raw API key, or null if it is unknown or revoked
+ */
+export async function verifyApiKey(key: string): Promise<Principal | null> {
+  return verifyKeyHash(hashApiKey(key));
+}
+
+async function verifyKeyHash(keyHash: string): Promise<Principal | null> {
+  // Bootstrap key: works before any key exists (or the schema does)
+  const adminKey = process.env.ADMIN_API_KEY;
+  if (adminKey && timingSafeEqual(Buffer.from(hashApiKey(adminKey)), Buffer.from(keyHash))) {
+    return { keyId: null, projectId: null, name: 'ADMIN_API_KEY', scopes: ['admin'] };
+  }
+
+  const apiKey = await db.getApiKeyByHash(keyHash);
+  if (!apiKey) return null;
+
+  db.touchApiKey(apiKey.id).catch(console.error);
+  return { keyId: apiKey.id, projectId: apiKey.project_id, name: apiKey.name, scopes: apiKey.scopes };
+}
+
+/**
+ * Open a dashboard session for an API key that verifyApiKey accepted. Returns
+ * the token for the session cookie; only hashes of the token and key are stored.
+ */
+export async function createSession(key: string): Promise<string> {
+  const token = randomBytes(32).toString('base64url');
+  await db.createSession({
+    tokenHash: hashApiKey(token),
+    keyHash: hashApiKey(key),
+    expiresAt: new Date(Date.now() + SESSION_MAX_AGE_S * 1000),
+  });
+  return token;
+}
+
+/**
+ * Look up the principal behind a session token: the key it was opened with, as
+ * long as neither the session has expired nor the key been revoked
+ */
+export async function verifySession(token: string): Promise<Principal | null> {
+  const keyHash = await db.getSessionKeyHash(hashApiKey(token));
+  return keyHash ? verifyKeyHash(keyHash) : null;
+}
+
+export async function endSession(token: string): Promise<void> {
+  await db.deleteSession(hashApiKey(token));
+}
+
+/**
+ * Whether the request carries `Authorization: Bearer $CRON_SECRET`, which is
+ * how Vercel Cron calls scheduled endpoints
+ */
+export function isCronRequest(request: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET;
+  const token = request.headers.get('authorization')?.match(/^Bearer\s+(\S+)$/i)?.[1];
+  if (!secret || !token) return false;
+  return timingSafeEqual(Buffer.from(hashApiKey(secret)), Buffer.from(hashApiKey(token)));
+}
+
+/**
+ * Authenticate a route request from `Authorization: Bearer <key>` or the
+ * dashboard session cookie. Returns the principal, or a 401/403 response to send
+ * back. Without a scope any valid key is accepted.
+ */
+export async function authenticate(
+  request: NextRequest,
+  scope?: ApiKeyScope
+): Promise<Principal | NextResponse> {
+  const key = request.headers.get('authorization')?.match(/^Bearer\s+(\S+)$/i)?.[1];
+  const session = key ? undefined : request.cookies.get(SESSION_COOKIE)?.value;
+
+  if (!key && !session) {
+    return NextResponse.json(
+      { error: 'Authentication required: send an API key as `Authorization: Bearer <key>`' },
+      { status: 401, headers: { 'WWW-Authenticate': 'Bearer' } }
+    );
+  }
+
+  let principal: Principal | null;
+  try {
+    principal = key ? await verifyApiKey(key) : await verifySession(session!);
+  } catch (error) {
+    console.error('Error verifying API key:', error);
+    return NextResponse.json(
+      { error: 'Failed to verify API key' },
+      { status: 500 }
+    );
+  }
+
+  if (!principal) {
+    return NextResponse.json(
+      { error: key ? 'Invalid or revoked API key' : 'Session expired or its API key was revoked. Log in again.' },
+      { status: 401, headers: { 'WWW-Authenticate': 'Bearer error="invalid_token"' } }
+    );
+  }
+
+  if (scope && !hasScope(principal, scope)) {
+    return NextResponse.json(
+      { error: `This API key lacks the '${scope}' scope` },
+      { status: 403 }
+    );
+  }
+
+  return principal;
+}
+
+/**
+ * Authenticate an admin key that is not bound to a project, for operations that
+ * span every project (schema setup, creating projects, cron ticks)
+ */
+export async function authenticatePlatformAdmin(request: NextRequest): Promise<Principal | NextResponse> {
+  const principal = await authenticate(request, 'admin');
+  if (principal instanceof NextResponse) return principal;
+
+  if (principal.projectId) {
+    return NextResponse.json(
+      { error: 'This requires an admin key that is not bound to a project' },
+      { status: 403 }
+    );
+  }
+
+  return principal;
+}
+
+/**
+ * Authenticate like authenticate(), then resolve the project the request acts in:
+ * the key's own project, else the X-Project-Id header, else the dashboard's
+ * project cookie, else the default project. A project-bound key asking for
+ * another project gets a 403.
+ */
+export async function authenticateProject(
+  request: NextRequest,
+  scope?: ApiKeyScope
+): Promise<ProjectPrincipal | NextResponse> {
+  const principal = await authenticate(request, scope);
+  if (principal instanceof NextResponse) return principal;
+
+  const requested = request.headers.get(PROJECT_HEADER) || request.cookies.get(PROJECT_COOKIE)?.value;
+  if (principal.projectId && request.headers.has(PROJECT_HEADER) && requested !== principal.projectId) {
+    return NextResponse.json(
+      { error: 'This API key belongs to a different project' },
+      { status: 403 }
+    );
+  }
+
+  let project: Project | null;
+  try {
+    if (principal.projectId) {
+      project = await db.getProject(principal.projectId);
+    } else if (requested) {
+      project = isUuid(requested) ? await db.getProject(requested) : null;
+      if (!project) {
+        return NextResponse.json(
+          { error: 'Project not found' },
+          { status: 404 }
+        );
+      }
+    } else {
+      project = await db.getDefaultProject();
+    }
+  } catch (error) {
+    console.error('Error resolving project:', error);
+    return NextResponse.json(
+      { error: 'Failed to resolve project' },
+      { status: 500 }
+    );
+  }
+
+  if (!project) {
+    return NextResponse.json(
+      { error: 'No project found - run POST /api/setup to initialize' },
+      { status: 500 }
+    );
+  }
+
+  return { ...principal, project };
+}
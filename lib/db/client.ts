@@ -1,5 +1,28 @@
+import { randomUUID } from 'crypto';
 import { neon } from '@neondatabase/serverless';
-import { Worker } from './schema';
+import {
+  AliasRoute,
+  ApiKey,
+  ApiKeyScope,
+  DEFAULT_PROJECT_NAME,
+  Invocation,
+  InvocationLog,
+  InvocationStatus,
+  Job,
+  JobStatus,
+  Project,
+  Schedule,
+  SignatureConfig,
+  SignatureStatus,
+  Webhook,
+  Worker,
+  WorkerAlias,
+  WorkerSecret,
+  WorkerVersion,
+} from './schema';
+import type { Dependencies, SourceFiles } from '@/lib/sandbox/bundle';
+import type { FunctionMetadata } from '@/lib/sandbox/exports';
+import type { MappedWorkerError, WorkerSourceMap } from '@/lib/sandbox/sourcemap';
 
 function getDb() {
   const databaseUrl = process.env.DATABASE_URL;
@@ -9,103 +32,1126 @@ function getDb() {
   return neon(databaseUrl);
 }
 
+// Whether a query failed on a unique constraint, e.g. a name taken by a concurrent insert
+export function isUniqueViolation(error: unknown): boolean {
+  return (error as { code?: unknown } | null)?.code === '23505';
+}
+
+// Checked before looking up an ID from a URL: a malformed UUID is a database error, not a miss
+export function isUuid(value: string): boolean {
+  return /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(value);
+}
+
+// Everything needed to record a freshly built version
+export interface NewWorkerVersion {
+  snapshotId: string;
+  sourceFiles: SourceFiles;
+  entryFile: string;
+  dependencies: Dependencies;
+  lockfile: Record<string, unknown> | null;
+  functions: string[];
+  functionMetadata: FunctionMetadata[];
+  sourceMap: WorkerSourceMap;
+  snapshotExpiresAt: Date;
+}
+
 export const db = {
-  async createWorker(data: {
+  async createWorker(data: NewWorkerVersion & {
+    projectId: string;
     name: string;
-    snapshotId: string;
-    sourceCode: string;
-    functions: string[];
-    snapshotExpiresAt: Date;
+    timeoutMs?: number | null;
   }): Promise<Worker> {
+    const sql = getDb();
+    const id = randomUUID();
+
+    // Worker and its first version are created together
+    await sql.transaction([
+      sql`
+        INSERT INTO workers (id, project_id, name, current_version, latest_version, timeout_ms)
+        VALUES (${id}, ${data.projectId}, ${data.name}, 1, 1, ${data.timeoutMs ?? null})
+      `,
+      sql`
+        INSERT INTO worker_versions (worker_id, version, snapshot_id, source_files, entry_file, dependencies, lockfile, functions, function_metadata, source_map, status, snapshot_expires_at)
+        VALUES (${id}, 1, ${data.snapshotId}, ${JSON.stringify(data.sourceFiles)}::jsonb, ${data.entryFile}, ${JSON.stringify(data.dependencies)}::jsonb, ${data.lockfile ? JSON.stringify(data.lockfile) : null}::jsonb, ${data.functions}, ${JSON.stringify(data.functionMetadata)}::jsonb, ${JSON.stringify(data.sourceMap)}::jsonb, 'ready', ${data.snapshotExpiresAt.toISOString()})
+      `,
+    ]);
+
+    return (await this.getWorker(data.projectId, id))!;
+  },
+
+  async getWorker(projectId: string, id: string): Promise<Worker | null> {
     const sql = getDb();
     const result = await sql`
-      INSERT INTO workers (name, snapshot_id, source_code, functions, status, snapshot_expires_at)
-      VALUES (${data.name}, ${data.snapshotId}, ${data.sourceCode}, ${data.functions}, 'ready', ${data.snapshotExpiresAt.toISOString()})
-      RETURNING *
+      SELECT * FROM current_workers WHERE id = ${id} AND project_id = ${projectId}
     `;
-    return result[0] as Worker;
+    return (result[0] as Worker) || null;
   },
 
-  async getWorker(id: string): Promise<Worker | null> {
+  async getWorkerByName(projectId: string, name: string): Promise<Worker | null> {
     const sql = getDb();
     const result = await sql`
-      SELECT * FROM workers WHERE id = ${id}
+      SELECT * FROM current_workers WHERE name = ${name} AND project_id = ${projectId}
     `;
     return (result[0] as Worker) || null;
   },
 
-  async getAllWorkers(): Promise<Worker[]> {
+  async getAllWorkers(projectId: string): Promise<Worker[]> {
     const sql = getDb();
     const result = await sql`
-      SELECT * FROM workers ORDER BY created_at DESC
+      SELECT * FROM current_workers WHERE project_id = ${projectId} ORDER BY created_at DESC
     `;
     return result as Worker[];
   },
 
-  async updateWorkerError(id: string, errorMessage: string): Promise<Worker | null> {
+  /**
+   * Publish the next version number for a worker. Bumping latest_version locks
+   * the worker row, so concurrent publishes get distinct version numbers.
+   * When promote is set, the new version also becomes the current one.
+   */
+  async createWorkerVersion(
+    workerId: string,
+    data: NewWorkerVersion,
+    promote: boolean
+  ): Promise<WorkerVersion> {
+    const sql = getDb();
+    const [, result] = await sql.transaction([
+      sql`
+        UPDATE workers
+        SET latest_version = latest_version + 1,
+            current_version = CASE WHEN ${promote}::boolean THEN latest_version + 1 ELSE current_version END
+        WHERE id = ${workerId}
+      `,
+      sql`
+        INSERT INTO worker_versions (worker_id, version, snapshot_id, source_files, entry_file, dependencies, lockfile, functions, function_metadata, source_map, status, snapshot_expires_at)
+        VALUES (${workerId}, (SELECT latest_version FROM workers WHERE id = ${workerId}), ${data.snapshotId}, ${JSON.stringify(data.sourceFiles)}::jsonb, ${data.entryFile}, ${JSON.stringify(data.dependencies)}::jsonb, ${data.lockfile ? JSON.stringify(data.lockfile) : null}::jsonb, ${data.functions}, ${JSON.stringify(data.functionMetadata)}::jsonb, ${JSON.stringify(data.sourceMap)}::jsonb, 'ready', ${data.snapshotExpiresAt.toISOString()})
+        RETURNING *
+      `,
+    ]);
+    return result[0] as WorkerVersion;
+  },
+
+  async getWorkerVersion(workerId: string, version: number): Promise<WorkerVersion | null> {
+    const sql = getDb();
+    const result = await sql`
+      SELECT * FROM worker_versions WHERE worker_id = ${workerId} AND version = ${version}
+    `;
+    return (result[0] as WorkerVersion) || null;
+  },
+
+  async getWorkerVersions(workerId: string): Promise<WorkerVersion[]> {
+    const sql = getDb();
+    const result = await sql`
+      SELECT * FROM worker_versions WHERE worker_id = ${workerId} ORDER BY version DESC
+    `;
+    return result as WorkerVersion[];
+  },
+
+  async setCurrentVersion(workerId: string, version: number): Promise<Worker | null> {
+    const sql = getDb();
+    const result = await sql`
+      UPDATE workers
+      SET current_version = ${version}
+      WHERE id = ${workerId}
+        AND EXISTS (SELECT 1 FROM worker_versions WHERE worker_id = ${workerId} AND version = ${version})
+      RETURNING project_id
+    `;
+    return result.length > 0 ? this.getWorker(result[0].project_id, workerId) : null;
+  },
+
+  // null resets the worker to the default invocation timeout
+  async setWorkerTimeout(workerId: string, timeoutMs: number | null): Promise<Worker | null> {
     const sql = getDb();
     const result = await sql`
       UPDATE workers
+      SET timeout_ms = ${timeoutMs}
+      WHERE id = ${workerId}
+      RETURNING project_id
+    `;
+    return result.length > 0 ? this.getWorker(result[0].project_id, workerId) : null;
+  },
+
+  async setWorkerRebuildOnExpiry(workerId: string, enabled: boolean): Promise<Worker | null> {
+    const sql = getDb();
+    const result = await sql`
+      UPDATE workers
+      SET rebuild_on_expiry = ${enabled}
+      WHERE id = ${workerId}
+      RETURNING project_id
+    `;
+    return result.length > 0 ? this.getWorker(result[0].project_id, workerId) : null;
+  },
+
+  async updateVersionError(workerId: string, version: number, errorMessage: string): Promise<WorkerVersion | null> {
+    const sql = getDb();
+    const result = await sql`
+      UPDATE worker_versions
       SET status = 'error', error_message = ${errorMessage}
-      WHERE id = ${id}
+      WHERE worker_id = ${workerId} AND version = ${version}
       RETURNING *
     `;
-    return (result[0] as Worker) || null;
+    return (result[0] as WorkerVersion) || null;
   },
 
-  async updateWorkerExpired(id: string): Promise<Worker | null> {
+  async updateVersionExpired(workerId: string, version: number): Promise<WorkerVersion | null> {
     const sql = getDb();
     const result = await sql`
-      UPDATE workers
+      UPDATE worker_versions
       SET status = 'expired'
+      WHERE worker_id = ${workerId} AND version = ${version}
+      RETURNING *
+    `;
+    return (result[0] as WorkerVersion) || null;
+  },
+
+  /**
+   * Claim up to `limit` versions whose snapshots expire within windowMs (or
+   * already have) and that can still be invoked: the current version and any
+   * version an alias routes to. Claimed versions are skipped by other runs for leaseMs.
+   */
+  async claimVersionsForRenewal(limit: number, windowMs: number, leaseMs: number): Promise<WorkerVersion[]> {
+    const sql = getDb();
+    const result = await sql`
+      WITH due AS (
+        SELECT v.id FROM worker_versions v
+        JOIN workers w ON w.id = v.worker_id
+        WHERE v.status IN ('ready', 'expired')
+          AND v.snapshot_expires_at < NOW() + ${windowMs} * INTERVAL '1 millisecond'
+          AND (v.renewal_locked_until IS NULL OR v.renewal_locked_until < NOW())
+          AND (
+            v.version = w.current_version
+            OR EXISTS (
+              SELECT 1 FROM worker_aliases a, jsonb_array_elements(a.routes) r
+              WHERE a.worker_id = v.worker_id AND (r->>'version')::int = v.version
+            )
+          )
+        ORDER BY v.snapshot_expires_at
+        LIMIT ${limit}
+        FOR UPDATE OF v SKIP LOCKED
+      )
+      UPDATE worker_versions v
+      SET renewal_locked_until = NOW() + ${leaseMs} * INTERVAL '1 millisecond'
+      FROM due
+      WHERE v.id = due.id
+      RETURNING v.*
+    `;
+    return result as WorkerVersion[];
+  },
+
+  /**
+   * Point a version at a rebuilt snapshot, keeping its version number and the
+   * worker ID. Only applies if the version still has previousSnapshotId, so
+   * concurrent rebuilds can't overwrite each other; returns null when it didn't.
+   */
+  async replaceVersionSnapshot(
+    workerId: string,
+    version: number,
+    previousSnapshotId: string,
+    data: Pick<NewWorkerVersion, 'snapshotId' | 'snapshotExpiresAt' | 'lockfile'>
+  ): Promise<WorkerVersion | null> {
+    const sql = getDb();
+    const result = await sql`
+      UPDATE worker_versions
+      SET snapshot_id = ${data.snapshotId},
+          snapshot_expires_at = ${data.snapshotExpiresAt.toISOString()},
+          lockfile = ${data.lockfile ? JSON.stringify(data.lockfile) : null}::jsonb,
+          status = 'ready',
+          error_message = NULL,
+          renewal_locked_until = NULL
+      WHERE worker_id = ${workerId} AND version = ${version} AND snapshot_id = ${previousSnapshotId}
+      RETURNING *
+    `;
+    return (result[0] as WorkerVersion) || null;
+  },
+
+  async getAliases(workerId: string): Promise<WorkerAlias[]> {
+    const sql = getDb();
+    const result = await sql`
+      SELECT * FROM worker_aliases WHERE worker_id = ${workerId} ORDER BY name
+    `;
+    return result as WorkerAlias[];
+  },
+
+  async getAlias(workerId: string, name: string): Promise<WorkerAlias | null> {
+    const sql = getDb();
+    const result = await sql`
+      SELECT * FROM worker_aliases WHERE worker_id = ${workerId} AND name = ${name}
+    `;
+    return (result[0] as WorkerAlias) || null;
+  },
+
+  async upsertAlias(workerId: string, name: string, routes: AliasRoute[]): Promise<WorkerAlias> {
+    const sql = getDb();
+    const result = await sql`
+      INSERT INTO worker_aliases (worker_id, name, routes)
+      VALUES (${workerId}, ${name}, ${JSON.stringify(routes)}::jsonb)
+      ON CONFLICT (worker_id, name)
+      DO UPDATE SET routes = EXCLUDED.routes, updated_at = NOW()
+      RETURNING *
+    `;
+    return result[0] as WorkerAlias;
+  },
+
+  async deleteAlias(workerId: string, name: string): Promise<boolean> {
+    const sql = getDb();
+    const result = await sql`
+      DELETE FROM worker_aliases WHERE worker_id = ${workerId} AND name = ${name} RETURNING name
+    `;
+    return result.length > 0;
+  },
+
+  async getWorkerSecrets(workerId: string): Promise<WorkerSecret[]> {
+    const sql = getDb();
+    const result = await sql`
+      SELECT * FROM worker_secrets WHERE worker_id = ${workerId} ORDER BY name
+    `;
+    return result as WorkerSecret[];
+  },
+
+  // Upsert `set` and delete `remove` together, so a failed update changes nothing
+  async updateWorkerSecrets(
+    workerId: string,
+    set: Array<{ name: string; valueEncrypted: string }>,
+    remove: string[]
+  ): Promise<WorkerSecret[]> {
+    const sql = getDb();
+    await sql.transaction([
+      sql`
+        DELETE FROM worker_secrets WHERE worker_id = ${workerId} AND name = ANY(${remove}::text[])
+      `,
+      sql`
+        INSERT INTO worker_secrets (worker_id, name, value_encrypted)
+        SELECT ${workerId}, name, value_encrypted
+        FROM UNNEST(${set.map((s) => s.name)}::text[], ${set.map((s) => s.valueEncrypted)}::text[])
+          AS t(name, value_encrypted)
+        ON CONFLICT (worker_id, name)
+        DO UPDATE SET value_encrypted = EXCLUDED.value_encrypted, updated_at = NOW()
+      `,
+    ]);
+    return this.getWorkerSecrets(workerId);
+  },
+
+  async createInvocation(data: {
+    workerId: string;
+    version: number;
+    functionName: string;
+    payload: unknown;
+    timeoutMs: number;
+    webhookId?: string;
+    signatureStatus?: SignatureStatus;
+  }): Promise<Invocation> {
+    const sql = getDb();
+    const result = await sql`
+      INSERT INTO invocations (worker_id, version, function_name, payload, timeout_ms, webhook_id, signature_status, status)
+      VALUES (${data.workerId}, ${data.version}, ${data.functionName}, ${JSON.stringify(data.payload ?? null)}::jsonb, ${data.timeoutMs}, ${data.webhookId ?? null}, ${data.signatureStatus ?? null}, 'running')
+      RETURNING *
+    `;
+    return result[0] as Invocation;
+  },
+
+  // Only a running invocation is completed, so a cancellation is never overwritten
+  async completeInvocation(id: string, data: {
+    status: InvocationStatus;
+    result?: unknown;
+    error?: string;
+    errorDetails?: MappedWorkerError;
+    durationMs: number;
+    coldStart?: boolean;
+  }): Promise<Invocation | null> {
+    const sql = getDb();
+    const result = await sql`
+      UPDATE invocations
+      SET status = ${data.status},
+          result = ${data.result === undefined ? null : JSON.stringify(data.result)}::jsonb,
+          error = ${data.error ?? null},
+          error_details = ${data.errorDetails ? JSON.stringify(data.errorDetails) : null}::jsonb,
+          duration_ms = ${data.durationMs},
+          cold_start = ${data.coldStart ?? null},
+          finished_at = NOW()
+      WHERE id = ${id} AND status = 'running'
+      RETURNING *
+    `;
+    return (result[0] as Invocation) || null;
+  },
+
+  /**
+   * Mark invocations still running graceMs past their timeout as timed out.
+   * Their process was stopped (e.g. the function hit its maxDuration) before it
+   * could record an outcome.
+   */
+  async timeOutStaleInvocations(graceMs: number): Promise<Invocation[]> {
+    const sql = getDb();
+    const result = await sql`
+      UPDATE invocations
+      SET status = 'timeout',
+          error = 'Invocation stopped before recording a result',
+          duration_ms = (EXTRACT(EPOCH FROM NOW() - started_at) * 1000)::integer,
+          finished_at = NOW()
+      WHERE status = 'running'
+        AND started_at < NOW() - (timeout_ms + ${graceMs}) * INTERVAL '1 millisecond'
+      RETURNING *
+    `;
+    return result as Invocation[];
+  },
+
+  async setInvocationSandbox(id: string, sandboxId: string): Promise<Invocation | null> {
+    const sql = getDb();
+    const result = await sql`
+      UPDATE invocations
+      SET sandbox_id = ${sandboxId}
       WHERE id = ${id}
       RETURNING *
     `;
-    return (result[0] as Worker) || null;
+    return (result[0] as Invocation) || null;
+  },
+
+  // Returns null unless the invocation was still running
+  async cancelInvocation(projectId: string, id: string): Promise<Invocation | null> {
+    const sql = getDb();
+    const result = await sql`
+      UPDATE invocations i
+      SET status = 'cancelled',
+          error = 'Invocation cancelled',
+          duration_ms = (EXTRACT(EPOCH FROM NOW() - i.started_at) * 1000)::integer,
+          finished_at = NOW()
+      FROM workers w
+      WHERE i.id = ${id} AND i.status = 'running'
+        AND w.id = i.worker_id AND w.project_id = ${projectId}
+      RETURNING i.*
+    `;
+    return (result[0] as Invocation) || null;
+  },
+
+  async getInvocation(projectId: string, id: string): Promise<Invocation | null> {
+    const sql = getDb();
+    const result = await sql`
+      SELECT i.* FROM invocations i
+      JOIN workers w ON w.id = i.worker_id
+      WHERE i.id = ${id} AND w.project_id = ${projectId}
+    `;
+    return (result[0] as Invocation) || null;
+  },
+
+  async listInvocations(workerId: string, filters: {
+    functionName?: string;
+    status?: InvocationStatus;
+    limit: number;
+    offset: number;
+  }): Promise<{ invocations: Invocation[]; total: number }> {
+    const sql = getDb();
+    const functionName = filters.functionName ?? null;
+    const status = filters.status ?? null;
+
+    const [invocations, count] = await sql.transaction([
+      sql`
+        SELECT * FROM invocations
+        WHERE worker_id = ${workerId}
+          AND (${functionName}::text IS NULL OR function_name = ${functionName})
+          AND (${status}::text IS NULL OR status = ${status})
+        ORDER BY started_at DESC, id DESC
+        LIMIT ${filters.limit} OFFSET ${filters.offset}
+      `,
+      sql`
+        SELECT COUNT(*)::int AS total FROM invocations
+        WHERE worker_id = ${workerId}
+          AND (${functionName}::text IS NULL OR function_name = ${functionName})
+          AND (${status}::text IS NULL OR status = ${status})
+      `,
+    ], { readOnly: true });
+
+    return { invocations: invocations as Invocation[], total: count[0].total as number };
+  },
+
+  async createSchedule(data: {
+    workerId: string;
+    functionName: string;
+    cron: string;
+    timezone: string;
+    payload: unknown;
+    enabled: boolean;
+    nextRunAt: Date | null;
+  }): Promise<Schedule> {
+    const sql = getDb();
+    const result = await sql`
+      INSERT INTO schedules (worker_id, function_name, cron, timezone, payload, enabled, next_run_at)
+      VALUES (${data.workerId}, ${data.functionName}, ${data.cron}, ${data.timezone}, ${JSON.stringify(data.payload ?? null)}::jsonb, ${data.enabled}, ${data.nextRunAt?.toISOString() ?? null})
+      RETURNING id
+    `;
+    return (await this.getSchedule(data.workerId, result[0].id))!;
+  },
+
+  async getSchedules(workerId: string): Promise<Schedule[]> {
+    const sql = getDb();
+    const result = await sql`
+      SELECT s.*, i.status AS last_status
+      FROM schedules s
+      LEFT JOIN invocations i ON i.id = s.last_invocation_id
+      WHERE s.worker_id = ${workerId}
+      ORDER BY s.created_at
+    `;
+    return result as Schedule[];
+  },
+
+  async getSchedule(workerId: string, id: string): Promise<Schedule | null> {
+    const sql = getDb();
+    const result = await sql`
+      SELECT s.*, i.status AS last_status
+      FROM schedules s
+      LEFT JOIN invocations i ON i.id = s.last_invocation_id
+      WHERE s.worker_id = ${workerId} AND s.id = ${id}
+    `;
+    return (result[0] as Schedule) || null;
+  },
+
+  async updateSchedule(workerId: string, id: string, data: {
+    functionName: string;
+    cron: string;
+    timezone: string;
+    payload: unknown;
+    enabled: boolean;
+    nextRunAt: Date | null;
+  }): Promise<Schedule | null> {
+    const sql = getDb();
+    const result = await sql`
+      UPDATE schedules
+      SET function_name = ${data.functionName},
+          cron = ${data.cron},
+          timezone = ${data.timezone},
+          payload = ${JSON.stringify(data.payload ?? null)}::jsonb,
+          enabled = ${data.enabled},
+          next_run_at = ${data.nextRunAt?.toISOString() ?? null},
+          updated_at = NOW()
+      WHERE worker_id = ${workerId} AND id = ${id}
+      RETURNING id
+    `;
+    return result.length > 0 ? this.getSchedule(workerId, id) : null;
+  },
+
+  async deleteSchedule(workerId: string, id: string): Promise<boolean> {
+    const sql = getDb();
+    const result = await sql`
+      DELETE FROM schedules WHERE worker_id = ${workerId} AND id = ${id} RETURNING id
+    `;
+    return result.length > 0;
+  },
+
+  /**
+   * Claim up to `limit` due schedules. Each claimed schedule's next_run_at is pushed
+   * out by leaseMs so a concurrent tick skips it; the caller then sets the real next
+   * run. A tick that dies mid-way leaves the lease, and the schedule runs when it ends.
+   */
+  async claimDueSchedules(limit: number, leaseMs: number): Promise<Array<Schedule & { project_id: string }>> {
+    const sql = getDb();
+    const result = await sql`
+      WITH due AS (
+        SELECT id FROM schedules
+        WHERE enabled AND next_run_at <= NOW()
+        ORDER BY next_run_at
+        LIMIT ${limit}
+        FOR UPDATE SKIP LOCKED
+      )
+      UPDATE schedules s
+      SET next_run_at = NOW() + ${leaseMs} * INTERVAL '1 millisecond',
+          last_run_at = NOW()
+      FROM due, workers w
+      WHERE s.id = due.id AND w.id = s.worker_id
+      RETURNING s.*, w.project_id
+    `;
+    return result as Array<Schedule & { project_id: string }>;
+  },
+
+  async recordScheduleRun(id: string, data: {
+    nextRunAt: Date | null;
+    invocationId: string | null;
+  }): Promise<void> {
+    const sql = getDb();
+    await sql`
+      UPDATE schedules
+      SET next_run_at = ${data.nextRunAt?.toISOString() ?? null},
+          last_invocation_id = COALESCE(${data.invocationId}::uuid, last_invocation_id)
+      WHERE id = ${id}
+    `;
+  },
+
+  async createJob(data: {
+    workerId: string;
+    functionName: string;
+    payload: unknown;
+    maxAttempts: number;
+    backoffMs: number;
+    runAt: Date;
+  }): Promise<Job> {
+    const sql = getDb();
+    const result = await sql`
+      INSERT INTO jobs (worker_id, function_name, payload, max_attempts, backoff_ms, run_at)
+      VALUES (${data.workerId}, ${data.functionName}, ${JSON.stringify(data.payload ?? null)}::jsonb, ${data.maxAttempts}, ${data.backoffMs}, ${data.runAt.toISOString()})
+      RETURNING *
+    `;
+    return result[0] as Job;
+  },
+
+  async getJob(workerId: string, id: string): Promise<Job | null> {
+    const sql = getDb();
+    const result = await sql`
+      SELECT * FROM jobs WHERE worker_id = ${workerId} AND id = ${id}
+    `;
+    return (result[0] as Job) || null;
+  },
+
+  async listJobs(workerId: string, filters: {
+    status: JobStatus;
+    limit: number;
+    offset: number;
+  }): Promise<{ jobs: Job[]; total: number }> {
+    const sql = getDb();
+    const [jobs, count] = await sql.transaction([
+      sql`
+        SELECT * FROM jobs
+        WHERE worker_id = ${workerId} AND status = ${filters.status}
+        ORDER BY updated_at DESC, id DESC
+        LIMIT ${filters.limit} OFFSET ${filters.offset}
+      `,
+      sql`
+        SELECT COUNT(*)::int AS total FROM jobs
+        WHERE worker_id = ${workerId} AND status = ${filters.status}
+      `,
+    ], { readOnly: true });
+
+    return { jobs: jobs as Job[], total: count[0].total as number };
+  },
+
+  /**
+   * Claim up to `limit` jobs that are due, plus running jobs whose lock expired
+   * (their consumer died) and that have attempts left; those that don't are
+   * dead-lettered. Claiming counts as an attempt and locks the job for leaseMs.
+   */
+  async claimJobs(limit: number, leaseMs: number): Promise<Array<Job & { project_id: string }>> {
+    const sql = getDb();
+    const [, result] = await sql.transaction([
+      sql`
+        UPDATE jobs
+        SET status = 'dead',
+            locked_until = NULL,
+            last_error = 'Consumer stopped before the final attempt finished',
+            updated_at = NOW()
+        WHERE status = 'running' AND locked_until < NOW() AND attempts >= max_attempts
+      `,
+      sql`
+        WITH claimable AS (
+          SELECT id FROM jobs
+          WHERE (status = 'queued' AND run_at <= NOW())
+             OR (status = 'running' AND locked_until < NOW() AND attempts < max_attempts)
+          ORDER BY run_at
+          LIMIT ${limit}
+          FOR UPDATE SKIP LOCKED
+        )
+        UPDATE jobs j
+        SET status = 'running',
+            attempts = j.attempts + 1,
+            locked_until = NOW() + ${leaseMs} * INTERVAL '1 millisecond',
+            updated_at = NOW()
+        FROM claimable, workers w
+        WHERE j.id = claimable.id AND w.id = j.worker_id
+        RETURNING j.*, w.project_id
+      `,
+    ]);
+    return result as Array<Job & { project_id: string }>;
+  },
+
+  // Record the outcome of an attempt: succeeded, queued again for runAt, or dead.
+  // Does nothing once the job was reclaimed for a later attempt.
+  async finishJobAttempt(id: string, attempt: number, data: {
+    status: Exclude<JobStatus, 'running'>;
+    runAt?: Date;
+    error: string | null;
+    invocationId: string | null;
+  }): Promise<void> {
+    const sql = getDb();
+    await sql`
+      UPDATE jobs
+      SET status = ${data.status},
+          run_at = COALESCE(${data.runAt?.toISOString() ?? null}::timestamptz, run_at),
+          locked_until = NULL,
+          last_error = ${data.error},
+          last_invocation_id = COALESCE(${data.invocationId}::uuid, last_invocation_id),
+          completed_at = CASE WHEN ${data.status} = 'succeeded' THEN NOW() ELSE completed_at END,
+          updated_at = NOW()
+      WHERE id = ${id} AND status = 'running' AND attempts = ${attempt}
+    `;
+  },
+
+  // Queue dead letters again with a fresh set of attempts; null redrives all of them
+  async redriveJobs(workerId: string, ids: string[] | null): Promise<Job[]> {
+    const sql = getDb();
+    const result = await sql`
+      UPDATE jobs
+      SET status = 'queued', attempts = 0, run_at = NOW(), updated_at = NOW()
+      WHERE worker_id = ${workerId} AND status = 'dead'
+        AND (${ids}::uuid[] IS NULL OR id = ANY(${ids}::uuid[]))
+      RETURNING *
+    `;
+    return result as Job[];
+  },
+
+  async createWebhook(data: {
+    id: string;
+    workerId: string;
+    functionName: string;
+    signature: SignatureConfig;
+    secretEncrypted: string | null;
+  }): Promise<Webhook> {
+    const sql = getDb();
+    const result = await sql`
+      INSERT INTO webhooks (id, worker_id, function_name, signature, secret_encrypted)
+      VALUES (${data.id}, ${data.workerId}, ${data.functionName}, ${JSON.stringify(data.signature)}::jsonb, ${data.secretEncrypted})
+      RETURNING *
+    `;
+    return result[0] as Webhook;
+  },
+
+  async getWebhooks(workerId: string): Promise<Webhook[]> {
+    const sql = getDb();
+    const result = await sql`
+      SELECT * FROM webhooks WHERE worker_id = ${workerId} ORDER BY created_at
+    `;
+    return result as Webhook[];
+  },
+
+  async getWebhook(workerId: string, id: string): Promise<Webhook | null> {
+    const sql = getDb();
+    const result = await sql`
+      SELECT * FROM webhooks WHERE worker_id = ${workerId} AND id = ${id}
+    `;
+    return (result[0] as Webhook) || null;
+  },
+
+  // Deliveries only know the hook ID, so this also returns the owning project
+  async getWebhookForDelivery(id: string): Promise<(Webhook & { project_id: string }) | null> {
+    const sql = getDb();
+    const result = await sql`
+      SELECT h.*, w.project_id
+      FROM webhooks h
+      JOIN workers w ON w.id = h.worker_id
+      WHERE h.id = ${id}
+    `;
+    return (result[0] as Webhook & { project_id: string }) || null;
+  },
+
+  async deleteWebhook(workerId: string, id: string): Promise<boolean> {
+    const sql = getDb();
+    const result = await sql`
+      DELETE FROM webhooks WHERE worker_id = ${workerId} AND id = ${id} RETURNING id
+    `;
+    return result.length > 0;
+  },
+
+  async touchWebhook(id: string): Promise<void> {
+    const sql = getDb();
+    await sql`
+      UPDATE webhooks SET last_delivery_at = NOW() WHERE id = ${id}
+    `;
+  },
+
+  async appendInvocationLogs(invocationId: string, logs: Array<{
+    stream: 'stdout' | 'stderr';
+    level: string;
+    message: string;
+    timestamp: number;
+    args?: unknown[];
+    fields?: Record<string, unknown>;
+  }>): Promise<void> {
+    if (logs.length === 0) return;
+    const sql = getDb();
+    // JSONB columns go through text[] since UNNEST can't take a jsonb[] parameter
+    await sql`
+      INSERT INTO invocation_logs (invocation_id, stream, level, message, args, fields, logged_at)
+      SELECT ${invocationId}, stream, level, message, args::jsonb, fields::jsonb, to_timestamp(ts / 1000.0)
+      FROM UNNEST(
+        ${logs.map((l) => l.stream)}::text[],
+        ${logs.map((l) => l.level)}::text[],
+        ${logs.map((l) => l.message)}::text[],
+        ${logs.map((l) => (l.args ? JSON.stringify(l.args) : null))}::text[],
+        ${logs.map((l) => (l.fields ? JSON.stringify(l.fields) : null))}::text[],
+        ${logs.map((l) => l.timestamp)}::bigint[]
+      ) AS t(stream, level, message, args, fields, ts)
+    `;
   },
 
-  async updateLastInvoked(id: string): Promise<Worker | null> {
+  // Pass afterId to fetch only logs stored since the last read
+  async getInvocationLogs(invocationId: string, afterId?: string): Promise<InvocationLog[]> {
     const sql = getDb();
+    const after = afterId ?? null;
     const result = await sql`
+      SELECT * FROM invocation_logs
+      WHERE invocation_id = ${invocationId}
+        AND (${after}::bigint IS NULL OR id > ${after}::bigint)
+      ORDER BY id
+    `;
+    return result as InvocationLog[];
+  },
+
+  async updateLastInvoked(id: string): Promise<void> {
+    const sql = getDb();
+    await sql`
       UPDATE workers
       SET last_invoked_at = NOW()
       WHERE id = ${id}
-      RETURNING *
     `;
-    return (result[0] as Worker) || null;
   },
 
-  async deleteWorker(id: string): Promise<boolean> {
+  async deleteWorker(projectId: string, id: string): Promise<boolean> {
     const sql = getDb();
     const result = await sql`
-      DELETE FROM workers WHERE id = ${id} RETURNING id
+      DELETE FROM workers WHERE id = ${id} AND project_id = ${projectId} RETURNING id
     `;
     return result.length > 0;
   },
 
+  async createProject(name: string): Promise<Project> {
+    const sql = getDb();
+    const result = await sql`
+      INSERT INTO projects (name) VALUES (${name}) RETURNING *
+    `;
+    return result[0] as Project;
+  },
+
+  async getProject(id: string): Promise<Project | null> {
+    const sql = getDb();
+    const result = await sql`
+      SELECT * FROM projects WHERE id = ${id}
+    `;
+    return (result[0] as Project) || null;
+  },
+
+  async getProjectByName(name: string): Promise<Project | null> {
+    const sql = getDb();
+    const result = await sql`
+      SELECT * FROM projects WHERE name = ${name}
+    `;
+    return (result[0] as Project) || null;
+  },
+
+  async getDefaultProject(): Promise<Project | null> {
+    return this.getProjectByName(DEFAULT_PROJECT_NAME);
+  },
+
+  async listProjects(): Promise<Project[]> {
+    const sql = getDb();
+    const result = await sql`
+      SELECT * FROM projects ORDER BY created_at
+    `;
+    return result as Project[];
+  },
+
+  async createApiKey(data: {
+    projectId: string | null;
+    name: string;
+    keyHash: string;
+    prefix: string;
+    scopes: ApiKeyScope[];
+  }): Promise<ApiKey> {
+    const sql = getDb();
+    const result = await sql`
+      INSERT INTO api_keys (project_id, name, key_hash, prefix, scopes)
+      VALUES (${data.projectId}, ${data.name}, ${data.keyHash}, ${data.prefix}, ${data.scopes})
+      RETURNING *
+    `;
+    return result[0] as ApiKey;
+  },
+
+  // projectId null lists the keys of every project
+  async listApiKeys(projectId: string | null): Promise<ApiKey[]> {
+    const sql = getDb();
+    const result = await sql`
+      SELECT * FROM api_keys
+      WHERE ${projectId}::uuid IS NULL OR project_id = ${projectId}
+      ORDER BY created_at DESC
+    `;
+    return result as ApiKey[];
+  },
+
+  // Only keys that haven't been revoked
+  async getApiKeyByHash(keyHash: string): Promise<ApiKey | null> {
+    const sql = getDb();
+    const result = await sql`
+      SELECT * FROM api_keys WHERE key_hash = ${keyHash} AND revoked_at IS NULL
+    `;
+    return (result[0] as ApiKey) || null;
+  },
+
+  async revokeApiKey(id: string, projectId: string | null): Promise<ApiKey | null> {
+    const sql = getDb();
+    const result = await sql`
+      UPDATE api_keys
+      SET revoked_at = NOW()
+      WHERE id = ${id} AND revoked_at IS NULL
+        AND (${projectId}::uuid IS NULL OR project_id = ${projectId})
+      RETURNING *
+    `;
+    return (result[0] as ApiKey) || null;
+  },
+
+  async touchApiKey(id: string): Promise<void> {
+    const sql = getDb();
+    await sql`
+      UPDATE api_keys SET last_used_at = NOW() WHERE id = ${id}
+    `;
+  },
+
+  // Expired sessions are cleared out whenever a new one is opened
+  async createSession(data: { tokenHash: string; keyHash: string; expiresAt: Date }): Promise<void> {
+    const sql = getDb();
+    await sql.transaction([
+      sql`DELETE FROM sessions WHERE expires_at < NOW()`,
+      sql`
+        INSERT INTO sessions (token_hash, key_hash, expires_at)
+        VALUES (${data.tokenHash}, ${data.keyHash}, ${data.expiresAt.toISOString()})
+      `,
+    ]);
+  },
+
+  // Hash of the key an unexpired session was opened with
+  async getSessionKeyHash(tokenHash: string): Promise<string | null> {
+    const sql = getDb();
+    const result = await sql`
+      SELECT key_hash FROM sessions WHERE token_hash = ${tokenHash} AND expires_at > NOW()
+    `;
+    return (result[0]?.key_hash as string) ?? null;
+  },
+
+  async deleteSession(tokenHash: string): Promise<void> {
+    const sql = getDb();
+    await sql`
+      DELETE FROM sessions WHERE token_hash = ${tokenHash}
+    `;
+  },
+
   async initSchema(): Promise<void> {
     const sql = getDb();
 
     // Drop old tables from previous implementation
+    await sql`DROP TABLE IF EXISTS sessions CASCADE`;
+    await sql`DROP TABLE IF EXISTS api_keys CASCADE`;
+    await sql`DROP TABLE IF EXISTS jobs CASCADE`;
+    await sql`DROP TABLE IF EXISTS webhooks CASCADE`;
+    await sql`DROP TABLE IF EXISTS schedules CASCADE`;
+    await sql`DROP TABLE IF EXISTS invocation_logs CASCADE`;
+    await sql`DROP TABLE IF EXISTS invocations CASCADE`;
+    await sql`DROP TABLE IF EXISTS worker_secrets CASCADE`;
+    await sql`DROP TABLE IF EXISTS worker_aliases CASCADE`;
+    await sql`DROP TABLE IF EXISTS worker_versions CASCADE`;
     await sql`DROP TABLE IF EXISTS workers CASCADE`;
     await sql`DROP TABLE IF EXISTS tenants CASCADE`;
+    await sql`DROP TABLE IF EXISTS projects CASCADE`;
+
+    // Projects own workers; every query is scoped to one
+    await sql`
+      CREATE TABLE projects (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        name VARCHAR(255) NOT NULL UNIQUE,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+      )
+    `;
 
-    // Create simplified workers table with sandbox fields
+    // Requests that don't pick a project use this one
+    await sql`INSERT INTO projects (name) VALUES (${DEFAULT_PROJECT_NAME})`;
+
+    // Named workers with a pointer to their current version
     await sql`
       CREATE TABLE workers (
         id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
         name VARCHAR(255) NOT NULL,
+        current_version INTEGER NOT NULL DEFAULT 1,
+        latest_version INTEGER NOT NULL DEFAULT 1,
+        timeout_ms INTEGER,
+        rebuild_on_expiry BOOLEAN NOT NULL DEFAULT false,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+        last_invoked_at TIMESTAMP WITH TIME ZONE,
+        UNIQUE (project_id, name)
+      )
+    `;
+
+    // Immutable versions, each with its own snapshot
+    await sql`
+      CREATE TABLE worker_versions (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        worker_id UUID NOT NULL REFERENCES workers(id) ON DELETE CASCADE,
+        version INTEGER NOT NULL,
         snapshot_id VARCHAR(255) NOT NULL,
         functions TEXT[] DEFAULT '{}',
+        function_metadata JSONB NOT NULL DEFAULT '[]',
+        source_map JSONB NOT NULL DEFAULT '[]',
         status VARCHAR(50) DEFAULT 'creating' CHECK (status IN ('creating', 'ready', 'error', 'expired')),
         error_message TEXT,
-        source_code TEXT NOT NULL,
+        source_files JSONB NOT NULL,
+        entry_file VARCHAR(255) NOT NULL DEFAULT 'index.ts',
+        dependencies JSONB NOT NULL DEFAULT '{}',
+        lockfile JSONB,
         created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
         snapshot_expires_at TIMESTAMP WITH TIME ZONE,
-        last_invoked_at TIMESTAMP WITH TIME ZONE
+        renewal_locked_until TIMESTAMP WITH TIME ZONE,
+        UNIQUE (worker_id, version)
+      )
+    `;
+
+    await sql`CREATE INDEX idx_worker_versions_snapshot_id ON worker_versions(snapshot_id)`;
+    await sql`CREATE INDEX idx_worker_versions_snapshot_expires ON worker_versions(snapshot_expires_at)`;
+
+    // Named aliases routing weighted traffic to versions
+    await sql`
+      CREATE TABLE worker_aliases (
+        worker_id UUID NOT NULL REFERENCES workers(id) ON DELETE CASCADE,
+        name VARCHAR(63) NOT NULL,
+        routes JSONB NOT NULL,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+        PRIMARY KEY (worker_id, name)
+      )
+    `;
+
+    // Environment variables for the worker's process, encrypted at rest
+    await sql`
+      CREATE TABLE worker_secrets (
+        worker_id UUID NOT NULL REFERENCES workers(id) ON DELETE CASCADE,
+        name VARCHAR(255) NOT NULL,
+        value_encrypted TEXT NOT NULL,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+        PRIMARY KEY (worker_id, name)
+      )
+    `;
+
+    // Invocation history and captured logs
+    await sql`
+      CREATE TABLE invocations (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        worker_id UUID NOT NULL REFERENCES workers(id) ON DELETE CASCADE,
+        version INTEGER NOT NULL,
+        function_name VARCHAR(255) NOT NULL,
+        payload JSONB,
+        result JSONB,
+        error TEXT,
+        error_details JSONB,
+        status VARCHAR(50) DEFAULT 'running' CHECK (status IN ('running', 'success', 'error', 'timeout', 'cancelled')),
+        timeout_ms INTEGER NOT NULL,
+        sandbox_id VARCHAR(255),
+        duration_ms INTEGER,
+        cold_start BOOLEAN,
+        webhook_id UUID,
+        signature_status VARCHAR(20),
+        started_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+        finished_at TIMESTAMP WITH TIME ZONE
+      )
+    `;
+
+    await sql`CREATE INDEX idx_invocations_worker_started ON invocations(worker_id, started_at DESC)`;
+    await sql`CREATE INDEX idx_invocations_running ON invocations(started_at) WHERE status = 'running'`;
+
+    await sql`
+      CREATE TABLE invocation_logs (
+        id BIGSERIAL PRIMARY KEY,
+        invocation_id UUID NOT NULL REFERENCES invocations(id) ON DELETE CASCADE,
+        stream VARCHAR(10) NOT NULL,
+        level VARCHAR(10) NOT NULL,
+        message TEXT NOT NULL,
+        args JSONB,
+        fields JSONB,
+        logged_at TIMESTAMP WITH TIME ZONE NOT NULL
+      )
+    `;
+
+    await sql`CREATE INDEX idx_invocation_logs_invocation ON invocation_logs(invocation_id, id)`;
+
+    // Cron schedules; the tick endpoint runs those whose next_run_at has passed
+    await sql`
+      CREATE TABLE schedules (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        worker_id UUID NOT NULL REFERENCES workers(id) ON DELETE CASCADE,
+        function_name VARCHAR(255) NOT NULL,
+        cron VARCHAR(255) NOT NULL,
+        timezone VARCHAR(64) NOT NULL DEFAULT 'UTC',
+        payload JSONB,
+        enabled BOOLEAN NOT NULL DEFAULT TRUE,
+        next_run_at TIMESTAMP WITH TIME ZONE,
+        last_run_at TIMESTAMP WITH TIME ZONE,
+        last_invocation_id UUID REFERENCES invocations(id) ON DELETE SET NULL,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+      )
+    `;
+
+    await sql`CREATE INDEX idx_schedules_next_run ON schedules(next_run_at) WHERE enabled`;
+
+    // Inbound webhooks, each invoking one function
+    await sql`
+      CREATE TABLE webhooks (
+        id UUID PRIMARY KEY,
+        worker_id UUID NOT NULL REFERENCES workers(id) ON DELETE CASCADE,
+        function_name VARCHAR(255) NOT NULL,
+        signature JSONB NOT NULL,
+        secret_encrypted TEXT,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+        last_delivery_at TIMESTAMP WITH TIME ZONE
+      )
+    `;
+
+    // Durable queue: jobs are retried with backoff, then kept as dead letters
+    await sql`
+      CREATE TABLE jobs (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        worker_id UUID NOT NULL REFERENCES workers(id) ON DELETE CASCADE,
+        function_name VARCHAR(255) NOT NULL,
+        payload JSONB,
+        status VARCHAR(20) NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'succeeded', 'dead')),
+        attempts INTEGER NOT NULL DEFAULT 0,
+        max_attempts INTEGER NOT NULL,
+        backoff_ms INTEGER NOT NULL,
+        run_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+        locked_until TIMESTAMP WITH TIME ZONE,
+        last_error TEXT,
+        last_invocation_id UUID REFERENCES invocations(id) ON DELETE SET NULL,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+        updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+        completed_at TIMESTAMP WITH TIME ZONE
       )
     `;
 
-    await sql`CREATE INDEX idx_workers_snapshot_id ON workers(snapshot_id)`;
+    await sql`CREATE INDEX idx_jobs_due ON jobs(run_at) WHERE status = 'queued'`;
+    await sql`CREATE INDEX idx_jobs_worker_status ON jobs(worker_id, status, updated_at DESC)`;
+
+    await sql`
+      CREATE TABLE api_keys (
+        id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+        project_id UUID REFERENCES projects(id) ON DELETE CASCADE,
+        name VARCHAR(255) NOT NULL,
+        key_hash CHAR(64) NOT NULL UNIQUE,
+        prefix VARCHAR(16) NOT NULL,
+        scopes TEXT[] NOT NULL,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+        last_used_at TIMESTAMP WITH TIME ZONE,
+        revoked_at TIMESTAMP WITH TIME ZONE
+      )
+    `;
+
+    await sql`
+      CREATE TABLE sessions (
+        token_hash CHAR(64) PRIMARY KEY,
+        key_hash CHAR(64) NOT NULL,
+        created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+        expires_at TIMESTAMP WITH TIME ZONE NOT NULL
+      )
+    `;
+
+    await sql`
+      CREATE VIEW current_workers AS
+      SELECT
+        w.id, w.project_id, w.name, w.current_version, w.latest_version, w.timeout_ms, w.rebuild_on_expiry, w.created_at, w.last_invoked_at,
+        v.version, v.snapshot_id, v.functions, v.function_metadata, v.status, v.error_message,
+        v.source_files, v.entry_file, v.dependencies, v.lockfile, v.source_map, v.snapshot_expires_at,
+        (SELECT MIN(s.next_run_at) FROM schedules s WHERE s.worker_id = w.id AND s.enabled) AS next_scheduled_run_at,
+        (SELECT MAX(s.last_run_at) FROM schedules s WHERE s.worker_id = w.id) AS last_scheduled_run_at
+      FROM workers w
+      JOIN worker_versions v ON v.worker_id = w.id AND v.version = w.current_version
+    `;
   }
 };
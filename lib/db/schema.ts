@@ -1,50 +1,549 @@
-// Sandbox-based schema - each worker = one snapshot
+import type { Dependencies, SourceFiles } from '@/lib/sandbox/bundle';
+import type { FunctionMetadata } from '@/lib/sandbox/exports';
+import type { MappedWorkerError, WorkerSourceMap } from '@/lib/sandbox/sourcemap';
+
+// Sandbox-based schema - each worker version = one snapshot
+
+// Project used when a request doesn't pick one
+export const DEFAULT_PROJECT_NAME = 'default';
 
 export const schema = `
 -- Drop old tables from previous implementation
+DROP TABLE IF EXISTS sessions CASCADE;
+DROP TABLE IF EXISTS api_keys CASCADE;
+DROP TABLE IF EXISTS jobs CASCADE;
+DROP TABLE IF EXISTS webhooks CASCADE;
+DROP TABLE IF EXISTS schedules CASCADE;
+DROP TABLE IF EXISTS invocation_logs CASCADE;
+DROP TABLE IF EXISTS invocations CASCADE;
+DROP TABLE IF EXISTS worker_secrets CASCADE;
+DROP TABLE IF EXISTS worker_aliases CASCADE;
+DROP TABLE IF EXISTS worker_versions CASCADE;
 DROP TABLE IF EXISTS workers CASCADE;
 DROP TABLE IF EXISTS tenants CASCADE;
+DROP TABLE IF EXISTS projects CASCADE;
+
+-- Projects own workers; every query is scoped to one
+CREATE TABLE projects (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name VARCHAR(255) NOT NULL UNIQUE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
 
--- Workers table (each worker = one snapshot)
+-- Requests that don't pick a project use this one
+INSERT INTO projects (name) VALUES ('default');
+
+-- Workers table (a named worker with a pointer to its current version)
 CREATE TABLE workers (
   id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
   name VARCHAR(255) NOT NULL,
+  current_version INTEGER NOT NULL DEFAULT 1,
+  latest_version INTEGER NOT NULL DEFAULT 1,
+  timeout_ms INTEGER,
+  -- Invoking an expired version rebuilds its snapshot from source instead of failing
+  rebuild_on_expiry BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  last_invoked_at TIMESTAMP WITH TIME ZONE,
+  UNIQUE (project_id, name)
+);
+
+-- Worker versions table (each version = one immutable snapshot)
+CREATE TABLE worker_versions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  worker_id UUID NOT NULL REFERENCES workers(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
   snapshot_id VARCHAR(255) NOT NULL,
   functions TEXT[] DEFAULT '{}',
+  function_metadata JSONB NOT NULL DEFAULT '[]',
+  source_map JSONB NOT NULL DEFAULT '[]',
   status VARCHAR(50) DEFAULT 'creating' CHECK (status IN ('creating', 'ready', 'error', 'expired')),
   error_message TEXT,
-  source_code TEXT NOT NULL,
+  source_files JSONB NOT NULL,
+  entry_file VARCHAR(255) NOT NULL DEFAULT 'index.ts',
+  dependencies JSONB NOT NULL DEFAULT '{}',
+  lockfile JSONB,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
   snapshot_expires_at TIMESTAMP WITH TIME ZONE,
-  last_invoked_at TIMESTAMP WITH TIME ZONE
+  -- Set while the renewal job rebuilds the snapshot; a failed rebuild is retried once it passes
+  renewal_locked_until TIMESTAMP WITH TIME ZONE,
+  UNIQUE (worker_id, version)
 );
 
 -- Index for quick lookups
-CREATE INDEX idx_workers_snapshot_id ON workers(snapshot_id);
+CREATE INDEX idx_worker_versions_snapshot_id ON worker_versions(snapshot_id);
+CREATE INDEX idx_worker_versions_snapshot_expires ON worker_versions(snapshot_expires_at);
+
+-- Named aliases (e.g. prod, staging) routing traffic to one or more weighted versions
+CREATE TABLE worker_aliases (
+  worker_id UUID NOT NULL REFERENCES workers(id) ON DELETE CASCADE,
+  name VARCHAR(63) NOT NULL,
+  routes JSONB NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (worker_id, name)
+);
+
+-- Environment variables passed to the worker's process, each value encrypted with AES-256-GCM
+CREATE TABLE worker_secrets (
+  worker_id UUID NOT NULL REFERENCES workers(id) ON DELETE CASCADE,
+  name VARCHAR(255) NOT NULL,
+  value_encrypted TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  PRIMARY KEY (worker_id, name)
+);
+
+-- Invocation history (one row per function call)
+CREATE TABLE invocations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  worker_id UUID NOT NULL REFERENCES workers(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  function_name VARCHAR(255) NOT NULL,
+  payload JSONB,
+  result JSONB,
+  error TEXT,
+  error_details JSONB,
+  status VARCHAR(50) DEFAULT 'running' CHECK (status IN ('running', 'success', 'error', 'timeout', 'cancelled')),
+  timeout_ms INTEGER NOT NULL,
+  sandbox_id VARCHAR(255),
+  duration_ms INTEGER,
+  cold_start BOOLEAN,
+  -- Set for webhook deliveries; the hook may since have been deleted, so no foreign key
+  webhook_id UUID,
+  signature_status VARCHAR(20),
+  started_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  finished_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX idx_invocations_worker_started ON invocations(worker_id, started_at DESC);
+CREATE INDEX idx_invocations_running ON invocations(started_at) WHERE status = 'running';
+
+-- Logs captured during each invocation, in emission order
+CREATE TABLE invocation_logs (
+  id BIGSERIAL PRIMARY KEY,
+  invocation_id UUID NOT NULL REFERENCES invocations(id) ON DELETE CASCADE,
+  stream VARCHAR(10) NOT NULL,
+  level VARCHAR(10) NOT NULL,
+  message TEXT NOT NULL,
+  args JSONB,
+  fields JSONB,
+  logged_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+CREATE INDEX idx_invocation_logs_invocation ON invocation_logs(invocation_id, id);
+
+-- Cron schedules that invoke a function of the worker's current version
+-- next_run_at is computed from the cron expression in its time zone; null when disabled
+CREATE TABLE schedules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  worker_id UUID NOT NULL REFERENCES workers(id) ON DELETE CASCADE,
+  function_name VARCHAR(255) NOT NULL,
+  cron VARCHAR(255) NOT NULL,
+  timezone VARCHAR(64) NOT NULL DEFAULT 'UTC',
+  payload JSONB,
+  enabled BOOLEAN NOT NULL DEFAULT TRUE,
+  next_run_at TIMESTAMP WITH TIME ZONE,
+  last_run_at TIMESTAMP WITH TIME ZONE,
+  last_invocation_id UUID REFERENCES invocations(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX idx_schedules_next_run ON schedules(next_run_at) WHERE enabled;
+
+-- Inbound webhooks: POST /api/hooks/:id invokes a function with the raw request
+-- The signing secret is encrypted like worker secrets
+CREATE TABLE webhooks (
+  id UUID PRIMARY KEY,
+  worker_id UUID NOT NULL REFERENCES workers(id) ON DELETE CASCADE,
+  function_name VARCHAR(255) NOT NULL,
+  signature JSONB NOT NULL,
+  secret_encrypted TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  last_delivery_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Queued invocations, retried with exponential backoff until they succeed or run
+-- out of attempts and become dead letters
+CREATE TABLE jobs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  worker_id UUID NOT NULL REFERENCES workers(id) ON DELETE CASCADE,
+  function_name VARCHAR(255) NOT NULL,
+  payload JSONB,
+  status VARCHAR(20) NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'running', 'succeeded', 'dead')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL,
+  backoff_ms INTEGER NOT NULL,
+  run_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+  -- A running job whose consumer died is picked up again after this
+  locked_until TIMESTAMP WITH TIME ZONE,
+  last_error TEXT,
+  last_invocation_id UUID REFERENCES invocations(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX idx_jobs_due ON jobs(run_at) WHERE status = 'queued';
+CREATE INDEX idx_jobs_worker_status ON jobs(worker_id, status, updated_at DESC);
+
+-- API keys (only a SHA-256 hash of each key is stored)
+-- A key without a project can act in any project
+CREATE TABLE api_keys (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  project_id UUID REFERENCES projects(id) ON DELETE CASCADE,
+  name VARCHAR(255) NOT NULL,
+  key_hash CHAR(64) NOT NULL UNIQUE,
+  prefix VARCHAR(16) NOT NULL,
+  scopes TEXT[] NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  last_used_at TIMESTAMP WITH TIME ZONE,
+  revoked_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Dashboard sessions: the cookie holds a random token and only its hash is stored.
+-- A session acts as the key it was opened with, so revoking the key ends it
+CREATE TABLE sessions (
+  token_hash CHAR(64) PRIMARY KEY,
+  key_hash CHAR(64) NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL
+);
+
+-- Each worker joined with its current version
+CREATE VIEW current_workers AS
+SELECT
+  w.id, w.project_id, w.name, w.current_version, w.latest_version, w.timeout_ms, w.rebuild_on_expiry, w.created_at, w.last_invoked_at,
+  v.version, v.snapshot_id, v.functions, v.function_metadata, v.status, v.error_message,
+  v.source_files, v.entry_file, v.dependencies, v.lockfile, v.source_map, v.snapshot_expires_at,
+  (SELECT MIN(s.next_run_at) FROM schedules s WHERE s.worker_id = w.id AND s.enabled) AS next_scheduled_run_at,
+  (SELECT MAX(s.last_run_at) FROM schedules s WHERE s.worker_id = w.id) AS last_scheduled_run_at
+FROM workers w
+JOIN worker_versions v ON v.worker_id = w.id AND v.version = w.current_version;
 `;
 
-export interface Worker {
+export type WorkerStatus = 'creating' | 'ready' | 'error' | 'expired';
+
+export interface WorkerVersion {
   id: string;
-  name: string;
+  worker_id: string;
+  version: number;
   snapshot_id: string;
   functions: string[];
-  status: 'creating' | 'ready' | 'error' | 'expired';
+  function_metadata: FunctionMetadata[];
+  status: WorkerStatus;
   error_message: string | null;
-  source_code: string;
+  source_files: SourceFiles;
+  entry_file: string;
+  dependencies: Dependencies;
+  lockfile: Record<string, unknown> | null;
+  // Maps worker.js positions back to source_files, for error stacks
+  source_map: WorkerSourceMap;
   created_at: Date;
   snapshot_expires_at: Date | null;
+}
+
+// A worker with its current version's fields (row of the current_workers view)
+export interface Worker extends Omit<WorkerVersion, 'id' | 'worker_id' | 'created_at'> {
+  project_id: string;
+  id: string;
+  name: string;
+  current_version: number;
+  latest_version: number;
+  // Invocation timeout; null uses the platform default
+  timeout_ms: number | null;
+  // Rebuild an expired snapshot on invocation instead of rejecting the call
+  rebuild_on_expiry: boolean;
+  created_at: Date;
   last_invoked_at: Date | null;
+  // Soonest upcoming and latest past run across the worker's schedules
+  next_scheduled_run_at: Date | null;
+  last_scheduled_run_at: Date | null;
+}
+
+export interface AliasRoute {
+  version: number;
+  weight: number;
+}
+
+export interface WorkerAlias {
+  worker_id: string;
+  name: string;
+  routes: AliasRoute[];
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface WorkerSecret {
+  worker_id: string;
+  name: string;
+  // iv.tag.ciphertext, see lib/workers/secrets.ts
+  value_encrypted: string;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export type InvocationStatus = 'running' | 'success' | 'error' | 'timeout' | 'cancelled';
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'dead';
+
+export interface Job {
+  id: string;
+  worker_id: string;
+  function_name: string;
+  payload: unknown;
+  status: JobStatus;
+  attempts: number;
+  max_attempts: number;
+  // Delay before the first retry; each later retry waits twice as long
+  backoff_ms: number;
+  run_at: Date;
+  locked_until: Date | null;
+  last_error: string | null;
+  last_invocation_id: string | null;
+  created_at: Date;
+  updated_at: Date;
+  completed_at: Date | null;
+}
+
+export type SignatureScheme = 'github' | 'stripe' | 'slack' | 'hmac' | 'none';
+
+// verified or unsigned deliveries run; missing or invalid ones are recorded (as a summary) but not run
+export type SignatureStatus = 'verified' | 'unsigned' | 'missing' | 'invalid';
+
+export interface SignatureConfig {
+  scheme: SignatureScheme;
+  // hmac only: lowercase header name, digest and how it is written
+  header?: string;
+  algorithm?: 'sha1' | 'sha256' | 'sha512';
+  encoding?: 'hex' | 'base64';
+  prefix?: string;
+  // stripe and slack: max age of the signed timestamp
+  toleranceS?: number;
+}
+
+export interface Webhook {
+  id: string;
+  worker_id: string;
+  function_name: string;
+  signature: SignatureConfig;
+  secret_encrypted: string | null;
+  created_at: Date;
+  last_delivery_at: Date | null;
+}
+
+export interface Invocation {
+  id: string;
+  worker_id: string;
+  version: number;
+  function_name: string;
+  payload: unknown;
+  result: unknown;
+  error: string | null;
+  // Name, stack (mapped to the user's source), cause and properties of a thrown error
+  error_details: MappedWorkerError | null;
+  status: InvocationStatus;
+  timeout_ms: number;
+  // Sandbox running the function, so another request can stop it
+  sandbox_id: string | null;
+  duration_ms: number | null;
+  cold_start: boolean | null;
+  webhook_id: string | null;
+  signature_status: SignatureStatus | null;
+  started_at: Date;
+  finished_at: Date | null;
+}
+
+export interface Schedule {
+  id: string;
+  worker_id: string;
+  function_name: string;
+  cron: string;
+  // IANA time zone the cron expression is read in
+  timezone: string;
+  payload: unknown;
+  enabled: boolean;
+  next_run_at: Date | null;
+  last_run_at: Date | null;
+  last_invocation_id: string | null;
+  // Status of the last run's invocation, joined in when reading
+  last_status: InvocationStatus | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface InvocationLog {
+  id: string;
+  invocation_id: string;
+  stream: 'stdout' | 'stderr';
+  level: string;
+  message: string;
+  args: unknown[] | null;
+  fields: Record<string, unknown> | null;
+  logged_at: Date;
+}
+
+export type ApiKeyScope = 'deploy' | 'invoke' | 'admin';
+
+export interface Project {
+  id: string;
+  name: string;
+  created_at: Date;
+}
+
+export interface ApiKey {
+  id: string;
+  // null when the key works in every project
+  project_id: string | null;
+  name: string;
+  key_hash: string;
+  // Start of the key, so it can be recognized in lists
+  prefix: string;
+  scopes: ApiKeyScope[];
+  created_at: Date;
+  last_used_at: Date | null;
+  revoked_at: Date | null;
 }
 
 export interface WorkerResponse {
   id: string;
+  projectId: string;
   name: string;
+  version: number;
+  latestVersion: number;
+  timeoutMs: number | null;
+  rebuildOnExpiry: boolean;
   snapshotId: string;
+  entryFile: string;
+  dependencies: Dependencies;
   functions: string[];
-  status: 'creating' | 'ready' | 'error' | 'expired';
+  functionMetadata: FunctionMetadata[];
+  status: WorkerStatus;
   errorMessage: string | null;
   createdAt: string;
   snapshotExpiresAt: string | null;
   lastInvokedAt: string | null;
   expiresInDays: number | null;
+  nextScheduledRunAt: string | null;
+  lastScheduledRunAt: string | null;
+}
+
+export interface WorkerVersionResponse {
+  version: number;
+  current: boolean;
+  snapshotId: string;
+  entryFile: string;
+  dependencies: Dependencies;
+  functions: string[];
+  functionMetadata: FunctionMetadata[];
+  status: WorkerStatus;
+  errorMessage: string | null;
+  createdAt: string;
+  snapshotExpiresAt: string | null;
+  expiresInDays: number | null;
+}
+
+export interface WorkerAliasResponse {
+  name: string;
+  routes: AliasRoute[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Values are write-only: only names are ever returned
+export interface WorkerSecretResponse {
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface InvocationResponse {
+  id: string;
+  workerId: string;
+  version: number;
+  function: string;
+  payload: unknown;
+  result: unknown;
+  error: string | null;
+  errorDetails: MappedWorkerError | null;
+  status: InvocationStatus;
+  timeoutMs: number;
+  duration: number | null;
+  coldStart: boolean | null;
+  webhookId: string | null;
+  signatureStatus: SignatureStatus | null;
+  startedAt: string;
+  finishedAt: string | null;
+}
+
+export interface ScheduleResponse {
+  id: string;
+  workerId: string;
+  function: string;
+  cron: string;
+  timezone: string;
+  payload: unknown;
+  enabled: boolean;
+  nextRunAt: string | null;
+  lastRunAt: string | null;
+  lastInvocationId: string | null;
+  lastStatus: InvocationStatus | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface JobResponse {
+  id: string;
+  workerId: string;
+  function: string;
+  payload: unknown;
+  status: JobStatus;
+  attempts: number;
+  maxAttempts: number;
+  backoffMs: number;
+  runAt: string;
+  lastError: string | null;
+  lastInvocationId: string | null;
+  createdAt: string;
+  updatedAt: string;
+  completedAt: string | null;
+}
+
+// The secret is never returned after the hook is created
+export interface WebhookResponse {
+  id: string;
+  workerId: string;
+  function: string;
+  url: string;
+  signature: SignatureConfig;
+  hasSecret: boolean;
+  createdAt: string;
+  lastDeliveryAt: string | null;
+}
+
+export interface InvocationLogResponse {
+  stream: 'stdout' | 'stderr';
+  level: string;
+  message: string;
+  args?: unknown[];
+  fields?: Record<string, unknown>;
+  timestamp: number;
+}
+
+export interface ProjectResponse {
+  id: string;
+  name: string;
+  createdAt: string;
+}
+
+export interface ApiKeyResponse {
+  id: string;
+  projectId: string | null;
+  name: string;
+  prefix: string;
+  scopes: ApiKeyScope[];
+  createdAt: string;
+  lastUsedAt: string | null;
+  revokedAt: string | null;
 }
@@ -0,0 +1,378 @@
+import { after } from 'next/server';
+import { db } from '@/lib/db/client';
+import type { Invocation, InvocationStatus, SignatureStatus, Worker } from '@/lib/db/schema';
+import {
+  getSandboxClient,
+  InvocationCancelledError,
+  InvocationTimeoutError,
+  InvokeFunctionResult,
+  LogEntry,
+  SnapshotNotFoundError,
+} from '@/lib/sandbox/client';
+import type { LogLevel } from '@/lib/sandbox/protocol';
+import { mapWorkerError, MappedWorkerError } from '@/lib/sandbox/sourcemap';
+import { isTargetExpired, rehydrateTarget } from '@/lib/workers/rehydrate';
+import type { InvocationTarget } from '@/lib/workers/resolve';
+import { createRedactor, loadWorkerEnv } from '@/lib/workers/secrets';
+import { formatViolations, validateResult } from './validate';
+
+export interface InvocationLogEntry {
+  stream: 'stdout' | 'stderr';
+  level: LogLevel;
+  message: string;
+  timestamp: number;
+  // Only present for console calls, not raw process output
+  args?: unknown[];
+  fields?: Record<string, unknown>;
+}
+
+export interface InvocationOutcome {
+  invocationId: string;
+  version: number;
+  status: Exclude<InvocationStatus, 'running'>;
+  success: boolean;
+  result?: unknown;
+  error?: string;
+  // Set when the function threw, with its stack mapped to the user's source
+  errorDetails?: MappedWorkerError;
+  duration: number;
+  // Unknown when the run failed before a sandbox was assigned
+  coldStart?: boolean;
+  logs: InvocationLogEntry[];
+}
+
+// Logs are written to the database in batches while the function runs
+const LOG_FLUSH_INTERVAL_MS = 1000;
+const LOG_FLUSH_BATCH_SIZE = 50;
+
+// A running invocation this far past its timeout has lost the process recording it
+const LOST_INVOCATION_GRACE_MS = 2 * 60_000;
+
+// Invocations running in this process, so a cancel can abort them directly
+const runningInvocations = new Map<string, AbortController>();
+
+function toLogEntry(log: LogEntry): InvocationLogEntry {
+  return {
+    stream: log.stream,
+    level: log.level ?? (log.stream === 'stderr' ? 'error' : 'info'),
+    message: log.data,
+    timestamp: log.timestamp,
+    args: log.args,
+    fields: log.fields,
+  };
+}
+
+/**
+ * Record a new invocation before running it, so callers can hand out its ID
+ * (e.g. async invocations that return immediately).
+ */
+export async function beginInvocation(options: {
+  workerId: string;
+  target: InvocationTarget;
+  functionName: string;
+  payload: unknown;
+  timeoutMs: number;
+  // Set for webhook deliveries
+  webhookId?: string;
+  signatureStatus?: SignatureStatus;
+}): Promise<Invocation> {
+  const { workerId, target, functionName, payload, timeoutMs, webhookId, signatureStatus } = options;
+
+  const invocation = await db.createInvocation({
+    workerId,
+    version: target.version,
+    functionName,
+    payload,
+    timeoutMs,
+    webhookId,
+    signatureStatus,
+  });
+
+  // Update last invoked timestamp
+  db.updateLastInvoked(workerId).catch(console.error);
+
+  return invocation;
+}
+
+/**
+ * Run a worker function in the sandbox and record it in the invocation history.
+ * Logs are forwarded to onLog as they arrive and persisted alongside the result.
+ * Function errors, timeouts and cancellations are reported in the outcome rather than thrown.
+ */
+export async function runInvocation(options: {
+  workerId: string;
+  target: InvocationTarget;
+  functionName: string;
+  payload: unknown;
+  timeoutMs: number;
+  onLog?: (log: InvocationLogEntry) => void;
+  // Aborting cancels the run, e.g. when an SSE client disconnects
+  signal?: AbortSignal;
+  // The worker's rebuildOnExpiry setting
+  rebuildOnExpiry?: boolean;
+  // Called before a snapshot found missing is rebuilt, e.g. to tell an SSE client
+  onRebuilding?: (version: number) => void;
+}): Promise<InvocationOutcome> {
+  const invocation = await beginInvocation(options);
+  return executeInvocation(invocation, options.target, options);
+}
+
+/**
+ * Run an invocation created by beginInvocation and store its logs and result.
+ * The worker's variables are passed to its process; their values are redacted
+ * from logs and errors before those are streamed or stored. With rebuildOnExpiry,
+ * a snapshot found missing when the sandbox boots is rebuilt and the run retried once.
+ */
+export async function executeInvocation(
+  invocation: Invocation,
+  target: InvocationTarget,
+  options: {
+    onLog?: (log: InvocationLogEntry) => void;
+    signal?: AbortSignal;
+    rebuildOnExpiry?: boolean;
+    onRebuilding?: (version: number) => void;
+  } = {}
+): Promise<InvocationOutcome> {
+  const { function_name: functionName, payload } = invocation;
+  const { onLog, signal } = options;
+  let live = target;
+
+  const abort = new AbortController();
+  const onCancel = () => abort.abort();
+  if (signal?.aborted) abort.abort();
+  signal?.addEventListener('abort', onCancel, { once: true });
+  runningInvocations.set(invocation.id, abort);
+
+  const logs: InvocationLogEntry[] = [];
+  let pending: InvocationLogEntry[] = [];
+  let flushing: Promise<void> = Promise.resolve();
+
+  // Chain flushes so batches are inserted in order
+  function flush() {
+    const batch = pending;
+    pending = [];
+    flushing = flushing
+      .then(() => db.appendInvocationLogs(invocation.id, batch))
+      .catch((error) => console.error('Failed to store invocation logs:', error));
+    return flushing;
+  }
+
+  const flushTimer = setInterval(() => {
+    if (pending.length > 0) flush();
+  }, LOG_FLUSH_INTERVAL_MS);
+
+  const startTime = Date.now();
+  let coldStart: boolean | undefined;
+  let outcome: InvocationOutcome;
+
+  try {
+    const env = await loadWorkerEnv(invocation.worker_id);
+    const redact = createRedactor(env);
+
+    const sandboxClient = getSandboxClient();
+    const invoke = (snapshotId: string) => sandboxClient.invokeFunction(
+      snapshotId,
+      functionName,
+      payload,
+      (log: LogEntry) => {
+        const raw = toLogEntry(log);
+        const entry = { ...raw, message: redact(raw.message), args: redact(raw.args), fields: redact(raw.fields) };
+        logs.push(entry);
+        pending.push(entry);
+        if (pending.length >= LOG_FLUSH_BATCH_SIZE) flush();
+        onLog?.(entry);
+      },
+      {
+        timeoutMs: invocation.timeout_ms,
+        signal: abort.signal,
+        env,
+        onSandboxAssigned: (sandboxId, cold) => {
+          coldStart = cold;
+          // A cancel from another request may have landed before the sandbox existed
+          db.setInvocationSandbox(invocation.id, sandboxId)
+            .then((updated) => {
+              if (updated?.status === 'cancelled') abort.abort();
+            })
+            .catch((error) => console.error('Failed to store invocation sandbox:', error));
+        },
+      }
+    );
+
+    let result: InvokeFunctionResult;
+    try {
+      result = await invoke(live.snapshot_id);
+    } catch (error) {
+      if (!(error instanceof SnapshotNotFoundError) || !options.rebuildOnExpiry) throw error;
+      options.onRebuilding?.(target.version);
+      live = await rehydrateTarget(invocation.worker_id, target);
+      result = await invoke(live.snapshot_id);
+    }
+
+    const violations = result.error ? [] : validateResult(live, functionName, result.result);
+
+    if (result.error) {
+      outcome = {
+        invocationId: invocation.id,
+        version: target.version,
+        status: 'error',
+        success: false,
+        error: redact(result.error.message),
+        errorDetails: redact(mapWorkerError(result.error, live.source_map)),
+        duration: result.duration,
+        coldStart: result.coldStart,
+        logs,
+      };
+    } else if (violations.length > 0) {
+      outcome = {
+        invocationId: invocation.id,
+        version: target.version,
+        status: 'error',
+        success: false,
+        error: `Result does not match the function's output schema: ${formatViolations(violations)}`,
+        duration: result.duration,
+        coldStart: result.coldStart,
+        logs,
+      };
+    } else {
+      outcome = {
+        invocationId: invocation.id,
+        version: target.version,
+        status: 'success',
+        success: true,
+        result: result.result,
+        duration: result.duration,
+        coldStart: result.coldStart,
+        logs,
+      };
+    }
+  } catch (error) {
+    outcome = {
+      invocationId: invocation.id,
+      version: target.version,
+      status: error instanceof InvocationTimeoutError
+        ? 'timeout'
+        : error instanceof InvocationCancelledError ? 'cancelled' : 'error',
+      success: false,
+      error: error instanceof Error ? error.message : 'Function execution failed',
+      duration: Date.now() - startTime,
+      coldStart,
+      logs,
+    };
+  } finally {
+    clearInterval(flushTimer);
+    signal?.removeEventListener('abort', onCancel);
+    runningInvocations.delete(invocation.id);
+  }
+
+  await flush();
+  await db.completeInvocation(invocation.id, {
+    status: outcome.status,
+    result: outcome.result,
+    error: outcome.error,
+    errorDetails: outcome.errorDetails,
+    durationMs: outcome.duration,
+    coldStart: outcome.coldStart,
+  }).catch((error) => console.error('Failed to store invocation result:', error));
+
+  return outcome;
+}
+
+/**
+ * Check that a background call (schedule, webhook delivery, queued job) can run
+ * a function of the worker's current version. An expired snapshot is fine for
+ * workers with rebuildOnExpiry: launchInvocation rebuilds it first.
+ */
+export function checkBackgroundTarget(
+  worker: Worker | null,
+  functionName: string
+): { worker: Worker; expired: boolean } | { error: string; status: number } {
+  if (!worker) {
+    return { error: 'Worker not found', status: 404 };
+  }
+
+  const expired = isTargetExpired(worker, worker);
+  if (expired && !worker.rebuild_on_expiry) {
+    return { error: 'Worker snapshot has expired. Rebuild or redeploy it.', status: 410 };
+  }
+  if (!expired && worker.status !== 'ready') {
+    return { error: `Worker is not ready. Current status: ${worker.status}`, status: 503 };
+  }
+  if (!worker.functions.includes(functionName)) {
+    return { error: `Function '${functionName}' not found in the current version`, status: 404 };
+  }
+  return { worker, expired };
+}
+
+/**
+ * Run an invocation created by beginInvocation after the response is sent,
+ * rebuilding the target's expired snapshot first (as checkBackgroundTarget or
+ * isTargetExpired reported). onOutcome gets the result, including a failed rebuild.
+ */
+export function launchInvocation(
+  invocation: Invocation,
+  target: InvocationTarget,
+  options: {
+    expired: boolean;
+    // The worker's rebuildOnExpiry setting
+    rebuildOnExpiry: boolean;
+    onOutcome?: (outcome: InvocationOutcome) => Promise<void>;
+  }
+): void {
+  after(async () => {
+    const startTime = Date.now();
+    let outcome: InvocationOutcome;
+
+    try {
+      const live = options.expired ? await rehydrateTarget(invocation.worker_id, target) : target;
+      outcome = await executeInvocation(invocation, live, { rebuildOnExpiry: options.rebuildOnExpiry });
+    } catch (error) {
+      console.error(`Error running invocation ${invocation.id}:`, error);
+      outcome = {
+        invocationId: invocation.id,
+        version: invocation.version,
+        status: 'error',
+        success: false,
+        error: error instanceof Error ? error.message : 'Function execution failed',
+        duration: Date.now() - startTime,
+        logs: [],
+      };
+      await db.completeInvocation(invocation.id, {
+        status: 'error',
+        error: outcome.error,
+        durationMs: outcome.duration,
+      }).catch((completeError) => console.error('Failed to store invocation result:', completeError));
+    }
+
+    await options.onOutcome?.(outcome);
+  });
+}
+
+/**
+ * Close out invocations whose process ended without recording an outcome, such
+ * as async invocations cut off by the serverless function's maxDuration, so they
+ * don't stay `running` forever. Returns the IDs that were timed out.
+ */
+export async function sweepLostInvocations(): Promise<string[]> {
+  const lost = await db.timeOutStaleInvocations(LOST_INVOCATION_GRACE_MS);
+  return lost.map((invocation) => invocation.id);
+}
+
+/**
+ * Cancel a running invocation and stop its sandbox.
+ * Works from any request: the run is aborted directly when it lives in this
+ * process, otherwise its sandbox is stopped by ID. Returns null if it wasn't running.
+ */
+export async function cancelInvocation(projectId: string, id: string): Promise<Invocation | null> {
+  const invocation = await db.cancelInvocation(projectId, id);
+  if (!invocation) return null;
+
+  const running = runningInvocations.get(id);
+  if (running) {
+    running.abort();
+  } else if (invocation.sandbox_id) {
+    await getSandboxClient().stopSandbox(invocation.sandbox_id)
+      .catch((error) => console.error('Failed to stop sandbox:', error));
+  }
+
+  return invocation;
+}
@@ -0,0 +1,32 @@
+import type { NextRequest } from 'next/server';
+import type { Worker } from '@/lib/db/schema';
+
+export const DEFAULT_TIMEOUT_MS = 60_000;
+export const MAX_TIMEOUT_MS = 15 * 60_000;
+
+export function isValidTimeout(value: unknown): value is number {
+  return Number.isInteger(value) && (value as number) > 0 && (value as number) <= MAX_TIMEOUT_MS;
+}
+
+/**
+ * Pick the timeout for one call.
+ * An `X-Invocation-Timeout` header or `?timeout=` (milliseconds) overrides the
+ * worker's own setting, which in turn falls back to DEFAULT_TIMEOUT_MS.
+ */
+export function resolveInvocationTimeout(
+  worker: Pick<Worker, 'timeout_ms'>,
+  request: NextRequest
+): number | { error: string } {
+  const raw = request.headers.get('x-invocation-timeout') ?? request.nextUrl.searchParams.get('timeout');
+
+  if (raw === null) {
+    return worker.timeout_ms ?? DEFAULT_TIMEOUT_MS;
+  }
+
+  const timeoutMs = Number(raw);
+  if (!/^\d+$/.test(raw) || !isValidTimeout(timeoutMs)) {
+    return { error: `Invalid timeout '${raw}'. Expected milliseconds between 1 and ${MAX_TIMEOUT_MS}` };
+  }
+
+  return timeoutMs;
+}
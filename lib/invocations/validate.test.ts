@@ -0,0 +1,97 @@
+import { describe, expect, test } from 'bun:test';
+import type { JsonSchema } from '@/lib/sandbox/schema';
+import type { InvocationTarget } from '@/lib/workers/resolve';
+import { formatViolations, validatePayload, validateResult, validateSchema } from './validate';
+
+describe('validateSchema', () => {
+  const order: JsonSchema = {
+    type: 'object',
+    properties: {
+      id: { type: 'string', pattern: '^ord_[a-z0-9]+$' },
+      items: {
+        type: 'array',
+        minItems: 1,
+        items: {
+          type: 'object',
+          properties: { sku: { type: 'string' }, qty: { type: 'integer', minimum: 1 } },
+          required: ['sku', 'qty'],
+          additionalProperties: false,
+        },
+      },
+      status: { enum: ['open', 'paid'] },
+    },
+    required: ['id', 'items'],
+  };
+
+  test('accepts a matching value', () => {
+    expect(validateSchema(order, { id: 'ord_1', items: [{ sku: 'a', qty: 2 }], status: 'paid', note: 'extra' })).toEqual([]);
+  });
+
+  test('collects every violation with its JSON Pointer', () => {
+    expect(validateSchema(order, { id: 'order-1', items: [{ sku: 'a', qty: 0, size: 'L' }, { qty: 1.5 }], status: 'lost' })).toEqual([
+      { path: '/id', message: 'must match pattern "^ord_[a-z0-9]+$"' },
+      { path: '/items/0/qty', message: 'must be >= 1' },
+      { path: '/items/0', message: "must NOT have additional property 'size'" },
+      { path: '/items/1', message: "must have required property 'sku'" },
+      { path: '/items/1/qty', message: 'must be integer' },
+      { path: '/status', message: 'must be one of "open", "paid"' },
+    ]);
+  });
+
+  test('reports a type mismatch without repeating it for other keywords', () => {
+    expect(validateSchema(order, [])).toEqual([{ path: '', message: 'must be object' }]);
+    expect(validateSchema({ type: ['string', 'null'], minLength: 2 }, 5)).toEqual([{ path: '', message: 'must be string or null' }]);
+  });
+
+  test('does not count NaN or Infinity as numbers', () => {
+    expect(validateSchema({ type: 'number' }, Infinity)).toEqual([{ path: '', message: 'must be number' }]);
+  });
+
+  test('combines subschemas', () => {
+    const schema: JsonSchema = { oneOf: [{ type: 'string' }, { type: 'integer' }, { type: 'number' }] };
+    expect(validateSchema(schema, 'a')).toEqual([]);
+    expect(validateSchema(schema, 1)).toEqual([{ path: '', message: 'must match exactly one schema in oneOf' }]);
+    expect(validateSchema({ anyOf: [{ type: 'string' }, { type: 'null' }] }, 1)).toEqual([
+      { path: '', message: 'must match a schema in anyOf' },
+    ]);
+    expect(validateSchema({ allOf: [{ minimum: 2 }, { maximum: 1 }] }, 3)).toEqual([{ path: '', message: 'must be <= 1' }]);
+  });
+
+  test('skips invalid or unsafe patterns stored before deploys checked them', () => {
+    expect(validateSchema({ pattern: '(' }, 'a')).toEqual([]);
+    expect(validateSchema({ pattern: '^(a+)+$' }, 'a'.repeat(40) + '!')).toEqual([]);
+  });
+
+  test('escapes property names in paths', () => {
+    const schema: JsonSchema = { additionalProperties: { type: 'string' } };
+    expect(validateSchema(schema, { 'a/b~c': 1 })).toEqual([{ path: '/a~1b~0c', message: 'must be string' }]);
+  });
+});
+
+describe('validatePayload and validateResult', () => {
+  const target = {
+    function_metadata: [
+      { name: 'charge', inputSchema: { type: 'object', required: ['amount'] }, outputSchema: { type: 'boolean' } },
+      { name: 'ping' },
+    ],
+  } as unknown as InvocationTarget;
+
+  test('use the schemas declared for the function', () => {
+    expect(validatePayload(target, 'charge', {})).toEqual([{ path: '', message: "must have required property 'amount'" }]);
+    expect(validateResult(target, 'charge', 'yes')).toEqual([{ path: '', message: 'must be boolean' }]);
+  });
+
+  test('accept anything when no schema is declared', () => {
+    expect(validatePayload(target, 'ping', 'anything')).toEqual([]);
+    expect(validateResult(target, 'missing', 1)).toEqual([]);
+  });
+});
+
+describe('formatViolations', () => {
+  test('joins violations on one line', () => {
+    expect(formatViolations([
+      { path: '', message: 'must be object' },
+      { path: '/items/0/qty', message: 'must be number' },
+    ])).toBe('/: must be object; /items/0/qty: must be number');
+  });
+});
@@ -0,0 +1,182 @@
+import { JsonSchema, JsonSchemaType, patternProblem } from '@/lib/sandbox/schema';
+import type { InvocationTarget } from '@/lib/workers/resolve';
+
+export interface SchemaViolation {
+  // JSON Pointer to the offending value ('' is the payload itself)
+  path: string;
+  message: string;
+}
+
+/**
+ * Check a payload against the function's input schema.
+ * Returns the violations, empty when the payload is valid or there is no schema.
+ */
+export function validatePayload(
+  target: InvocationTarget,
+  functionName: string,
+  payload: unknown
+): SchemaViolation[] {
+  const schema = target.function_metadata.find((m) => m.name === functionName)?.inputSchema;
+  return schema ? validateSchema(schema, payload) : [];
+}
+
+/**
+ * Check a function's result against its output schema
+ */
+export function validateResult(
+  target: InvocationTarget,
+  functionName: string,
+  result: unknown
+): SchemaViolation[] {
+  const schema = target.function_metadata.find((m) => m.name === functionName)?.outputSchema;
+  return schema ? validateSchema(schema, result) : [];
+}
+
+/**
+ * One line per violation, e.g. "/items/0/qty: must be number"
+ */
+export function formatViolations(violations: SchemaViolation[]): string {
+  return violations.map((v) => `${v.path || '/'}: ${v.message}`).join('; ');
+}
+
+/**
+ * Validate a value against the JsonSchema subset, collecting every violation
+ */
+export function validateSchema(schema: JsonSchema, value: unknown, path = ''): SchemaViolation[] {
+  const violations: SchemaViolation[] = [];
+  const fail = (message: string) => violations.push({ path, message });
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (!types.some((type) => matchesType(type, value))) {
+      fail(`must be ${types.join(' or ')}`);
+      // Further keywords would only repeat the type mismatch
+      return violations;
+    }
+  }
+
+  if (schema.const !== undefined && !deepEqual(value, schema.const)) {
+    fail(`must be equal to ${JSON.stringify(schema.const)}`);
+  }
+
+  if (schema.enum && !schema.enum.some((option) => deepEqual(value, option))) {
+    fail(`must be one of ${schema.enum.map((option) => JSON.stringify(option)).join(', ')}`);
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      fail(`must NOT have fewer than ${schema.minLength} characters`);
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      fail(`must NOT have more than ${schema.maxLength} characters`);
+    }
+    if (schema.pattern !== undefined && compilePattern(schema.pattern)?.test(value) === false) {
+      fail(`must match pattern "${schema.pattern}"`);
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) fail(`must be >= ${schema.minimum}`);
+    if (schema.maximum !== undefined && value > schema.maximum) fail(`must be <= ${schema.maximum}`);
+    if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+      fail(`must be > ${schema.exclusiveMinimum}`);
+    }
+    if (schema.exclusiveMaximum !== undefined && value >= schema.exclusiveMaximum) {
+      fail(`must be < ${schema.exclusiveMaximum}`);
+    }
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      fail(`must NOT have fewer than ${schema.minItems} items`);
+    }
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+      fail(`must NOT have more than ${schema.maxItems} items`);
+    }
+    if (schema.items) {
+      value.forEach((item, i) => violations.push(...validateSchema(schema.items!, item, `${path}/${i}`)));
+    }
+  }
+
+  if (isObject(value)) {
+    for (const key of schema.required ?? []) {
+      if (!(key in value)) fail(`must have required property '${key}'`);
+    }
+
+    for (const [key, child] of Object.entries(value)) {
+      const childPath = `${path}/${escapePointer(key)}`;
+      const propertySchema = schema.properties?.[key];
+      if (propertySchema) {
+        violations.push(...validateSchema(propertySchema, child, childPath));
+      } else if (schema.additionalProperties === false) {
+        fail(`must NOT have additional property '${key}'`);
+      } else if (typeof schema.additionalProperties === 'object') {
+        violations.push(...validateSchema(schema.additionalProperties, child, childPath));
+      }
+    }
+  }
+
+  for (const sub of schema.allOf ?? []) {
+    violations.push(...validateSchema(sub, value, path));
+  }
+
+  if (schema.anyOf && !schema.anyOf.some((sub) => validateSchema(sub, value, path).length === 0)) {
+    fail('must match a schema in anyOf');
+  }
+
+  if (schema.oneOf) {
+    const matches = schema.oneOf.filter((sub) => validateSchema(sub, value, path).length === 0).length;
+    if (matches !== 1) fail('must match exactly one schema in oneOf');
+  }
+
+  return violations;
+}
+
+// Compiled `pattern` keywords, kept across invocations
+const patterns = new Map<string, RegExp | null>();
+const MAX_CACHED_PATTERNS = 1000;
+
+/**
+ * Patterns are checked at deploy, but versions deployed before that check may
+ * hold invalid or unsafe ones; those are skipped (null) rather than run.
+ */
+function compilePattern(pattern: string): RegExp | null {
+  let regex = patterns.get(pattern);
+  if (regex === undefined) {
+    if (patterns.size >= MAX_CACHED_PATTERNS) patterns.clear();
+    regex = patternProblem(pattern) === null ? new RegExp(pattern, 'u') : null;
+    patterns.set(pattern, regex);
+  }
+  return regex;
+}
+
+function matchesType(type: JsonSchemaType, value: unknown): boolean {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'integer':
+      return Number.isInteger(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'null':
+      return value === null;
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return isObject(value);
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function deepEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function escapePointer(key: string): string {
+  return key.replace(/~/g, '~0').replace(/\//g, '~1');
+}
@@ -0,0 +1,67 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  DEFAULT_BACKOFF_MS,
+  DEFAULT_MAX_ATTEMPTS,
+  MAX_BACKOFF_MS,
+  parseEnqueueOptions,
+  parseRedriveInput,
+  retryDelay,
+} from './consumer';
+
+describe('retryDelay', () => {
+  test('waits the base backoff after the first attempt, doubling after each later one', () => {
+    expect([1, 2, 3, 4].map((attempts) => retryDelay({ backoff_ms: 1000, attempts }))).toEqual([1000, 2000, 4000, 8000]);
+  });
+
+  test('treats an unstarted job like one failed attempt', () => {
+    expect(retryDelay({ backoff_ms: 500, attempts: 0 })).toBe(500);
+  });
+
+  test('caps the delay at MAX_BACKOFF_MS', () => {
+    expect(retryDelay({ backoff_ms: 1000, attempts: 25 })).toBe(MAX_BACKOFF_MS);
+    expect(retryDelay({ backoff_ms: MAX_BACKOFF_MS, attempts: 2 })).toBe(MAX_BACKOFF_MS);
+  });
+
+  test('retries immediately with no backoff', () => {
+    expect(retryDelay({ backoff_ms: 0, attempts: 5 })).toBe(0);
+  });
+});
+
+describe('parseEnqueueOptions', () => {
+  const parse = (query: string) => parseEnqueueOptions(new URLSearchParams(query));
+
+  test('uses the defaults when nothing is set', () => {
+    expect(parse('')).toEqual({ maxAttempts: DEFAULT_MAX_ATTEMPTS, backoffMs: DEFAULT_BACKOFF_MS });
+  });
+
+  test('reads maxAttempts and backoff', () => {
+    expect(parse('maxAttempts=5&backoff=250')).toEqual({ maxAttempts: 5, backoffMs: 250 });
+    expect(parse('maxAttempts=1&backoff=0')).toEqual({ maxAttempts: 1, backoffMs: 0 });
+  });
+
+  test.each(['0', '26', '2.5', 'many', ''])('rejects maxAttempts=%p', (value) => {
+    expect(parse(`maxAttempts=${value}`)).toEqual({ error: expect.stringContaining('Invalid maxAttempts') });
+  });
+
+  test.each(['-1', '1.5', 'soon', String(MAX_BACKOFF_MS + 1)])('rejects backoff=%p', (value) => {
+    expect(parse(`backoff=${value}`)).toEqual({ error: expect.stringContaining('Invalid backoff') });
+  });
+});
+
+describe('parseRedriveInput', () => {
+  const jobId = '0b8f2a9e-5c1d-4e7a-9f3b-2d6c8e1a4b7f';
+
+  test('redrives everything without jobIds', () => {
+    expect(parseRedriveInput(null)).toEqual({ jobIds: null });
+    expect(parseRedriveInput({})).toEqual({ jobIds: null });
+  });
+
+  test('accepts a list of job IDs', () => {
+    expect(parseRedriveInput({ jobIds: [jobId] })).toEqual({ jobIds: [jobId] });
+  });
+
+  test('rejects anything else', () => {
+    expect(parseRedriveInput({ jobIds: jobId })).toHaveProperty('error');
+    expect(parseRedriveInput({ jobIds: [jobId, 'not-a-job'] })).toHaveProperty('error');
+  });
+});
@@ -0,0 +1,154 @@
+import { db } from '@/lib/db/client';
+import type { Job } from '@/lib/db/schema';
+import { beginInvocation, checkBackgroundTarget, InvocationOutcome, launchInvocation } from '@/lib/invocations/run';
+import { DEFAULT_TIMEOUT_MS, MAX_TIMEOUT_MS } from '@/lib/invocations/timeout';
+
+export const DEFAULT_MAX_ATTEMPTS = 3;
+export const MAX_ATTEMPTS_LIMIT = 25;
+export const DEFAULT_BACKOFF_MS = 1000;
+// Caps both the configured base delay and each computed retry delay
+export const MAX_BACKOFF_MS = 60 * 60_000;
+
+// A consumer run claims at most this many jobs; the rest stay due for the next one
+const MAX_JOBS_PER_RUN = 25;
+// A claimed job is hidden from other consumers for the longest possible run,
+// after which it is treated as abandoned and retried, or dead-lettered if it
+// was the last attempt
+const JOB_LEASE_MS = MAX_TIMEOUT_MS + 60_000;
+
+const UUID_REGEX = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export interface EnqueueOptions {
+  maxAttempts: number;
+  backoffMs: number;
+}
+
+export interface StartedJob {
+  jobId: string;
+  workerId: string;
+  function: string;
+  attempt: number;
+  // Set when the attempt's invocation started; error is set when it couldn't
+  invocationId?: string;
+  error?: string;
+}
+
+/**
+ * Read retry settings from `?maxAttempts=` and `?backoff=` (milliseconds before
+ * the first retry; each later retry waits twice as long as the one before)
+ */
+export function parseEnqueueOptions(searchParams: URLSearchParams): EnqueueOptions | { error: string } {
+  const rawAttempts = searchParams.get('maxAttempts');
+  const maxAttempts = rawAttempts === null ? DEFAULT_MAX_ATTEMPTS : Number(rawAttempts);
+  if (!Number.isInteger(maxAttempts) || maxAttempts < 1 || maxAttempts > MAX_ATTEMPTS_LIMIT) {
+    return { error: `Invalid maxAttempts '${rawAttempts}'. Expected a number between 1 and ${MAX_ATTEMPTS_LIMIT}` };
+  }
+
+  const rawBackoff = searchParams.get('backoff');
+  const backoffMs = rawBackoff === null ? DEFAULT_BACKOFF_MS : Number(rawBackoff);
+  if (!Number.isInteger(backoffMs) || backoffMs < 0 || backoffMs > MAX_BACKOFF_MS) {
+    return { error: `Invalid backoff '${rawBackoff}'. Expected milliseconds between 0 and ${MAX_BACKOFF_MS}` };
+  }
+
+  return { maxAttempts, backoffMs };
+}
+
+/**
+ * Read a redrive request body: `{ jobIds: [...] }` picks dead letters, and an
+ * empty body redrives all of the worker's dead letters
+ */
+export function parseRedriveInput(body: unknown): { jobIds: string[] | null } | { error: string } {
+  const jobIds = (body as { jobIds?: unknown } | null)?.jobIds;
+  if (jobIds === undefined) return { jobIds: null };
+
+  if (!Array.isArray(jobIds) || jobIds.some((jobId) => typeof jobId !== 'string' || !UUID_REGEX.test(jobId))) {
+    return { error: 'jobIds must be an array of job IDs' };
+  }
+  return { jobIds };
+}
+
+/**
+ * How long to wait before the next attempt, after `attempts` failed ones
+ */
+export function retryDelay(job: Pick<Job, 'backoff_ms' | 'attempts'>): number {
+  return Math.min(job.backoff_ms * 2 ** Math.max(job.attempts - 1, 0), MAX_BACKOFF_MS);
+}
+
+/**
+ * Start an attempt for every due job. The invocations keep running after the
+ * response; each outcome marks its job succeeded, schedules a retry with
+ * exponential backoff, or moves it to the dead letters once it is out of attempts.
+ * Retries become due on the consumer run after their backoff has passed.
+ */
+export async function consumeJobs(): Promise<StartedJob[]> {
+  const claimed = await db.claimJobs(MAX_JOBS_PER_RUN, JOB_LEASE_MS);
+  const started: StartedJob[] = [];
+
+  for (const job of claimed) {
+    const entry: StartedJob = {
+      jobId: job.id,
+      workerId: job.worker_id,
+      function: job.function_name,
+      attempt: job.attempts,
+    };
+    started.push(entry);
+
+    try {
+      const check = checkBackgroundTarget(await db.getWorker(job.project_id, job.worker_id), job.function_name);
+      if ('error' in check) {
+        entry.error = check.error;
+        await failAttempt(job, entry.error, null, false);
+        continue;
+      }
+
+      const { worker, expired } = check;
+      const invocation = await beginInvocation({
+        workerId: worker.id,
+        target: worker,
+        functionName: job.function_name,
+        payload: job.payload,
+        timeoutMs: worker.timeout_ms ?? DEFAULT_TIMEOUT_MS,
+      });
+      entry.invocationId = invocation.id;
+
+      launchInvocation(invocation, worker, {
+        expired,
+        rebuildOnExpiry: worker.rebuild_on_expiry,
+        onOutcome: (outcome) => recordAttempt(job, outcome),
+      });
+    } catch (error) {
+      console.error(`Error starting job ${job.id}:`, error);
+      entry.error = error instanceof Error ? error.message : 'Failed to start invocation';
+      await failAttempt(job, entry.error, entry.invocationId ?? null, false)
+        .catch((recordError) => console.error('Failed to store job attempt:', recordError));
+    }
+  }
+
+  return started;
+}
+
+async function recordAttempt(job: Job, outcome: InvocationOutcome): Promise<void> {
+  try {
+    if (outcome.success) {
+      await db.finishJobAttempt(job.id, job.attempts, { status: 'succeeded', error: null, invocationId: outcome.invocationId });
+    } else {
+      // A cancelled run was stopped on purpose, so it isn't retried
+      const error = outcome.error ?? `Invocation ${outcome.status}`;
+      await failAttempt(job, error, outcome.invocationId, outcome.status === 'cancelled');
+    }
+  } catch (error) {
+    console.error(`Failed to store attempt of job ${job.id}:`, error);
+  }
+}
+
+function failAttempt(job: Job, error: string, invocationId: string | null, final: boolean): Promise<void> {
+  if (final || job.attempts >= job.max_attempts) {
+    return db.finishJobAttempt(job.id, job.attempts, { status: 'dead', error, invocationId });
+  }
+  return db.finishJobAttempt(job.id, job.attempts, {
+    status: 'queued',
+    runAt: new Date(Date.now() + retryDelay(job)),
+    error,
+    invocationId,
+  });
+}
@@ -0,0 +1,102 @@
+import { describe, expect, test } from 'bun:test';
+import { bundleModules, normalizeFilePath, resolveRelativeImport, SourceFiles } from './bundle';
+import { TranspileError } from './transpile';
+
+function diagnosticsOf(files: SourceFiles, dependencies = {}): string[] {
+  try {
+    bundleModules(files, 'worker.ts', dependencies);
+    return [];
+  } catch (error) {
+    if (!(error instanceof TranspileError)) throw error;
+    return error.diagnostics.map((diagnostic) => `${diagnostic.file}:${diagnostic.line}:${diagnostic.column} ${diagnostic.message}`);
+  }
+}
+
+describe('normalizeFilePath', () => {
+  test('normalizes separators and dot segments', () => {
+    expect(normalizeFilePath('./src\\lib/../util.ts')).toBe('src/util.ts');
+    expect(normalizeFilePath('/worker.ts')).toBe('worker.ts');
+  });
+
+  test('rejects paths outside the worker root', () => {
+    expect(normalizeFilePath('../secrets.ts')).toBeNull();
+    expect(normalizeFilePath('./')).toBeNull();
+  });
+});
+
+describe('resolveRelativeImport', () => {
+  const files = { 'worker.ts': '', 'lib/util.ts': '', 'lib/data.json': '', 'lib/nested/index.ts': '' };
+
+  test('tries the exact path, source extensions and directory indexes', () => {
+    expect(resolveRelativeImport(files, './lib/util', 'worker.ts')).toBe('lib/util.ts');
+    expect(resolveRelativeImport(files, './data.json', 'lib/util.ts')).toBe('lib/data.json');
+    expect(resolveRelativeImport(files, './nested', 'lib/util.ts')).toBe('lib/nested/index.ts');
+    expect(resolveRelativeImport(files, '../worker.js', 'lib/util.ts')).toBe('worker.ts');
+  });
+
+  test('returns null for missing files and escaping paths', () => {
+    expect(resolveRelativeImport(files, './missing', 'worker.ts')).toBeNull();
+    expect(resolveRelativeImport(files, '../../worker', 'lib/util.ts')).toBeNull();
+  });
+});
+
+describe('bundleModules', () => {
+  test('bundles every reachable module and resolves relative imports', () => {
+    const modules = bundleModules({
+      'worker.ts': "import { greet } from './lib/greet';\nexport const hello = () => greet();",
+      'lib/greet.ts': "import config from '../config.json';\nexport const greet = () => config.greeting;",
+      'config.json': '{ "greeting": "hi" }',
+      'unused.ts': 'export const unused = 1;',
+    }, 'worker.ts');
+
+    expect(modules.map((module) => [module.path, module.imports])).toEqual([
+      ['worker.ts', { './lib/greet': 'lib/greet.ts' }],
+      ['lib/greet.ts', { '../config.json': 'config.json' }],
+      ['config.json', {}],
+    ]);
+  });
+
+  test('accepts builtins and listed dependencies', () => {
+    expect(diagnosticsOf({
+      'worker.ts': "import { createHash } from 'node:crypto';\nimport fs from 'fs';\nimport fp from 'lodash/fp';\n" +
+        'export const f = () => [createHash, fs, fp];',
+    }, { lodash: '^4' })).toEqual([]);
+  });
+
+  test('reports unlisted packages where they are imported', () => {
+    expect(diagnosticsOf({
+      'worker.ts': "import { a } from 'left-pad';\nconst b = require('@scope/pkg/sub');\nexport const f = () => [a, b];",
+    })).toEqual([
+      "worker.ts:1:19 Cannot find package 'left-pad'. Add it to the worker's dependencies.",
+      "worker.ts:2:19 Cannot find package '@scope/pkg'. Add it to the worker's dependencies.",
+    ]);
+  });
+
+  test('reports missing modules, invalid JSON and compile errors in every file', () => {
+    expect(diagnosticsOf({
+      'worker.ts': "import data from './data.json';\nimport './broken';\nconst b = require('./missing');\nexport const f = () => [data, b];",
+      'data.json': '{ nope }',
+      'broken.ts': 'export const x = ;',
+    })).toEqual([
+      "worker.ts:3:19 Cannot find module './missing'",
+      expect.stringMatching(/^data\.json:1:1 /),
+      'broken.ts:1:18 Expression expected.',
+    ]);
+  });
+
+  test('skips imports that are only used for types', () => {
+    expect(diagnosticsOf({
+      'worker.ts': "import type { Context } from 'some-types';\n" +
+        "import { type Handler } from 'other-types';\n" +
+        "import { Request } from 'elided-types';\n" +
+        "export type { Options } from 'reexported-types';\n" +
+        'export const handle: Handler = (context: Context, request: Request) => [context, request];',
+    })).toEqual([]);
+  });
+
+  test('still checks side-effect imports', () => {
+    expect(diagnosticsOf({ 'worker.ts': "import 'polyfill';\nexport const f = () => 1;" })).toEqual([
+      "worker.ts:1:8 Cannot find package 'polyfill'. Add it to the worker's dependencies.",
+    ]);
+  });
+});
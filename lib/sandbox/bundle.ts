@@ -0,0 +1,223 @@
+import { builtinModules } from 'module';
+import ts from 'typescript';
+import { CompileDiagnostic, TranspileError, TranspileOutput, transpileWorkerCode } from './transpile';
+
+/**
+ * Worker source tree: relative file path -> file contents
+ */
+export type SourceFiles = Record<string, string>;
+
+/**
+ * npm dependency manifest: package name -> version range
+ */
+export type Dependencies = Record<string, string>;
+
+export interface BundledModule {
+  path: string;
+  code: string;
+  // Import specifier -> resolved file path, for relative imports only
+  imports: Record<string, string>;
+  // Source map mappings back to the original file ('' for JSON modules)
+  mappings: string;
+}
+
+const SOURCE_EXTENSIONS = ['.ts', '.js', '.json'];
+
+/**
+ * Normalize a worker file path: forward slashes, no leading "./" or "/",
+ * no "." or ".." segments. Returns null if the path escapes the worker root.
+ */
+export function normalizeFilePath(path: string): string | null {
+  const segments: string[] = [];
+  for (const segment of path.replace(/\\/g, '/').split('/')) {
+    if (segment === '' || segment === '.') continue;
+    if (segment === '..') {
+      if (segments.length === 0) return null;
+      segments.pop();
+      continue;
+    }
+    segments.push(segment);
+  }
+  return segments.length > 0 ? segments.join('/') : null;
+}
+
+/**
+ * Validate a file map from a request body and normalize its paths.
+ * Returns null if it isn't a non-empty object of string contents with valid paths.
+ */
+export function normalizeSourceFiles(raw: unknown): SourceFiles | null {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) return null;
+
+  const files: SourceFiles = {};
+  for (const [path, content] of Object.entries(raw)) {
+    const normalized = normalizeFilePath(path);
+    if (!normalized || typeof content !== 'string') return null;
+    files[normalized] = content;
+  }
+
+  return Object.keys(files).length > 0 ? files : null;
+}
+
+// npm's package name rules: optional scope, lowercase, URL-safe
+const PACKAGE_NAME_REGEX = /^(?:@[a-z0-9-*~][a-z0-9-*._~]*\/)?[a-z0-9-~][a-z0-9-._~]*$/;
+
+/**
+ * Validate a dependency manifest from a request body.
+ * Returns null if any name isn't a valid npm package name or any version isn't a string.
+ */
+export function normalizeDependencies(raw: unknown): Dependencies | null {
+  if (raw === undefined || raw === null) return {};
+  if (typeof raw !== 'object' || Array.isArray(raw)) return null;
+
+  const dependencies: Dependencies = {};
+  for (const [name, version] of Object.entries(raw)) {
+    if (name.length > 214 || !PACKAGE_NAME_REGEX.test(name)) return null;
+    if (typeof version !== 'string' || !version.trim()) return null;
+    dependencies[name] = version.trim();
+  }
+  return dependencies;
+}
+
+/**
+ * Package name of a bare import specifier: "lodash/fp" -> "lodash", "@scope/pkg/x" -> "@scope/pkg"
+ */
+export function packageNameOf(specifier: string): string {
+  const segments = specifier.split('/');
+  return specifier.startsWith('@') ? segments.slice(0, 2).join('/') : segments[0];
+}
+
+function isBuiltinModule(specifier: string): boolean {
+  return specifier.startsWith('node:') || builtinModules.includes(packageNameOf(specifier));
+}
+
+export function isRelativeSpecifier(specifier: string): boolean {
+  return specifier.startsWith('./') || specifier.startsWith('../');
+}
+
+/**
+ * Resolve a relative import the way TypeScript editors do: exact path, then
+ * with a source extension, then as a directory index. A ".js" specifier also
+ * matches the ".ts" file it compiles from.
+ */
+export function resolveRelativeImport(
+  files: SourceFiles,
+  specifier: string,
+  fromFile: string
+): string | null {
+  const fromDir = fromFile.includes('/') ? fromFile.slice(0, fromFile.lastIndexOf('/')) : '';
+  const base = normalizeFilePath(`${fromDir}/${specifier}`);
+  if (!base) return null;
+
+  const candidates = [
+    base,
+    ...SOURCE_EXTENSIONS.map((ext) => base + ext),
+    ...SOURCE_EXTENSIONS.map((ext) => `${base}/index${ext}`),
+  ];
+  if (base.endsWith('.js')) {
+    candidates.push(base.slice(0, -3) + '.ts');
+  }
+
+  return candidates.find((candidate) => candidate in files) ?? null;
+}
+
+function positionOf(code: string, pos: number): { line: number; column: number } {
+  const before = code.slice(0, pos).split('\n');
+  return { line: before.length, column: before[before.length - 1].length + 1 };
+}
+
+/**
+ * Transpile every module reachable from the entry file and resolve the
+ * relative imports between them. Bare specifiers are left to Node's require,
+ * and must be either Node builtins or packages listed in the dependencies,
+ * unless they are only imported for types.
+ * Throws a TranspileError listing every compile error and unresolved import.
+ */
+export function bundleModules(
+  files: SourceFiles,
+  entry: string,
+  dependencies: Dependencies = {}
+): BundledModule[] {
+  const modules: BundledModule[] = [];
+  const diagnostics: CompileDiagnostic[] = [];
+  const visited = new Set<string>();
+  const queue = [entry];
+
+  while (queue.length > 0) {
+    const path = queue.shift()!;
+    if (visited.has(path)) continue;
+    visited.add(path);
+
+    const source = files[path];
+
+    if (path.endsWith('.json')) {
+      try {
+        JSON.parse(source);
+      } catch (error) {
+        diagnostics.push({
+          file: path,
+          line: 1,
+          column: 1,
+          message: error instanceof Error ? error.message : 'Invalid JSON',
+        });
+        continue;
+      }
+      modules.push({ path, code: `module.exports = ${source.trim()};`, imports: {}, mappings: '' });
+      continue;
+    }
+
+    let output: TranspileOutput;
+    try {
+      output = transpileWorkerCode(source, path);
+    } catch (error) {
+      if (error instanceof TranspileError) {
+        diagnostics.push(...error.diagnostics);
+        continue;
+      }
+      throw error;
+    }
+
+    // Find every import, re-export, require() and dynamic import(). Type-only
+    // and unused imports are dropped from the compiled code, so they are skipped.
+    const resolvedImports: Record<string, string> = {};
+    const { importedFiles } = ts.preProcessFile(source, true, true);
+    const required = new Set(ts.preProcessFile(output.code, true, true).importedFiles.map((file) => file.fileName));
+
+    for (const imported of importedFiles) {
+      const specifier = imported.fileName;
+      if (!required.has(specifier)) continue;
+
+      if (!isRelativeSpecifier(specifier)) {
+        const packageName = packageNameOf(specifier);
+        if (!isBuiltinModule(specifier) && !(packageName in dependencies)) {
+          diagnostics.push({
+            file: path,
+            ...positionOf(source, imported.pos),
+            message: `Cannot find package '${packageName}'. Add it to the worker's dependencies.`,
+          });
+        }
+        continue;
+      }
+
+      const resolved = resolveRelativeImport(files, specifier, path);
+      if (!resolved) {
+        diagnostics.push({
+          file: path,
+          ...positionOf(source, imported.pos),
+          message: `Cannot find module '${specifier}'`,
+        });
+        continue;
+      }
+
+      resolvedImports[specifier] = resolved;
+      queue.push(resolved);
+    }
+
+    modules.push({ path, code: output.code, imports: resolvedImports, mappings: output.mappings });
+  }
+
+  if (diagnostics.length > 0) {
+    throw new TranspileError(diagnostics);
+  }
+
+  return modules;
+}
@@ -0,0 +1,87 @@
+import { afterAll, beforeAll, describe, expect, test } from 'bun:test';
+import { spawnSync } from 'child_process';
+import { existsSync, mkdirSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { DependencyInstallError, installDependencies, InstallTarget } from './client';
+
+// npm runs for real, so allow more than the default 5s per test
+const NPM_TIMEOUT_MS = 60_000;
+
+let root: string;
+let tarball: string;
+
+/**
+ * Stands in for a sandbox: files and commands go to a local directory. npm gets
+ * its own cache and gives up on the first failed request, so nothing is fetched
+ * from, or waits on, the network.
+ */
+function localSandbox(dir: string): InstallTarget {
+  mkdirSync(dir, { recursive: true });
+  const sandbox = {
+    async writeFiles(files: { path: string; content: Buffer }[]) {
+      for (const file of files) writeFileSync(join(dir, file.path), file.content);
+    },
+    async runCommand({ cmd, args }: { cmd: string; args: string[] }) {
+      const run = spawnSync(cmd, args, {
+        cwd: dir,
+        encoding: 'utf8',
+        env: { ...process.env, npm_config_cache: join(root, 'cache'), npm_config_fetch_retries: '0' },
+      });
+      return { exitCode: run.status, stdout: async () => run.stdout, stderr: async () => run.stderr };
+    },
+    async readFileToBuffer({ path }: { path: string }) {
+      return existsSync(join(dir, path)) ? readFileSync(join(dir, path)) : null;
+    },
+  };
+  return sandbox as unknown as InstallTarget;
+}
+
+beforeAll(() => {
+  root = mkdtempSync(join(tmpdir(), 'worker-install-'));
+  // Nothing listens here, so any registry request fails right away
+  process.env.WORKER_NPM_REGISTRY = 'http://127.0.0.1:9';
+
+  // A vendored package tarball, like one a deploy could depend on with "file:"
+  const pkg = join(root, 'greeting');
+  mkdirSync(pkg);
+  writeFileSync(join(pkg, 'package.json'), JSON.stringify({ name: 'greeting', version: '1.0.0', main: 'index.js' }));
+  writeFileSync(join(pkg, 'index.js'), "module.exports = () => 'hello';");
+  const pack = spawnSync('npm', ['pack', '--pack-destination', root], { cwd: pkg, encoding: 'utf8' });
+  if (pack.status !== 0) throw new Error(pack.stderr);
+  tarball = join(root, 'greeting-1.0.0.tgz');
+});
+
+afterAll(() => {
+  delete process.env.WORKER_NPM_REGISTRY;
+  rmSync(root, { recursive: true, force: true });
+});
+
+describe('installDependencies', () => {
+  test('installs the dependencies and returns the lockfile', async () => {
+    const dir = join(root, 'install');
+    const lockfile = await installDependencies(localSandbox(dir), { greeting: `file:${tarball}` }, null);
+
+    const packages = lockfile.packages as Record<string, { version?: string }>;
+    expect(packages['node_modules/greeting'].version).toBe('1.0.0');
+    expect(JSON.parse(readFileSync(join(dir, 'package.json'), 'utf8')).dependencies).toEqual({ greeting: `file:${tarball}` });
+    expect(existsSync(join(dir, 'node_modules/greeting/index.js'))).toBe(true);
+  }, NPM_TIMEOUT_MS);
+
+  test('installs exactly what a previous lockfile locked', async () => {
+    const lockfile = await installDependencies(localSandbox(join(root, 'first')), { greeting: `file:${tarball}` }, null);
+
+    const dir = join(root, 'rebuild');
+    const relocked = await installDependencies(localSandbox(dir), { greeting: `file:${tarball}` }, lockfile);
+
+    expect(relocked.packages).toEqual(lockfile.packages);
+    expect(existsSync(join(dir, 'node_modules/greeting/index.js'))).toBe(true);
+  }, NPM_TIMEOUT_MS);
+
+  test('fails with the npm error when a dependency can not be resolved', async () => {
+    const install = installDependencies(localSandbox(join(root, 'missing')), { 'left-pad': '^1.3.0' }, null);
+
+    await expect(install).rejects.toBeInstanceOf(DependencyInstallError);
+    await expect(install).rejects.toThrow(/^Failed to install dependencies: .*(ECONNREFUSED|127\.0\.0\.1)/);
+  }, NPM_TIMEOUT_MS);
+});
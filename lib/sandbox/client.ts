@@ -1,28 +1,177 @@
 import { Sandbox, Snapshot } from '@vercel/sandbox';
+import { poolOptionsFromEnv, SandboxPool } from './pool';
+import {
+  createNonce,
+  LineBuffer,
+  LogFrame,
+  LogLevel,
+  parseLogLine,
+  parseOutcome,
+  resultFilePath,
+  ServerMessage,
+  WorkerError,
+  WorkerOutcome,
+} from './protocol';
+
+// Snapshots expire this long after they are created
+export const SNAPSHOT_LIFETIME_MS = 7 * 24 * 60 * 60_000;
 
 export interface CreateSnapshotResult {
   snapshotId: string;
   expiresAt: Date;
+  // Resolved package-lock.json, or null when the worker has no dependencies
+  lockfile: Record<string, unknown> | null;
 }
 
 export interface InvokeFunctionResult {
-  result: unknown;
+  // Set when the function returned
+  result?: unknown;
+  // Set when the function threw
+  error?: WorkerError;
   duration: number;
+  // Whether a sandbox had to boot for this call (false when a warm one was reused)
+  coldStart: boolean;
 }
 
 export interface LogEntry {
   stream: 'stdout' | 'stderr';
   data: string;
+  // Sandbox time of the console call, or arrival time for raw output
   timestamp: number;
+  // Set for console calls; raw process output only has a stream
+  level?: LogLevel;
+  args?: unknown[];
+  fields?: Record<string, unknown>;
+}
+
+export interface InvokeFunctionOptions {
+  // The sandbox is stopped if the function runs longer than this
+  timeoutMs: number;
+  // Aborting cancels the invocation and stops the sandbox
+  signal?: AbortSignal;
+  // Environment variables for the worker's process
+  env?: Record<string, string>;
+  // Called once a sandbox is assigned, so it can be stopped from elsewhere
+  onSandboxAssigned?: (sandboxId: string, coldStart: boolean) => void;
+}
+
+// Headroom so the sandbox's own auto-stop never fires before our timeout
+const SANDBOX_TIMEOUT_MARGIN_MS = 30_000;
+
+/**
+ * Thrown when a sandbox can't boot because its snapshot is gone (expired or
+ * deleted); the version has to be rebuilt before it can run again
+ */
+export class SnapshotNotFoundError extends Error {
+  readonly snapshotId: string;
+
+  constructor(snapshotId: string) {
+    super('Worker snapshot has expired. Rebuild or redeploy it.');
+    this.name = 'SnapshotNotFoundError';
+    this.snapshotId = snapshotId;
+  }
+}
+
+// The sandbox API answers a boot from a missing snapshot with 404 (410 once it expired)
+function isMissingSnapshot(error: unknown): boolean {
+  const status = (error as { response?: { status?: unknown } } | null)?.response?.status;
+  return status === 404 || status === 410;
+}
+
+/**
+ * Thrown when `npm install` fails while baking dependencies into a snapshot
+ */
+export class DependencyInstallError extends Error {
+  readonly output: string;
+
+  constructor(message: string, output: string) {
+    super(message);
+    this.name = 'DependencyInstallError';
+    this.output = output;
+  }
+}
+
+/**
+ * Thrown when a function runs past its timeout and its sandbox is stopped
+ */
+export class InvocationTimeoutError extends Error {
+  readonly timeoutMs: number;
+
+  constructor(timeoutMs: number) {
+    super(`Function timed out after ${timeoutMs}ms`);
+    this.name = 'InvocationTimeoutError';
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * Thrown when an invocation is cancelled before the function finished
+ */
+export class InvocationCancelledError extends Error {
+  constructor() {
+    super('Invocation cancelled');
+    this.name = 'InvocationCancelledError';
+  }
+}
+
+// The parts of a sandbox an install uses, so installs can also run against a stand-in
+export type InstallTarget = Pick<Sandbox, 'writeFiles' | 'runCommand' | 'readFileToBuffer'>;
+
+/**
+ * Write package.json, run npm install (npm ci when given a lockfile), and
+ * return the resolved lockfile.
+ * WORKER_NPM_REGISTRY points installs at a different registry (e.g. a local stand-in).
+ */
+export async function installDependencies(
+  sandbox: InstallTarget,
+  dependencies: Record<string, string>,
+  previousLockfile: Record<string, unknown> | null
+): Promise<Record<string, unknown>> {
+  const packageJson = { name: 'worker', private: true, dependencies };
+  await sandbox.writeFiles([
+    { path: 'package.json', content: Buffer.from(JSON.stringify(packageJson, null, 2)) },
+    ...(previousLockfile
+      ? [{ path: 'package-lock.json', content: Buffer.from(JSON.stringify(previousLockfile, null, 2)) }]
+      : []),
+  ]);
+
+  const args = [previousLockfile ? 'ci' : 'install', '--omit=dev', '--no-audit', '--no-fund'];
+  if (process.env.WORKER_NPM_REGISTRY) {
+    args.push('--registry', process.env.WORKER_NPM_REGISTRY);
+  }
+
+  const install = await sandbox.runCommand({ cmd: 'npm', args });
+  if (install.exitCode !== 0) {
+    const output = (await install.stderr()).trim() || (await install.stdout()).trim();
+    // npm prints the useful part (e.g. "404 Not Found - GET .../left-pad") in its error lines
+    const reason = output.split('\n').find((line) => /ERR!|error/i.test(line))
+      ?? `npm install exited with code ${install.exitCode}`;
+    throw new DependencyInstallError(
+      `Failed to install dependencies: ${reason.replace(/^npm (ERR!|error)\s*/, '')}`,
+      output
+    );
+  }
+
+  const lockfile = await sandbox.readFileToBuffer({ path: 'package-lock.json' });
+  if (!lockfile) {
+    throw new DependencyInstallError('Failed to install dependencies: npm did not write package-lock.json', '');
+  }
+  return JSON.parse(lockfile.toString('utf8'));
 }
 
 export class SandboxClient {
+  private readonly pool = new SandboxPool(poolOptionsFromEnv());
+
   /**
-   * Create a sandbox, write worker code, and create a snapshot
+   * Create a sandbox, write worker code, and create a snapshot.
+   * With a lockfile (a rebuild of a stored version), dependencies are installed
+   * exactly as locked instead of being resolved again.
    */
   async createWorkerSnapshot(
     workerScript: string,
-    functions: string[]
+    functions: string[],
+    dependencies: Record<string, string> = {},
+    previousLockfile: Record<string, unknown> | null = null
   ): Promise<CreateSnapshotResult> {
     const sandbox = await Sandbox.create({ runtime: 'node24' });
 
@@ -33,16 +182,20 @@ export class SandboxClient {
         { path: 'manifest.json', content: Buffer.from(JSON.stringify({ functions }, null, 2)) },
       ]);
 
+      // Install dependencies into the sandbox so they're baked into the snapshot
+      const lockfile = Object.keys(dependencies).length > 0
+        ? await installDependencies(sandbox, dependencies, previousLockfile)
+        : null;
+
       // Create snapshot - this also stops the sandbox
       const snapshot = await sandbox.snapshot();
 
-      // Snapshots expire in 7 days
-      const expiresAt = new Date();
-      expiresAt.setDate(expiresAt.getDate() + 7);
+      const expiresAt = new Date(Date.now() + SNAPSHOT_LIFETIME_MS);
 
       return {
         snapshotId: snapshot.snapshotId,
         expiresAt,
+        lockfile,
       };
     } catch (error) {
       // Clean up the sandbox on error
@@ -52,67 +205,216 @@ export class SandboxClient {
   }
 
   /**
-   * Create a sandbox from snapshot, run function, and stream logs
+   * Run a function and stream its logs. Uses a warm sandbox from the pool when
+   * pooling is enabled, otherwise boots a sandbox from the snapshot for this call.
+   * Throws InvocationTimeoutError or InvocationCancelledError when the run is cut short,
+   * and SnapshotNotFoundError when the snapshot is gone.
    */
   async invokeFunction(
     snapshotId: string,
     functionName: string,
     payload: unknown,
-    onLog: (log: LogEntry) => void
+    onLog: (log: LogEntry) => void,
+    options: InvokeFunctionOptions
+  ): Promise<InvokeFunctionResult> {
+    return this.pool.enabled
+      ? this.invokePooled(snapshotId, functionName, payload, onLog, options)
+      : this.invokeOneShot(snapshotId, functionName, payload, onLog, options);
+  }
+
+  /**
+   * Send the call to a warm worker process over HTTP.
+   * A sandbox that timed out, was cancelled or misbehaved is evicted rather than reused.
+   */
+  private async invokePooled(
+    snapshotId: string,
+    functionName: string,
+    payload: unknown,
+    onLog: (log: LogEntry) => void,
+    options: InvokeFunctionOptions
   ): Promise<InvokeFunctionResult> {
-    const sandbox = await Sandbox.create({
-      source: { type: 'snapshot', snapshotId },
-    });
+    const { timeoutMs, signal, env = {} } = options;
+
+    let lease;
+    try {
+      lease = await this.pool.acquire(snapshotId, env, timeoutMs + SANDBOX_TIMEOUT_MARGIN_MS, signal);
+    } catch (error) {
+      if (signal?.aborted) throw new InvocationCancelledError();
+      if (isMissingSnapshot(error)) throw new SnapshotNotFoundError(snapshotId);
+      throw error;
+    }
+
+    const { entry, coldStart } = lease;
+    options.onSandboxAssigned?.(entry.sandbox.sandboxId, coldStart);
 
     const startTime = Date.now();
+    let healthy = false;
 
     try {
-      // Run the worker script with function name and payload as arguments
-      // Use detached mode so we can stream logs
-      const command = await sandbox.runCommand({
-        cmd: 'node',
-        args: ['worker.js', functionName, JSON.stringify(payload)],
-        detached: true,
-      });
+      const outcome = await this.withDeadline(options, async (abortSignal): Promise<WorkerOutcome> => {
+        const res = await fetch(`${entry.url}/invoke`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${entry.token}` },
+          body: JSON.stringify({ function: functionName, payload }),
+          signal: abortSignal,
+        });
 
-      // Stream logs in real-time
-      let stdout = '';
-      for await (const log of command.logs()) {
-        // Collect stdout to parse result later
-        if (log.stream === 'stdout') {
-          stdout += log.data;
+        if (!res.ok || !res.body) {
+          throw new Error(`Worker server responded with ${res.status}`);
         }
 
-        // Check if this is the result marker - don't send to client
-        if (log.data.includes('__RESULT__')) {
-          continue;
+        for await (const line of readLines(res.body)) {
+          const message = JSON.parse(line) as ServerMessage;
+          if (message.type === 'log') {
+            onLog(toLogEntry(message.stream, message));
+          } else if (message.type === 'result') {
+            return { result: message.result };
+          } else if (message.type === 'error') {
+            return { error: message.error };
+          }
         }
 
-        onLog({
-          stream: log.stream,
-          data: log.data.trimEnd(),
-          timestamp: Date.now(),
-        });
+        throw new Error('Function did not return a result');
+      });
+
+      healthy = true;
+      return { ...outcome, duration: Date.now() - startTime, coldStart };
+    } finally {
+      if (healthy) {
+        await this.pool.release(entry);
+      } else {
+        await this.pool.evict(entry);
       }
+    }
+  }
 
-      // Wait for command to finish
-      await command.wait();
-      const duration = Date.now() - startTime;
+  /**
+   * Create a sandbox from snapshot, run `node worker.js fn payload`, and stop it.
+   * The outcome comes back through a result file rather than stdout.
+   */
+  private async invokeOneShot(
+    snapshotId: string,
+    functionName: string,
+    payload: unknown,
+    onLog: (log: LogEntry) => void,
+    options: InvokeFunctionOptions
+  ): Promise<InvokeFunctionResult> {
+    const { timeoutMs, signal } = options;
 
-      // Parse result from stdout (use multiline matching)
-      const resultMatch = stdout.match(/__RESULT__([\s\S]+)__END_RESULT__/);
+    let sandbox: Sandbox;
+    try {
+      sandbox = await Sandbox.create({
+        source: { type: 'snapshot', snapshotId },
+        timeout: timeoutMs + SANDBOX_TIMEOUT_MARGIN_MS,
+        signal,
+      });
+    } catch (error) {
+      if (signal?.aborted) throw new InvocationCancelledError();
+      if (isMissingSnapshot(error)) throw new SnapshotNotFoundError(snapshotId);
+      throw error;
+    }
 
-      if (!resultMatch) {
-        throw new Error('Function did not return a result');
-      }
+    options.onSandboxAssigned?.(sandbox.sandboxId, true);
+
+    const startTime = Date.now();
+
+    try {
+      const outcome = await this.withDeadline(options, async (abortSignal): Promise<WorkerOutcome> => {
+        const nonce = createNonce();
+        const resultFile = resultFilePath(nonce);
+
+        // Run the worker script with function name and payload as arguments
+        // Use detached mode so we can stream logs
+        const command = await sandbox.runCommand({
+          cmd: 'node',
+          args: ['worker.js', functionName, JSON.stringify(payload)],
+          env: { ...options.env, WORKER_NONCE: nonce, WORKER_RESULT_FILE: resultFile },
+          detached: true,
+          signal: abortSignal,
+        });
+
+        // Output arrives in arbitrary chunks - split each stream back into lines
+        const buffers = { stdout: new LineBuffer(), stderr: new LineBuffer() };
+        const emit = (stream: 'stdout' | 'stderr', line: string) => {
+          onLog(toLogEntry(stream, parseLogLine(line, nonce)));
+        };
+
+        // Stream logs in real-time
+        for await (const log of command.logs({ signal: abortSignal })) {
+          for (const line of buffers[log.stream].push(log.data)) {
+            emit(log.stream, line);
+          }
+        }
+        for (const stream of ['stdout', 'stderr'] as const) {
+          for (const line of buffers[stream].flush()) {
+            emit(stream, line);
+          }
+        }
+
+        // Wait for command to finish
+        const finished = await command.wait({ signal: abortSignal });
+
+        const raw = await sandbox.readFileToBuffer({ path: resultFile }, { signal: abortSignal });
+        if (!raw) {
+          throw new Error(`Function did not return a result (exit code ${finished.exitCode})`);
+        }
 
-      const parsedResult = JSON.parse(resultMatch[1]);
-      return { result: parsedResult, duration };
+        return parseOutcome(raw.toString('utf8'));
+      });
+
+      return { ...outcome, duration: Date.now() - startTime, coldStart: true };
     } finally {
       await sandbox.stop();
     }
   }
 
+  /**
+   * Run with one abort signal covering both the timeout and the caller's cancellation,
+   * and turn an aborted run into the matching error
+   */
+  private async withDeadline<T>(
+    options: InvokeFunctionOptions,
+    run: (signal: AbortSignal) => Promise<T>
+  ): Promise<T> {
+    const { timeoutMs, signal } = options;
+    const abort = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      abort.abort();
+    }, timeoutMs);
+    const onCancel = () => abort.abort();
+    if (signal?.aborted) abort.abort();
+    signal?.addEventListener('abort', onCancel, { once: true });
+
+    try {
+      return await run(abort.signal);
+    } catch (error) {
+      if (timedOut) throw new InvocationTimeoutError(timeoutMs);
+      if (signal?.aborted) throw new InvocationCancelledError();
+      throw error;
+    } finally {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onCancel);
+    }
+  }
+
+  /**
+   * Stop a running sandbox by ID, e.g. to cancel an invocation started by another request
+   */
+  async stopSandbox(sandboxId: string): Promise<void> {
+    const sandbox = await Sandbox.get({ sandboxId });
+    await sandbox.stop();
+  }
+
+  /**
+   * Delete a snapshot that is no longer referenced
+   */
+  async deleteSnapshot(snapshotId: string): Promise<void> {
+    const snapshot = await Snapshot.get({ snapshotId });
+    await snapshot.delete();
+  }
+
   /**
    * Check if a snapshot exists and return its metadata
    */
@@ -138,3 +440,30 @@ export function getSandboxClient(): SandboxClient {
   }
   return sandboxClient;
 }
+
+// Raw output has no timestamp of its own, so it gets its arrival time
+function toLogEntry(stream: 'stdout' | 'stderr', frame: LogFrame): LogEntry {
+  return {
+    stream,
+    data: frame.message.trimEnd(),
+    timestamp: frame.timestamp ?? Date.now(),
+    level: frame.level,
+    args: frame.args,
+    fields: frame.fields,
+  };
+}
+
+// Split a byte stream into lines
+async function* readLines(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  const lines = new LineBuffer();
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    yield* lines.push(decoder.decode(value, { stream: true })).filter(Boolean);
+  }
+
+  yield* lines.flush();
+}
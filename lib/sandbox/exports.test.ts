@@ -0,0 +1,157 @@
+import { describe, expect, test } from 'bun:test';
+import { spawnSync } from 'child_process';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import type { SourceFiles } from './bundle';
+import { extractFunctions } from './exports';
+import { createNonce, parseOutcome } from './protocol';
+import { generateWorkerScript } from './worker-script';
+
+function extract(code: string, files: SourceFiles = {}) {
+  return extractFunctions({ ...files, 'worker.ts': code }, 'worker.ts');
+}
+
+function names(code: string, files: SourceFiles = {}): string[] {
+  return extract(code, files).map((fn) => fn.name);
+}
+
+describe('extractFunctions', () => {
+  test('finds exported function declarations and function-valued constants', () => {
+    expect(names(`
+      export function hello() {}
+      export async function load() {}
+      export const arrow = () => 1;
+      export const expression = function () {};
+      export const wrapped = ((payload: unknown) => payload) as Handler;
+      export const notAFunction = 42;
+      function internal() {}
+    `)).toEqual(['hello', 'load', 'arrow', 'expression', 'wrapped']);
+  });
+
+  test('finds default exports', () => {
+    expect(names('export default function () {}')).toEqual(['default']);
+    expect(names('export default async () => {}')).toEqual(['default']);
+    expect(names('const main = () => {};\nexport default main;')).toEqual(['default']);
+  });
+
+  test('follows export lists to local declarations, with renames', () => {
+    expect(names(`
+      function a() {}
+      const b = async () => {};
+      const value = 1;
+      export { a, b as renamed, value };
+    `)).toEqual(['a', 'renamed']);
+  });
+
+  test('follows re-exports into other worker files', () => {
+    const files = {
+      'lib/math.ts': '/** Add two numbers */\nexport function add(payload: number[]) {}\nexport const sub = () => 0;\nexport default () => 1;',
+    };
+
+    expect(extract("export { add as sum } from './lib/math';", files)).toEqual([
+      {
+        name: 'sum',
+        async: false,
+        payloadType: 'number[]',
+        returnType: null,
+        description: 'Add two numbers',
+        inputSchema: { type: 'array', items: { type: 'number' } },
+        outputSchema: null,
+      },
+    ]);
+    // export * leaves out the default export
+    expect(names("export * from './lib/math';", files)).toEqual(['add', 'sub']);
+  });
+
+  test('follows imported bindings that are exported again', () => {
+    const files = {
+      'lib/util.ts': 'export function helper(payload: string) {}\nexport default async () => 1;\nexport const value = 1;',
+    };
+
+    expect(extract("import main, { helper, value } from './lib/util';\nexport { helper, value };\nexport default main;", files))
+      .toEqual([
+        { name: 'helper', async: false, payloadType: 'string', returnType: null, description: null, inputSchema: { type: 'string' }, outputSchema: null },
+        { name: 'default', async: true, payloadType: null, returnType: null, description: null, inputSchema: null, outputSchema: null },
+      ]);
+    expect(names("import { helper as run } from './lib/util';\nexport { run as go };", files)).toEqual(['go']);
+    expect(names("import { remote } from 'some-package';\nexport { remote };")).toEqual(['remote']);
+    expect(names("import type { helper } from './lib/util';\nexport { helper };", files)).toEqual([]);
+  });
+
+  test('stops at re-export cycles', () => {
+    expect(names("export * from './a';\nexport function own() {}", {
+      'a.ts': "export * from './worker';\nexport const a = () => 1;",
+    })).toEqual(['a', 'own']);
+  });
+
+  test('lists re-exports it can not follow without their declarations', () => {
+    expect(extract("export { remote, other as alias } from 'some-package';")).toEqual([
+      { name: 'remote', async: false, payloadType: null, returnType: null, description: null, inputSchema: null, outputSchema: null },
+      { name: 'alias', async: false, payloadType: null, returnType: null, description: null, inputSchema: null, outputSchema: null },
+    ]);
+  });
+
+  test('skips type-only exports and declarations without a body', () => {
+    expect(names(`
+      function a() {}
+      export type { Options } from './types';
+      export { type Payload, a };
+      export declare function ambient(): void;
+    `)).toEqual(['a']);
+  });
+
+  test('ignores exports inside comments and strings', () => {
+    expect(names(`
+      // export function commented() {}
+      const text = 'export function quoted() {}';
+      export function real() { return text; }
+    `)).toEqual(['real']);
+  });
+
+  test('records signatures and the JSDoc summary', () => {
+    const [fn] = extract(`
+      /**
+       * Say hello
+       * to someone.
+       *
+       * Longer details that are not part of the summary.
+       */
+      export async function greet(payload: { name: string }): Promise<string> {
+        return payload.name;
+      }
+    `);
+
+    expect(fn).toEqual({
+      name: 'greet',
+      async: true,
+      payloadType: '{ name: string }',
+      returnType: 'Promise<string>',
+      description: 'Say hello to someone.',
+      inputSchema: { type: 'object', properties: { name: { type: 'string' } }, required: ['name'] },
+      outputSchema: { type: 'string' },
+    });
+  });
+});
+
+describe('bundled worker', () => {
+  test('runs an imported binding exported again from the entry file', () => {
+    const { script, functions } = generateWorkerScript({
+      'worker.ts': "import { helper } from './lib/util';\nexport { helper };",
+      'lib/util.ts': 'export function helper(payload: { name: string }) { return `hi ${payload.name}`; }',
+    }, 'worker.ts');
+    expect(functions).toEqual(['helper']);
+
+    const dir = mkdtempSync(join(tmpdir(), 'worker-exports-'));
+    try {
+      const resultFile = join(dir, 'result.json');
+      writeFileSync(join(dir, 'worker.js'), script);
+      spawnSync('node', [join(dir, 'worker.js'), 'helper', '{"name":"Ada"}'], {
+        env: { ...process.env, WORKER_NONCE: createNonce(), WORKER_RESULT_FILE: resultFile },
+      });
+      expect(parseOutcome(readFileSync(resultFile, 'utf8'))).toEqual({ result: 'hi Ada' });
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,273 @@
+import ts from 'typescript';
+import { isRelativeSpecifier, resolveRelativeImport, SourceFiles } from './bundle';
+import { JsonSchema, readDeclaredSchemas, TypeSchemaDeriver } from './schema';
+
+/**
+ * Metadata for one exported worker function, as declared in the source
+ */
+export interface FunctionMetadata {
+  name: string;
+  async: boolean;
+  payloadType: string | null;
+  returnType: string | null;
+  description: string | null;
+  // Checked before the function runs / after it returns; null accepts anything
+  inputSchema: JsonSchema | null;
+  outputSchema: JsonSchema | null;
+}
+
+type FunctionLike = ts.FunctionDeclaration | ts.ArrowFunction | ts.FunctionExpression;
+
+/**
+ * Unwrap parentheses and type-only wrappers: `(fn) as Handler`, `fn satisfies Handler`
+ */
+function unwrapExpression(expression: ts.Expression): ts.Expression {
+  let current = expression;
+  while (
+    ts.isParenthesizedExpression(current) ||
+    ts.isAsExpression(current) ||
+    ts.isSatisfiesExpression(current) ||
+    ts.isTypeAssertionExpression(current)
+  ) {
+    current = current.expression;
+  }
+  return current;
+}
+
+function hasModifier(node: ts.Node, kind: ts.SyntaxKind): boolean {
+  return ts.canHaveModifiers(node) && (ts.getModifiers(node) ?? []).some((m) => m.kind === kind);
+}
+
+/**
+ * First paragraph of the JSDoc block attached to a declaration, whitespace-normalized
+ */
+function getJSDocSummary(node: ts.Node): string | null {
+  const docs = ts.getJSDocCommentsAndTags(node).filter(ts.isJSDoc);
+  const doc = docs[docs.length - 1];
+  const text = doc ? ts.getTextOfJSDocComment(doc.comment) : undefined;
+  if (!text) return null;
+
+  const summary = text.split(/\n\s*\n/)[0].replace(/\s+/g, ' ').trim();
+  return summary || null;
+}
+
+function describeFunction(
+  name: string,
+  fn: FunctionLike,
+  docNode: ts.Node,
+  sourceFile: ts.SourceFile,
+  schemas: TypeSchemaDeriver
+): FunctionMetadata {
+  const payload = fn.parameters[0];
+  return {
+    name,
+    async: hasModifier(fn, ts.SyntaxKind.AsyncKeyword),
+    payloadType: payload?.type ? payload.type.getText(sourceFile) : null,
+    returnType: fn.type ? fn.type.getText(sourceFile) : null,
+    description: getJSDocSummary(docNode),
+    inputSchema: schemas.input(payload?.type),
+    outputSchema: schemas.output(fn.type),
+  };
+}
+
+/**
+ * Index top-level function declarations and function-valued variables by local name
+ */
+function collectLocalFunctions(sourceFile: ts.SourceFile): Map<string, { fn: FunctionLike; docNode: ts.Node }> {
+  const locals = new Map<string, { fn: FunctionLike; docNode: ts.Node }>();
+
+  for (const statement of sourceFile.statements) {
+    if (ts.isFunctionDeclaration(statement) && statement.name && statement.body) {
+      if (!locals.has(statement.name.text)) {
+        locals.set(statement.name.text, { fn: statement, docNode: statement });
+      }
+    } else if (ts.isVariableStatement(statement)) {
+      for (const declaration of statement.declarationList.declarations) {
+        if (!ts.isIdentifier(declaration.name) || !declaration.initializer) continue;
+        const initializer = unwrapExpression(declaration.initializer);
+        if (ts.isArrowFunction(initializer) || ts.isFunctionExpression(initializer)) {
+          locals.set(declaration.name.text, { fn: initializer, docNode: declaration });
+        }
+      }
+    }
+  }
+
+  return locals;
+}
+
+/**
+ * Index value imports by local name: `import main, { a as b } from './x'`
+ * gives main -> default and b -> a. Namespace imports aren't followed.
+ */
+function collectImportBindings(sourceFile: ts.SourceFile): Map<string, { name: string; moduleSpecifier: ts.Expression }> {
+  const bindings = new Map<string, { name: string; moduleSpecifier: ts.Expression }>();
+
+  for (const statement of sourceFile.statements) {
+    const clause = ts.isImportDeclaration(statement) ? statement.importClause : undefined;
+    if (!clause || clause.isTypeOnly) continue;
+    const { moduleSpecifier } = statement as ts.ImportDeclaration;
+
+    if (clause.name) {
+      bindings.set(clause.name.text, { name: 'default', moduleSpecifier });
+    }
+    if (clause.namedBindings && ts.isNamedImports(clause.namedBindings)) {
+      for (const element of clause.namedBindings.elements) {
+        if (element.isTypeOnly) continue;
+        bindings.set(element.name.text, { name: (element.propertyName ?? element.name).text, moduleSpecifier });
+      }
+    }
+  }
+
+  return bindings;
+}
+
+/**
+ * Discover exported functions by walking the TypeScript AST of the entry file.
+ *
+ * Handles `export function`, `export const fn = () => ...`, `export { a, b as c }`,
+ * `export default`, and re-exports (`export { a } from`, `export * from`, or an
+ * imported binding exported again), which are followed into the other worker
+ * files. Exports inside comments or strings are never matched since only real
+ * declarations are visited.
+ *
+ * Input and output schemas are derived from each function's parameter and return
+ * types; an entry in the entry file's `export const schemas = { fn: { input, output } }`
+ * takes precedence over the derived one.
+ */
+export function extractFunctions(files: SourceFiles, entry: string): FunctionMetadata[] {
+  const functions = extractFromFile(files, entry, new Set());
+  if (!(entry in files) || entry.endsWith('.json')) return functions;
+
+  const sourceFile = ts.createSourceFile(entry, files[entry], ts.ScriptTarget.Latest, true);
+  const declared = readDeclaredSchemas(sourceFile);
+  if (!declared) return functions;
+
+  return functions.map((metadata) => {
+    const schemas = Object.hasOwn(declared, metadata.name) ? declared[metadata.name] : undefined;
+    return {
+      ...metadata,
+      inputSchema: schemas?.input ?? metadata.inputSchema,
+      outputSchema: schemas?.output ?? metadata.outputSchema,
+    };
+  });
+}
+
+function extractFromFile(files: SourceFiles, path: string, visiting: Set<string>): FunctionMetadata[] {
+  // Guard against re-export cycles between modules
+  if (visiting.has(path) || !(path in files) || path.endsWith('.json')) return [];
+  visiting.add(path);
+
+  const sourceFile = ts.createSourceFile(path, files[path], ts.ScriptTarget.Latest, true);
+  const locals = collectLocalFunctions(sourceFile);
+  const imports = collectImportBindings(sourceFile);
+  const schemas = new TypeSchemaDeriver(sourceFile);
+  const functions = new Map<string, FunctionMetadata>();
+
+  function add(metadata: FunctionMetadata) {
+    if (!functions.has(metadata.name)) {
+      functions.set(metadata.name, metadata);
+    }
+  }
+
+  function addLocal(exportedName: string, localName: string) {
+    const local = locals.get(localName);
+    if (local) {
+      add(describeFunction(exportedName, local.fn, local.docNode, sourceFile, schemas));
+      return;
+    }
+
+    // import { helper } from './lib/util'; export { helper }
+    const imported = imports.get(localName);
+    if (imported) addReexport(exportedName, imported.name, exportsOf(imported.moduleSpecifier));
+  }
+
+  // `reexported` is null when the module is a package and its declarations aren't visible here
+  function addReexport(exportedName: string, importedName: string, reexported: FunctionMetadata[] | null) {
+    if (!reexported) {
+      add({
+        name: exportedName,
+        async: false,
+        payloadType: null,
+        returnType: null,
+        description: null,
+        inputSchema: null,
+        outputSchema: null,
+      });
+      return;
+    }
+    const metadata = reexported.find((m) => m.name === importedName);
+    if (metadata) add({ ...metadata, name: exportedName });
+  }
+
+  // Exports of another worker module, or null for packages and missing files
+  function exportsOf(moduleSpecifier: ts.Expression): FunctionMetadata[] | null {
+    if (!ts.isStringLiteral(moduleSpecifier) || !isRelativeSpecifier(moduleSpecifier.text)) {
+      return null;
+    }
+    const resolved = resolveRelativeImport(files, moduleSpecifier.text, path);
+    return resolved ? extractFromFile(files, resolved, visiting) : null;
+  }
+
+  for (const statement of sourceFile.statements) {
+    const isExported = hasModifier(statement, ts.SyntaxKind.ExportKeyword);
+    const isDefault = hasModifier(statement, ts.SyntaxKind.DefaultKeyword);
+
+    // export function name() {} / export default function () {}
+    if (ts.isFunctionDeclaration(statement) && isExported && statement.body) {
+      const name = isDefault ? 'default' : statement.name?.text;
+      if (name) add(describeFunction(name, statement, statement, sourceFile, schemas));
+      continue;
+    }
+
+    // export const name = async () => {} / export const name = function () {}
+    if (ts.isVariableStatement(statement) && isExported) {
+      for (const declaration of statement.declarationList.declarations) {
+        if (ts.isIdentifier(declaration.name)) {
+          addLocal(declaration.name.text, declaration.name.text);
+        }
+      }
+      continue;
+    }
+
+    // export default name / export default async () => {}
+    if (ts.isExportAssignment(statement) && !statement.isExportEquals) {
+      const expression = unwrapExpression(statement.expression);
+      if (ts.isIdentifier(expression)) {
+        addLocal('default', expression.text);
+      } else if (ts.isArrowFunction(expression) || ts.isFunctionExpression(expression)) {
+        add(describeFunction('default', expression, statement, sourceFile, schemas));
+      }
+      continue;
+    }
+
+    if (!ts.isExportDeclaration(statement) || statement.isTypeOnly) continue;
+
+    // export * from './module' - everything but the default export
+    if (!statement.exportClause && statement.moduleSpecifier) {
+      for (const metadata of exportsOf(statement.moduleSpecifier) ?? []) {
+        if (metadata.name !== 'default') add(metadata);
+      }
+      continue;
+    }
+
+    // export { a, b as c } / export { a } from './module'
+    if (statement.exportClause && ts.isNamedExports(statement.exportClause)) {
+      const reexported = statement.moduleSpecifier ? exportsOf(statement.moduleSpecifier) : null;
+
+      for (const element of statement.exportClause.elements) {
+        if (element.isTypeOnly) continue;
+        const exportedName = element.name.text;
+        const localName = (element.propertyName ?? element.name).text;
+
+        if (statement.moduleSpecifier) {
+          addReexport(exportedName, localName, reexported);
+        } else {
+          addLocal(exportedName, localName);
+        }
+      }
+    }
+  }
+
+  visiting.delete(path);
+  return [...functions.values()];
+}
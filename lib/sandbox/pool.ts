@@ -0,0 +1,220 @@
+import { createHash, randomBytes } from 'crypto';
+import { Sandbox } from '@vercel/sandbox';
+
+// Port the long-lived worker process (`node worker.js --serve`) listens on
+export const WORKER_PORT = 3000;
+
+// Warm sandboxes are recycled well before the platform stops them
+const SANDBOX_LIFETIME_MS = 30 * 60_000;
+const SERVER_READY_TIMEOUT_MS = 30_000;
+const SERVER_READY_POLL_MS = 250;
+
+export interface PoolOptions {
+  // Warm sandboxes kept per snapshot; 0 (the default) disables pooling
+  size: number;
+  // Idle sandboxes are stopped after this long without an invocation
+  idleTimeoutMs: number;
+}
+
+export interface PooledSandbox {
+  sandbox: Sandbox;
+  snapshotId: string;
+  // Snapshot plus a hash of the environment the worker process was started with
+  key: string;
+  url: string;
+  // The worker server's port is public, so every request must carry this bearer token
+  token: string;
+  busy: boolean;
+  // Overflow sandboxes (pool already full) are stopped after one use
+  pooled: boolean;
+  expiresAt: number;
+  lastUsedAt: number;
+}
+
+export function poolOptionsFromEnv(): PoolOptions {
+  return {
+    // Opt-in: warm processes keep module state between calls
+    size: Number(process.env.WORKER_POOL_SIZE ?? 0),
+    idleTimeoutMs: Number(process.env.WORKER_POOL_IDLE_MS ?? 5 * 60_000),
+  };
+}
+
+/**
+ * Keeps warm sandboxes per snapshot and environment, each running the worker in
+ * serve mode. The environment is fixed when the process starts, so changing a
+ * worker's variables moves its calls to fresh sandboxes and the old ones idle out.
+ * An invocation takes an idle sandbox when there is one and boots a new one
+ * (a cold start) otherwise; sandboxes left idle are stopped by a reaper.
+ * The pool lives in this process's memory.
+ */
+export class SandboxPool {
+  private readonly sandboxes = new Map<string, PooledSandbox[]>();
+  private readonly booting = new Map<string, number>();
+  private reaper: NodeJS.Timeout | null = null;
+
+  constructor(private readonly options: PoolOptions) {}
+
+  get enabled(): boolean {
+    return this.options.size > 0;
+  }
+
+  /**
+   * Take a sandbox for one invocation. minRemainingMs skips sandboxes that would
+   * hit their lifetime before the call could finish.
+   */
+  async acquire(
+    snapshotId: string,
+    env: Record<string, string>,
+    minRemainingMs: number,
+    signal?: AbortSignal
+  ): Promise<{ entry: PooledSandbox; coldStart: boolean }> {
+    const key = poolKey(snapshotId, env);
+    const now = Date.now();
+    for (const entry of this.entries(key)) {
+      if (!entry.busy && entry.expiresAt - now < minRemainingMs) {
+        await this.evict(entry);
+      }
+    }
+
+    const idle = this.entries(key).find((entry) => !entry.busy);
+    if (idle) {
+      idle.busy = true;
+      return { entry: idle, coldStart: false };
+    }
+
+    const booting = this.booting.get(key) ?? 0;
+    const pooled = this.entries(key).length + booting < this.options.size;
+
+    this.booting.set(key, booting + 1);
+    try {
+      const entry = await this.boot(snapshotId, key, env, pooled, signal);
+      if (pooled) {
+        this.sandboxes.set(key, [...this.entries(key), entry]);
+        this.startReaper();
+      }
+      return { entry, coldStart: true };
+    } finally {
+      this.booting.set(key, (this.booting.get(key) ?? 1) - 1);
+    }
+  }
+
+  /**
+   * Hand a sandbox back after a clean run
+   */
+  async release(entry: PooledSandbox): Promise<void> {
+    if (!entry.pooled) {
+      await entry.sandbox.stop().catch(console.error);
+      return;
+    }
+    entry.busy = false;
+    entry.lastUsedAt = Date.now();
+  }
+
+  /**
+   * Drop a sandbox that may be in a bad state (timed out, cancelled, unreachable)
+   */
+  async evict(entry: PooledSandbox): Promise<void> {
+    const remaining = this.entries(entry.key).filter((e) => e !== entry);
+    if (remaining.length > 0) {
+      this.sandboxes.set(entry.key, remaining);
+    } else {
+      this.sandboxes.delete(entry.key);
+    }
+    await entry.sandbox.stop().catch(console.error);
+  }
+
+  private entries(key: string): PooledSandbox[] {
+    return this.sandboxes.get(key) ?? [];
+  }
+
+  private async boot(
+    snapshotId: string,
+    key: string,
+    env: Record<string, string>,
+    pooled: boolean,
+    signal?: AbortSignal
+  ): Promise<PooledSandbox> {
+    const sandbox = await Sandbox.create({
+      source: { type: 'snapshot', snapshotId },
+      ports: [WORKER_PORT],
+      timeout: SANDBOX_LIFETIME_MS,
+      signal,
+    });
+
+    try {
+      const token = randomBytes(32).toString('base64url');
+      await sandbox.runCommand({
+        cmd: 'node',
+        args: ['worker.js', '--serve', String(WORKER_PORT)],
+        env: { ...env, WORKER_SERVE_TOKEN: token },
+        detached: true,
+      });
+
+      const url = sandbox.domain(WORKER_PORT);
+      await waitForServer(url, token, signal);
+
+      const now = Date.now();
+      return {
+        sandbox,
+        snapshotId,
+        key,
+        url,
+        token,
+        busy: true,
+        pooled,
+        expiresAt: now + SANDBOX_LIFETIME_MS,
+        lastUsedAt: now,
+      };
+    } catch (error) {
+      await sandbox.stop().catch(console.error);
+      throw error;
+    }
+  }
+
+  private startReaper() {
+    if (this.reaper) return;
+    this.reaper = setInterval(() => this.reapIdle(), Math.min(this.options.idleTimeoutMs, 60_000));
+    // Don't keep the process alive just to reap
+    this.reaper.unref();
+  }
+
+  private reapIdle() {
+    const cutoff = Date.now() - this.options.idleTimeoutMs;
+    for (const entries of [...this.sandboxes.values()]) {
+      for (const entry of entries) {
+        if (!entry.busy && entry.lastUsedAt < cutoff) {
+          this.evict(entry);
+        }
+      }
+    }
+
+    if (this.sandboxes.size === 0 && this.reaper) {
+      clearInterval(this.reaper);
+      this.reaper = null;
+    }
+  }
+}
+
+// Hashed so decrypted values aren't kept around as map keys
+function poolKey(snapshotId: string, env: Record<string, string>): string {
+  const entries = Object.entries(env).sort(([a], [b]) => a.localeCompare(b));
+  if (entries.length === 0) return snapshotId;
+  return `${snapshotId}:${createHash('sha256').update(JSON.stringify(entries)).digest('hex')}`;
+}
+
+async function waitForServer(url: string, token: string, signal?: AbortSignal): Promise<void> {
+  const deadline = Date.now() + SERVER_READY_TIMEOUT_MS;
+
+  while (Date.now() < deadline) {
+    signal?.throwIfAborted();
+    try {
+      const res = await fetch(`${url}/health`, { headers: { Authorization: `Bearer ${token}` }, signal });
+      if (res.ok) return;
+    } catch {
+      // Not listening yet
+    }
+    await new Promise((resolve) => setTimeout(resolve, SERVER_READY_POLL_MS));
+  }
+
+  throw new Error('Worker server did not start in time');
+}
@@ -0,0 +1,107 @@
+import { afterAll, describe, expect, test } from 'bun:test';
+import { spawnSync } from 'child_process';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { createNonce, LineBuffer, parseLogLine, parseOutcome, resultFilePath } from './protocol';
+import { generateWorkerScript } from './worker-script';
+
+const dir = mkdtempSync(join(tmpdir(), 'worker-protocol-'));
+
+afterAll(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe('parseLogLine', () => {
+  const nonce = createNonce();
+
+  test('reads a frame written by the worker console', () => {
+    expect(parseLogLine(`${nonce}{"message":"line one\\nline two"}`, nonce)).toEqual({ message: 'line one\nline two' });
+  });
+
+  test('passes other output through as raw lines', () => {
+    expect(parseLogLine('plain output', nonce)).toEqual({ message: 'plain output' });
+    const forged = `${createNonce()}{"message":"forged"}`;
+    expect(parseLogLine(forged, nonce)).toEqual({ message: forged });
+    expect(parseLogLine(`${nonce}not json`, nonce)).toEqual({ message: `${nonce}not json` });
+  });
+});
+
+describe('LineBuffer', () => {
+  test('joins lines split across chunks', () => {
+    const buffer = new LineBuffer();
+    expect(buffer.push('first\nsec')).toEqual(['first']);
+    expect(buffer.push('ond\n')).toEqual(['second']);
+    expect(buffer.push('tail')).toEqual([]);
+    expect(buffer.flush()).toEqual(['tail']);
+    expect(buffer.flush()).toEqual([]);
+  });
+});
+
+describe('parseOutcome', () => {
+  test('reads a result or an error', () => {
+    expect(parseOutcome('{"result":{"ok":true}}')).toEqual({ result: { ok: true } });
+    expect(parseOutcome('{"result":null}')).toEqual({ result: null });
+    expect(parseOutcome('{"error":{"message":"boom"}}').error?.message).toBe('boom');
+  });
+});
+
+describe('worker script', () => {
+  const { script } = generateWorkerScript({
+    'worker.ts': `
+      export function hello(payload: { name: string }) {
+        console.log('multi\\nline');
+        console.error('to stderr');
+        process.stdout.write('raw\\n');
+        console.log('RESULT:{"forged":true}');
+        return { greeting: 'hi ' + payload.name, big: 'x'.repeat(200_000) };
+      }
+      export function boom() {
+        throw new Error('it broke');
+      }
+    `,
+  }, 'worker.ts');
+  const scriptPath = join(dir, 'worker.js');
+  writeFileSync(scriptPath, script);
+
+  function run(fn: string, payload: unknown) {
+    const nonce = createNonce();
+    const resultFile = join(dir, `result-${nonce}.json`);
+    const child = spawnSync('node', [scriptPath, fn, JSON.stringify(payload)], {
+      encoding: 'utf8',
+      env: { ...process.env, WORKER_NONCE: nonce, WORKER_RESULT_FILE: resultFile },
+    });
+    const logs = (stream: string) => new LineBuffer().push(stream).map((line) => parseLogLine(line, nonce).message);
+    return {
+      exitCode: child.status,
+      stdout: logs(child.stdout),
+      stderr: logs(child.stderr),
+      outcome: parseOutcome(readFileSync(resultFile, 'utf8')),
+    };
+  }
+
+  test('writes the result to the result file and frames console calls', () => {
+    const { exitCode, stdout, stderr, outcome } = run('hello', { name: 'Ada' });
+
+    expect(exitCode).toBe(0);
+    expect(outcome.result).toEqual({ greeting: 'hi Ada', big: 'x'.repeat(200_000) });
+    expect(stdout).toEqual(['multi\nline', 'raw', 'RESULT:{"forged":true}']);
+    expect(stderr).toEqual(['to stderr']);
+  });
+
+  test('writes a thrown error to the result file', () => {
+    const { exitCode, outcome } = run('boom', {});
+
+    expect(exitCode).toBe(1);
+    expect(outcome.result).toBeUndefined();
+    expect(outcome.error?.message).toBe('it broke');
+  });
+
+  test('reports an unknown function', () => {
+    expect(run('missing', {}).outcome.error?.message).toBe("Function 'missing' not found. Available: hello, boom");
+  });
+
+  test('names result files after the run nonce', () => {
+    expect(resultFilePath('abc')).toBe('/tmp/worker-result-abc.json');
+  });
+});
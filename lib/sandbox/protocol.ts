@@ -0,0 +1,101 @@
+import { randomBytes } from 'crypto';
+
+/**
+ * Wire format between the generated worker script and SandboxClient.
+ *
+ * One-shot runs write the outcome to a result file instead of stdout, so any
+ * size of result comes back intact and nothing in the logs can be mistaken for
+ * it. Console calls are written as frames - a per-run nonce followed by a
+ * LogRecord as JSON on one line - so a multi-line message stays one log entry;
+ * anything else the process prints is passed through line by line.
+ */
+
+// An error thrown by a worker function, as serialized by the worker script
+export interface WorkerError {
+  name: string;
+  message: string;
+  stack?: string;
+  cause?: WorkerError;
+  // Custom own properties (e.g. `code`, `statusCode`)
+  properties?: Record<string, unknown>;
+}
+
+// Contents of the result file: exactly one of result or error
+export interface WorkerOutcome {
+  result?: unknown;
+  error?: WorkerError;
+}
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+// One console call, recorded inside the sandbox
+export interface LogRecord {
+  level: LogLevel;
+  // The arguments formatted the way console would print them
+  message: string;
+  // The arguments themselves, made JSON-safe (errors serialized like thrown ones)
+  args: unknown[];
+  // Sandbox clock at the time of the call
+  timestamp: number;
+  // Structured fields attached with console.withFields({ ... })
+  fields?: Record<string, unknown>;
+}
+
+// A line of output: a full record for console frames, only the message for raw output
+export type LogFrame = Partial<LogRecord> & Pick<LogRecord, 'message'>;
+
+// Messages a worker in serve mode streams back, one JSON object per line
+export type ServerMessage =
+  | ({ type: 'log'; stream: 'stdout' | 'stderr' } & LogRecord)
+  | { type: 'result'; result: unknown }
+  | { type: 'error'; error: WorkerError };
+
+export function createNonce(): string {
+  return randomBytes(12).toString('hex');
+}
+
+export function resultFilePath(nonce: string): string {
+  return `/tmp/worker-result-${nonce}.json`;
+}
+
+export function parseOutcome(raw: string): WorkerOutcome {
+  const outcome = JSON.parse(raw) as WorkerOutcome;
+  if (outcome.error) {
+    return { error: outcome.error };
+  }
+  return { result: outcome.result };
+}
+
+/**
+ * Read one output line: a frame written by the worker's console, or raw output
+ */
+export function parseLogLine(line: string, nonce: string): LogFrame {
+  if (line.startsWith(nonce)) {
+    try {
+      return JSON.parse(line.slice(nonce.length)) as LogFrame;
+    } catch {
+      // Not a frame after all - fall through to raw output
+    }
+  }
+  return { message: line };
+}
+
+/**
+ * Reassemble lines from output that arrives in arbitrary chunks
+ */
+export class LineBuffer {
+  private buffer = '';
+
+  push(chunk: string): string[] {
+    this.buffer += chunk;
+    const lines = this.buffer.split('\n');
+    this.buffer = lines.pop() || '';
+    return lines;
+  }
+
+  flush(): string[] {
+    const rest = this.buffer;
+    this.buffer = '';
+    return rest ? [rest] : [];
+  }
+}
@@ -0,0 +1,76 @@
+import { describe, expect, test } from 'bun:test';
+import ts from 'typescript';
+import { patternProblem, readDeclaredSchemas } from './schema';
+import { TranspileError } from './transpile';
+
+function read(code: string) {
+  return readDeclaredSchemas(ts.createSourceFile('worker.ts', code, ts.ScriptTarget.ES2022, true));
+}
+
+function problemOf(schemas: string): string | undefined {
+  try {
+    read(`export function charge() {}\nexport const schemas = ${schemas};`);
+  } catch (error) {
+    if (error instanceof TranspileError) return error.diagnostics[0].message;
+    throw error;
+  }
+}
+
+describe('readDeclaredSchemas', () => {
+  test('reads the schemas export', () => {
+    expect(read(`
+      export const schemas = {
+        charge: {
+          input: { type: 'object', properties: { id: { type: 'string', pattern: '^ch_\\\\w+$' } }, required: ['id'] },
+          output: { anyOf: [{ type: 'boolean' }, { type: ['null'] }] },
+        },
+      } as const;
+    `)).toEqual({
+      charge: {
+        input: { type: 'object', properties: { id: { type: 'string', pattern: '^ch_\\w+$' } }, required: ['id'] },
+        output: { anyOf: [{ type: 'boolean' }, { type: ['null'] }] },
+      },
+    });
+    expect(read('export function charge() {}')).toBeNull();
+  });
+
+  test('reports schemas that are not JSON literals at their position', () => {
+    expect(() => read('const id = {};\nexport const schemas = { charge: { input: id } };')).toThrow(
+      'worker.ts:2:43 - schemas must be a JSON literal (no variables, calls or expressions)'
+    );
+  });
+
+  test.each([
+    ['{ charge: { input: [] } }', 'schemas.charge.input must be a schema object'],
+    ['{ charge: { inputs: {} } }', 'schemas.charge.inputs must be input or output'],
+    ["{ charge: { input: { type: 'date' } } }", 'schemas.charge.input.type must be one of string, number, integer, boolean, null, object, array, or an array of them'],
+    ["{ charge: { input: { required: 'id' } } }", 'schemas.charge.input.required must be an array of property names'],
+    ["{ charge: { input: { properties: { id: { minLength: '1' } } } } }", 'schemas.charge.input.properties.id.minLength must be a number'],
+    ["{ charge: { output: { properties: ['id'] } } }", 'schemas.charge.output.properties must map property names to schemas'],
+    ["{ charge: { output: { items: { oneOf: [{ type: 'string' }, 1] } } } }", 'schemas.charge.output.items.oneOf[1] must be a schema object'],
+    ["{ charge: { input: { additionalProperties: { pattern: '(' } } } }", 'schemas.charge.input.additionalProperties.pattern is not a valid regular expression: '],
+    ["{ charge: { input: { pattern: '^(a+)+$' } } }", 'schemas.charge.input.pattern must not repeat a group that already repeats, e.g. (a+)+'],
+  ])('rejects %s', (schemas, message) => {
+    // The engine's own wording follows for invalid regular expressions
+    expect(problemOf(schemas)).toStartWith(message);
+  });
+});
+
+describe('patternProblem', () => {
+  test('accepts patterns without nested repetition', () => {
+    for (const pattern of ['^[a-z]+$', '^(ab)+$', '^(?:a|b)?c*$', '^(\\d{3})-\\d{4}$', '^([+*]x)+$', '^(a?){1}b+$']) {
+      expect(patternProblem(pattern)).toBeNull();
+    }
+  });
+
+  test('rejects groups that repeat something repeating', () => {
+    for (const pattern of ['^(a+)+$', '(\\w*\\s?)*', '^(?:x(ab){2,})*$', '((a)+b){2,5}']) {
+      expect(patternProblem(pattern)).toBe('must not repeat a group that already repeats, e.g. (a+)+');
+    }
+  });
+
+  test('rejects non-strings and very long patterns', () => {
+    expect(patternProblem(1)).toBe('must be a string');
+    expect(patternProblem('a'.repeat(1001))).toBe('must NOT be longer than 1000 characters');
+  });
+});
@@ -0,0 +1,421 @@
+import ts from 'typescript';
+import { TranspileError } from './transpile';
+
+export type JsonSchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'null' | 'object' | 'array';
+
+/**
+ * The subset of JSON Schema that payloads and results are validated against
+ */
+export interface JsonSchema {
+  type?: JsonSchemaType | JsonSchemaType[];
+  description?: string;
+  enum?: unknown[];
+  const?: unknown;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  minLength?: number;
+  maxLength?: number;
+  pattern?: string;
+  minimum?: number;
+  maximum?: number;
+  exclusiveMinimum?: number;
+  exclusiveMaximum?: number;
+  anyOf?: JsonSchema[];
+  oneOf?: JsonSchema[];
+  allOf?: JsonSchema[];
+}
+
+// Schemas declared by hand in the entry file's `schemas` export
+export type DeclaredSchemas = Record<string, { input?: JsonSchema; output?: JsonSchema }>;
+
+type TypeDeclaration = ts.InterfaceDeclaration | ts.TypeAliasDeclaration;
+
+/**
+ * Derives JSON Schemas from the TypeScript types in one file.
+ *
+ * Covers primitives, literals, arrays, object types, unions, intersections,
+ * Record and Promise, and interfaces or type aliases declared in the same file.
+ * Anything else (imported or generic types, classes) becomes `{}`, which accepts
+ * any value.
+ */
+export class TypeSchemaDeriver {
+  private readonly declarations = new Map<string, TypeDeclaration>();
+
+  constructor(private readonly sourceFile: ts.SourceFile) {
+    for (const statement of sourceFile.statements) {
+      if (ts.isInterfaceDeclaration(statement) || ts.isTypeAliasDeclaration(statement)) {
+        this.declarations.set(statement.name.text, statement);
+      }
+    }
+  }
+
+  /**
+   * Schema for a function's payload parameter, or null when it accepts anything
+   */
+  input(type: ts.TypeNode | undefined): JsonSchema | null {
+    return type ? orNull(this.derive(type, new Set())) : null;
+  }
+
+  /**
+   * Schema for a function's return value - Promise<T> is unwrapped, void is no schema
+   */
+  output(type: ts.TypeNode | undefined): JsonSchema | null {
+    if (!type) return null;
+    const unwrapped = ts.isTypeReferenceNode(type) && typeName(type) === 'Promise' && type.typeArguments?.length === 1
+      ? type.typeArguments[0]
+      : type;
+    if (unwrapped.kind === ts.SyntaxKind.VoidKeyword || unwrapped.kind === ts.SyntaxKind.UndefinedKeyword) {
+      return null;
+    }
+    return orNull(this.derive(unwrapped, new Set()));
+  }
+
+  private derive(node: ts.TypeNode, seen: Set<string>): JsonSchema {
+    switch (node.kind) {
+      case ts.SyntaxKind.StringKeyword:
+        return { type: 'string' };
+      case ts.SyntaxKind.NumberKeyword:
+        return { type: 'number' };
+      case ts.SyntaxKind.BooleanKeyword:
+        return { type: 'boolean' };
+      case ts.SyntaxKind.NullKeyword:
+        return { type: 'null' };
+      case ts.SyntaxKind.ObjectKeyword:
+        return { type: 'object' };
+    }
+
+    if (ts.isParenthesizedTypeNode(node)) {
+      return this.derive(node.type, seen);
+    }
+
+    if (ts.isLiteralTypeNode(node)) {
+      const value = literalTypeValue(node);
+      return value === undefined ? {} : value === null ? { type: 'null' } : { const: value };
+    }
+
+    if (ts.isArrayTypeNode(node)) {
+      return { type: 'array', items: this.derive(node.elementType, seen) };
+    }
+
+    if (ts.isTupleTypeNode(node)) {
+      return { type: 'array' };
+    }
+
+    if (ts.isTypeLiteralNode(node)) {
+      return this.deriveMembers(node.members, seen);
+    }
+
+    if (ts.isUnionTypeNode(node)) {
+      return this.deriveUnion(node, seen);
+    }
+
+    if (ts.isIntersectionTypeNode(node)) {
+      return { allOf: node.types.map((type) => this.derive(type, seen)) };
+    }
+
+    if (ts.isTypeReferenceNode(node)) {
+      return this.deriveReference(node, seen);
+    }
+
+    return {};
+  }
+
+  private deriveUnion(node: ts.UnionTypeNode, seen: Set<string>): JsonSchema {
+    // `T | undefined` only makes a property optional
+    const types = node.types.filter((type) => type.kind !== ts.SyntaxKind.UndefinedKeyword);
+    if (types.length === 1) return this.derive(types[0], seen);
+
+    const schemas = types.map((type) => this.derive(type, seen));
+    // Unconstrained members make the whole union unconstrained
+    if (schemas.some((schema) => Object.keys(schema).length === 0)) return {};
+
+    // 'a' | 'b' | 'c' reads better as an enum
+    if (schemas.every((schema) => 'const' in schema)) {
+      return { enum: schemas.map((schema) => schema.const) };
+    }
+
+    return { anyOf: schemas };
+  }
+
+  private deriveReference(node: ts.TypeReferenceNode, seen: Set<string>): JsonSchema {
+    const name = typeName(node);
+    const args = node.typeArguments ?? [];
+
+    if ((name === 'Array' || name === 'ReadonlyArray') && args.length === 1) {
+      return { type: 'array', items: this.derive(args[0], seen) };
+    }
+    if (name === 'Record' && args.length === 2) {
+      return { type: 'object', additionalProperties: this.derive(args[1], seen) };
+    }
+    if ((name === 'Promise' || name === 'Readonly') && args.length === 1) {
+      return this.derive(args[0], seen);
+    }
+
+    const declaration = this.declarations.get(name);
+    // Recursive types are only expanded once
+    if (!declaration || seen.has(name) || (declaration.typeParameters?.length ?? 0) > 0) {
+      return {};
+    }
+
+    const nested = new Set(seen).add(name);
+    if (ts.isTypeAliasDeclaration(declaration)) {
+      return this.derive(declaration.type, nested);
+    }
+
+    const own = this.deriveMembers(declaration.members, nested);
+    const bases = (declaration.heritageClauses ?? [])
+      .flatMap((clause) => clause.types)
+      .map((base) => ts.factory.createTypeReferenceNode(base.expression.getText(this.sourceFile), base.typeArguments))
+      .map((base) => this.deriveReference(base, nested));
+
+    return bases.length > 0 ? { allOf: [...bases, own] } : own;
+  }
+
+  private deriveMembers(members: ts.NodeArray<ts.TypeElement>, seen: Set<string>): JsonSchema {
+    const properties: Record<string, JsonSchema> = {};
+    const required: string[] = [];
+    let additionalProperties: JsonSchema | undefined;
+
+    for (const member of members) {
+      if (ts.isPropertySignature(member) && member.type) {
+        const name = propertyName(member.name);
+        if (name === null) continue;
+
+        const optional = !!member.questionToken ||
+          (ts.isUnionTypeNode(member.type) && member.type.types.some((t) => t.kind === ts.SyntaxKind.UndefinedKeyword));
+        properties[name] = this.derive(member.type, seen);
+        if (!optional) required.push(name);
+      } else if (ts.isIndexSignatureDeclaration(member)) {
+        additionalProperties = this.derive(member.type, seen);
+      }
+    }
+
+    const schema: JsonSchema = { type: 'object', properties };
+    if (required.length > 0) schema.required = required;
+    if (additionalProperties) schema.additionalProperties = additionalProperties;
+    return schema;
+  }
+}
+
+function orNull(schema: JsonSchema): JsonSchema | null {
+  return Object.keys(schema).length > 0 ? schema : null;
+}
+
+function typeName(node: ts.TypeReferenceNode): string {
+  return ts.isIdentifier(node.typeName) ? node.typeName.text : node.typeName.right.text;
+}
+
+function propertyName(name: ts.PropertyName): string | null {
+  if (ts.isIdentifier(name) || ts.isStringLiteral(name) || ts.isNumericLiteral(name)) {
+    return name.text;
+  }
+  return null;
+}
+
+function literalTypeValue(node: ts.LiteralTypeNode): string | number | boolean | null | undefined {
+  const literal = node.literal;
+  if (ts.isStringLiteral(literal)) return literal.text;
+  if (ts.isNumericLiteral(literal)) return Number(literal.text);
+  if (ts.isPrefixUnaryExpression(literal) && ts.isNumericLiteral(literal.operand)) {
+    return literal.operator === ts.SyntaxKind.MinusToken ? -Number(literal.operand.text) : Number(literal.operand.text);
+  }
+  if (literal.kind === ts.SyntaxKind.TrueKeyword) return true;
+  if (literal.kind === ts.SyntaxKind.FalseKeyword) return false;
+  if (literal.kind === ts.SyntaxKind.NullKeyword) return null;
+  return undefined;
+}
+
+/**
+ * Read `export const schemas = { fn: { input: {...}, output: {...} } }` from a file.
+ * The object is read from the source rather than run, so it must be a plain JSON
+ * literal; anything else is reported as a compile error at its position.
+ */
+export function readDeclaredSchemas(sourceFile: ts.SourceFile): DeclaredSchemas | null {
+  for (const statement of sourceFile.statements) {
+    if (!ts.isVariableStatement(statement)) continue;
+    if (!(ts.getModifiers(statement) ?? []).some((m) => m.kind === ts.SyntaxKind.ExportKeyword)) continue;
+
+    for (const declaration of statement.declarationList.declarations) {
+      if (!ts.isIdentifier(declaration.name) || declaration.name.text !== 'schemas' || !declaration.initializer) {
+        continue;
+      }
+
+      const value = literalToJson(declaration.initializer, sourceFile);
+      if (!isPlainObject(value) || !Object.values(value).every(isPlainObject)) {
+        throw schemaError(declaration.initializer, sourceFile, 'schemas must map function names to { input, output } schemas');
+      }
+
+      for (const [name, declared] of Object.entries(value as Record<string, Record<string, unknown>>)) {
+        for (const [key, schema] of Object.entries(declared)) {
+          const problem = key === 'input' || key === 'output'
+            ? schemaProblem(schema, `schemas.${name}.${key}`)
+            : `schemas.${name}.${key} must be input or output`;
+          if (problem) throw schemaError(declaration.initializer, sourceFile, problem);
+        }
+      }
+      return value as DeclaredSchemas;
+    }
+  }
+
+  return null;
+}
+
+function literalToJson(node: ts.Expression, sourceFile: ts.SourceFile): unknown {
+  if (ts.isParenthesizedExpression(node) || ts.isAsExpression(node) || ts.isSatisfiesExpression(node)) {
+    return literalToJson(node.expression, sourceFile);
+  }
+  if (ts.isStringLiteral(node) || ts.isNoSubstitutionTemplateLiteral(node)) return node.text;
+  if (ts.isNumericLiteral(node)) return Number(node.text);
+  if (ts.isPrefixUnaryExpression(node) && node.operator === ts.SyntaxKind.MinusToken && ts.isNumericLiteral(node.operand)) {
+    return -Number(node.operand.text);
+  }
+  if (node.kind === ts.SyntaxKind.TrueKeyword) return true;
+  if (node.kind === ts.SyntaxKind.FalseKeyword) return false;
+  if (node.kind === ts.SyntaxKind.NullKeyword) return null;
+
+  if (ts.isArrayLiteralExpression(node)) {
+    return node.elements.map((element) => literalToJson(element, sourceFile));
+  }
+
+  if (ts.isObjectLiteralExpression(node)) {
+    const object: Record<string, unknown> = {};
+    for (const property of node.properties) {
+      const name = ts.isPropertyAssignment(property) ? propertyName(property.name) : null;
+      if (!ts.isPropertyAssignment(property) || name === null) {
+        throw schemaError(property, sourceFile, 'schemas may only contain plain properties');
+      }
+      object[name] = literalToJson(property.initializer, sourceFile);
+    }
+    return object;
+  }
+
+  throw schemaError(node, sourceFile, 'schemas must be a JSON literal (no variables, calls or expressions)');
+}
+
+const SCHEMA_TYPES: JsonSchemaType[] = ['string', 'number', 'integer', 'boolean', 'null', 'object', 'array'];
+const NUMBER_KEYWORDS = [
+  'minItems', 'maxItems', 'minLength', 'maxLength', 'minimum', 'maximum', 'exclusiveMinimum', 'exclusiveMaximum',
+] as const;
+const MAX_PATTERN_LENGTH = 1000;
+
+/**
+ * Check that a declared schema has the shape the validator expects.
+ * Returns the first problem found, or null when the schema is usable.
+ */
+function schemaProblem(schema: unknown, path: string): string | null {
+  if (!isPlainObject(schema)) return `${path} must be a schema object`;
+
+  if (schema.type !== undefined) {
+    const types = Array.isArray(schema.type) ? schema.type : [schema.type];
+    if (types.length === 0 || !types.every((type) => SCHEMA_TYPES.includes(type as JsonSchemaType))) {
+      return `${path}.type must be one of ${SCHEMA_TYPES.join(', ')}, or an array of them`;
+    }
+  }
+  if (schema.required !== undefined &&
+    !(Array.isArray(schema.required) && schema.required.every((key) => typeof key === 'string'))) {
+    return `${path}.required must be an array of property names`;
+  }
+  if (schema.enum !== undefined && !Array.isArray(schema.enum)) {
+    return `${path}.enum must be an array`;
+  }
+  for (const keyword of NUMBER_KEYWORDS) {
+    if (schema[keyword] !== undefined && typeof schema[keyword] !== 'number') {
+      return `${path}.${keyword} must be a number`;
+    }
+  }
+  if (schema.pattern !== undefined) {
+    const problem = patternProblem(schema.pattern);
+    if (problem) return `${path}.pattern ${problem}`;
+  }
+
+  const children: [unknown, string][] = [];
+  if (schema.properties !== undefined) {
+    if (!isPlainObject(schema.properties)) return `${path}.properties must map property names to schemas`;
+    for (const [key, child] of Object.entries(schema.properties)) children.push([child, `${path}.properties.${key}`]);
+  }
+  if (schema.items !== undefined) children.push([schema.items, `${path}.items`]);
+  if (schema.additionalProperties !== undefined && typeof schema.additionalProperties !== 'boolean') {
+    children.push([schema.additionalProperties, `${path}.additionalProperties`]);
+  }
+  for (const keyword of ['anyOf', 'oneOf', 'allOf'] as const) {
+    const subs = schema[keyword];
+    if (subs === undefined) continue;
+    if (!Array.isArray(subs)) return `${path}.${keyword} must be an array of schemas`;
+    subs.forEach((sub, i) => children.push([sub, `${path}.${keyword}[${i}]`]));
+  }
+
+  for (const [child, childPath] of children) {
+    const problem = schemaProblem(child, childPath);
+    if (problem) return problem;
+  }
+  return null;
+}
+
+/**
+ * Check a `pattern` keyword. Patterns are matched in the API process, so besides
+ * compiling they may not repeat a group that itself repeats, e.g. (a+)+, which
+ * can make a single match backtrack for minutes.
+ */
+export function patternProblem(pattern: unknown): string | null {
+  if (typeof pattern !== 'string') return 'must be a string';
+  if (pattern.length > MAX_PATTERN_LENGTH) return `must NOT be longer than ${MAX_PATTERN_LENGTH} characters`;
+  try {
+    new RegExp(pattern, 'u');
+  } catch (error) {
+    return `is not a valid regular expression: ${(error as Error).message}`;
+  }
+  if (hasNestedRepetition(pattern)) return 'must not repeat a group that already repeats, e.g. (a+)+';
+  return null;
+}
+
+function hasNestedRepetition(pattern: string): boolean {
+  // One entry per open group: whether anything inside it repeats
+  const groups: boolean[] = [];
+  let inClass = false;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    if (char === '\\') {
+      i++;
+    } else if (inClass) {
+      inClass = char !== ']';
+    } else if (char === '[') {
+      inClass = true;
+    } else if (char === '(') {
+      groups.push(false);
+      // Skip the ? of (?:, (?= and friends so it isn't read as a quantifier
+      if (pattern[i + 1] === '?') i++;
+    } else if (char === ')') {
+      const inner = groups.pop() ?? false;
+      const repeated = repeatsAt(pattern, i + 1);
+      if (inner && repeated) return true;
+      if ((inner || repeated) && groups.length > 0) groups[groups.length - 1] = true;
+    } else if (repeatsAt(pattern, i) && groups.length > 0) {
+      groups[groups.length - 1] = true;
+    }
+  }
+
+  return false;
+}
+
+// *, + and {n,m} with m > 1 repeat; ? and {0,1} only make things optional
+function repeatsAt(pattern: string, i: number): boolean {
+  if (pattern[i] === '*' || pattern[i] === '+') return true;
+  const range = /^\{(\d+)(,(\d*))?\}/.exec(pattern.slice(i));
+  if (!range) return false;
+  const max = range[2] === undefined ? Number(range[1]) : range[3] === '' ? Infinity : Number(range[3]);
+  return max > 1;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function schemaError(node: ts.Node, sourceFile: ts.SourceFile, message: string): TranspileError {
+  const { line, character } = sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile));
+  return new TranspileError([{ file: sourceFile.fileName, line: line + 1, column: character + 1, message }]);
+}
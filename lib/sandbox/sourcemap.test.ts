@@ -0,0 +1,123 @@
+import { afterAll, describe, expect, test } from 'bun:test';
+import { spawnSync } from 'child_process';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { createNonce, parseOutcome, WorkerError } from './protocol';
+import { decodeMappings, mapPosition, mapWorkerError, WorkerSourceMap } from './sourcemap';
+import { generateWorkerScript } from './worker-script';
+
+const dir = mkdtempSync(join(tmpdir(), 'worker-sourcemap-'));
+
+afterAll(() => {
+  rmSync(dir, { recursive: true, force: true });
+});
+
+describe('decodeMappings', () => {
+  test('decodes VLQ segments with positions relative to the previous segment', () => {
+    // Line 1: column 0 -> 0:0, column 4 -> 0:4; line 2: column 2 -> 1:2; line 3 has no segments
+    expect(decodeMappings('AAAA,IAAI;EACF;')).toEqual([
+      [[0, 0, 0], [4, 0, 4]],
+      [[2, 1, 2]],
+      [],
+    ]);
+  });
+
+  test('skips segments without a source position', () => {
+    expect(decodeMappings('A,CAAC')).toEqual([[[1, 0, 1]]]);
+  });
+});
+
+describe('mapPosition', () => {
+  const sourceMap: WorkerSourceMap = [
+    { path: 'worker.ts', startLine: 10, lineCount: 2, mappings: 'AAAA,IAAI;EACF' },
+    { path: 'data.json', startLine: 20, lineCount: 5, mappings: '' },
+  ];
+
+  test('maps to the closest segment at or before the column', () => {
+    expect(mapPosition(sourceMap, 10, 1)).toEqual({ file: 'worker.ts', line: 1, column: 1 });
+    expect(mapPosition(sourceMap, 10, 9)).toEqual({ file: 'worker.ts', line: 1, column: 5 });
+    expect(mapPosition(sourceMap, 11, 1)).toEqual({ file: 'worker.ts', line: 2, column: 3 });
+  });
+
+  test('keeps line numbers of JSON modules', () => {
+    expect(mapPosition(sourceMap, 22, 4)).toEqual({ file: 'data.json', line: 3, column: 4 });
+  });
+
+  test('returns null outside user modules', () => {
+    expect(mapPosition(sourceMap, 5, 1)).toBeNull();
+    expect(mapPosition(sourceMap, 12, 1)).toBeNull();
+  });
+});
+
+describe('mapWorkerError', () => {
+  test('rewrites frames in a thrown error and its cause to the user source', () => {
+    const files = {
+      'worker.ts': [
+        "import { check } from './lib/check';",
+        '',
+        'export function run(payload: { value: number }) {',
+        '  try {',
+        '    return check(payload.value);',
+        '  } catch (error) {',
+        "    throw new Error('run failed', { cause: error });",
+        '  }',
+        '}',
+      ].join('\n'),
+      'lib/check.ts': [
+        'interface Limits { max: number }',
+        'const limits: Limits = { max: 10 };',
+        '',
+        'export function check(value: number): number {',
+        "  if (value > limits.max) throw new RangeError('too big');",
+        '  return value;',
+        '}',
+      ].join('\n'),
+    };
+    const { script, sourceMap } = generateWorkerScript(files, 'worker.ts');
+    const scriptPath = join(dir, 'worker.js');
+    writeFileSync(scriptPath, script);
+
+    const resultFile = join(dir, 'result.json');
+    spawnSync('node', [scriptPath, 'run', '{"value":11}'], {
+      env: { ...process.env, WORKER_NONCE: createNonce(), WORKER_RESULT_FILE: resultFile },
+    });
+    const { error } = parseOutcome(readFileSync(resultFile, 'utf8'));
+
+    const mapped = mapWorkerError(error!, sourceMap);
+    expect(mapped.message).toBe('run failed');
+    expect(mapped.frames[0]).toEqual({ function: 'run', file: 'worker.ts', line: 7, column: 11, userCode: true });
+    expect(mapped.stack).toContain('at run (worker.ts:7:11)');
+
+    expect(mapped.cause?.name).toBe('RangeError');
+    expect(mapped.cause?.frames.slice(0, 2)).toEqual([
+      { function: 'check', file: 'lib/check.ts', line: 5, column: 33, userCode: true },
+      { function: 'run', file: 'worker.ts', line: 5, column: 17, userCode: true },
+    ]);
+  });
+
+  test('leaves frames outside worker.js as they are', () => {
+    const error: WorkerError = {
+      name: 'Error',
+      message: 'boom',
+      stack: 'Error: boom\n    at process.processTicksAndRejections (node:internal/process/task_queues:95:5)\n    at /app/node_modules/pkg/index.js:3:9',
+    };
+
+    const mapped = mapWorkerError(error, []);
+    expect(mapped.stack).toBe(error.stack!);
+    expect(mapped.frames).toEqual([
+      { function: 'process.processTicksAndRejections', file: 'node:internal/process/task_queues', line: 95, column: 5, userCode: false },
+      { function: null, file: '/app/node_modules/pkg/index.js', line: 3, column: 9, userCode: false },
+    ]);
+  });
+
+  test('keeps errors without a stack', () => {
+    expect(mapWorkerError({ name: 'Error', message: 'no stack' }, [])).toEqual({
+      name: 'Error',
+      message: 'no stack',
+      stack: undefined,
+      frames: [],
+      cause: undefined,
+    });
+  });
+});
@@ -0,0 +1,147 @@
+import type { WorkerError } from './protocol';
+
+/**
+ * Where one user module sits inside the generated worker.js, with the
+ * transpiler's mappings back to the original file
+ */
+export interface ModuleSourceMap {
+  path: string;
+  // 1-based line in worker.js where the module's code starts
+  startLine: number;
+  lineCount: number;
+  mappings: string;
+}
+
+export type WorkerSourceMap = ModuleSourceMap[];
+
+export interface StackFrame {
+  function: string | null;
+  file: string;
+  line: number;
+  column: number;
+  // True when the frame points into the user's own source
+  userCode: boolean;
+}
+
+// A worker error with its stack rewritten to the user's original files
+export interface MappedWorkerError extends Omit<WorkerError, 'cause'> {
+  frames: StackFrame[];
+  cause?: MappedWorkerError;
+}
+
+const BASE64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+
+// [generatedColumn, originalLine, originalColumn], all 0-based
+type Segment = [number, number, number];
+
+/**
+ * Decode a source map `mappings` string into segments per generated line
+ */
+export function decodeMappings(mappings: string): Segment[][] {
+  const lines: Segment[][] = [];
+  let originalLine = 0;
+  let originalColumn = 0;
+
+  for (const line of mappings.split(';')) {
+    const segments: Segment[] = [];
+    let generatedColumn = 0;
+
+    for (const encoded of line.split(',')) {
+      if (!encoded) continue;
+      const fields = decodeVLQ(encoded);
+      generatedColumn += fields[0];
+      // Segments without a source position map to nothing
+      if (fields.length < 4) continue;
+      originalLine += fields[2];
+      originalColumn += fields[3];
+      segments.push([generatedColumn, originalLine, originalColumn]);
+    }
+
+    lines.push(segments);
+  }
+
+  return lines;
+}
+
+function decodeVLQ(encoded: string): number[] {
+  const values: number[] = [];
+  let value = 0;
+  let shift = 0;
+
+  for (const char of encoded) {
+    const digit = BASE64.indexOf(char);
+    value += (digit & 31) << shift;
+    if (digit & 32) {
+      shift += 5;
+    } else {
+      values.push(value & 1 ? -(value >>> 1) : value >>> 1);
+      value = 0;
+      shift = 0;
+    }
+  }
+
+  return values;
+}
+
+/**
+ * Map a 1-based worker.js position to a 1-based position in the user's source
+ */
+export function mapPosition(
+  sourceMap: WorkerSourceMap,
+  line: number,
+  column: number
+): { file: string; line: number; column: number } | null {
+  const entry = sourceMap.find((m) => line >= m.startLine && line < m.startLine + m.lineCount);
+  if (!entry) return null;
+
+  const generatedLine = line - entry.startLine;
+  // JSON modules have no mappings - their lines line up with the file
+  if (!entry.mappings) {
+    return { file: entry.path, line: generatedLine + 1, column };
+  }
+
+  const segments = decodeMappings(entry.mappings)[generatedLine] ?? [];
+  let match: Segment | undefined;
+  for (const segment of segments) {
+    if (segment[0] > column - 1) break;
+    match = segment;
+  }
+  match ??= segments[0];
+  if (!match) return null;
+
+  return { file: entry.path, line: match[1] + 1, column: match[2] + 1 };
+}
+
+// "    at fn (/path/worker.js:12:5)" or "    at /path/worker.js:12:5"
+const FRAME_PATTERN = /^\s*at (?:(.+?) \()?(.+?):(\d+):(\d+)\)?$/;
+
+/**
+ * Rewrite a worker error's stack (and its causes) to point at the user's source
+ */
+export function mapWorkerError(error: WorkerError, sourceMap: WorkerSourceMap): MappedWorkerError {
+  const frames: StackFrame[] = [];
+  const stackLines = (error.stack ?? '').split('\n').map((stackLine) => {
+    const match = stackLine.match(FRAME_PATTERN);
+    if (!match) return stackLine;
+
+    const [, fn, file, line, column] = match;
+    const mapped = file.endsWith('worker.js')
+      ? mapPosition(sourceMap, Number(line), Number(column))
+      : null;
+
+    const frame: StackFrame = mapped
+      ? { function: fn ?? null, ...mapped, userCode: true }
+      : { function: fn ?? null, file, line: Number(line), column: Number(column), userCode: false };
+    frames.push(frame);
+
+    const location = `${frame.file}:${frame.line}:${frame.column}`;
+    return `    at ${fn ? `${fn} (${location})` : location}`;
+  });
+
+  return {
+    ...error,
+    stack: error.stack === undefined ? undefined : stackLines.join('\n'),
+    frames,
+    cause: error.cause ? mapWorkerError(error.cause, sourceMap) : undefined,
+  };
+}
@@ -0,0 +1,82 @@
+import ts from 'typescript';
+
+export interface CompileDiagnostic {
+  file: string;
+  line: number;
+  column: number;
+  message: string;
+}
+
+/**
+ * Thrown when user code cannot be transpiled.
+ * Carries source-aware diagnostics (1-based line/column) for the API response.
+ */
+export class TranspileError extends Error {
+  readonly diagnostics: CompileDiagnostic[];
+
+  constructor(diagnostics: CompileDiagnostic[]) {
+    const first = diagnostics[0];
+    super(
+      first
+        ? `${first.file}:${first.line}:${first.column} - ${first.message}`
+        : 'Failed to compile worker code'
+    );
+    this.name = 'TranspileError';
+    this.diagnostics = diagnostics;
+  }
+}
+
+export interface TranspileOutput {
+  code: string;
+  // Source map `mappings` (VLQ) from the output back to the original file
+  mappings: string;
+}
+
+const compilerOptions: ts.CompilerOptions = {
+  target: ts.ScriptTarget.ES2022,
+  module: ts.ModuleKind.CommonJS,
+  esModuleInterop: true,
+  removeComments: false,
+  sourceMap: true,
+};
+
+/**
+ * Convert a TypeScript diagnostic into a plain object with 1-based positions
+ */
+function toCompileDiagnostic(diagnostic: ts.Diagnostic, fileName: string): CompileDiagnostic {
+  const message = ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n');
+
+  if (!diagnostic.file || diagnostic.start === undefined) {
+    return { file: fileName, line: 1, column: 1, message };
+  }
+
+  const { line, character } = diagnostic.file.getLineAndCharacterOfPosition(diagnostic.start);
+  return { file: fileName, line: line + 1, column: character + 1, message };
+}
+
+/**
+ * Transpile user TypeScript into CommonJS JavaScript that runs on the sandbox's Node runtime.
+ * Uses the real TypeScript compiler, so anything that parses in an editor transpiles here.
+ * Throws a TranspileError with line/column diagnostics on syntax errors.
+ */
+export function transpileWorkerCode(code: string, fileName = 'worker.ts'): TranspileOutput {
+  const output = ts.transpileModule(code, {
+    compilerOptions,
+    fileName,
+    reportDiagnostics: true,
+  });
+
+  const errors = (output.diagnostics ?? []).filter(
+    (d) => d.category === ts.DiagnosticCategory.Error
+  );
+
+  if (errors.length > 0) {
+    throw new TranspileError(errors.map((d) => toCompileDiagnostic(d, fileName)));
+  }
+
+  return {
+    // The map is kept alongside the version, not referenced from the code
+    code: output.outputText.replace(/\n\/\/# sourceMappingURL=.*\s*$/, ''),
+    mappings: output.sourceMapText ? JSON.parse(output.sourceMapText).mappings : '',
+  };
+}
@@ -1,117 +1,37 @@
-/**
- * Parse user code to extract exported function names
- * Reused from the original generator with the same patterns
- */
-export function extractFunctionNames(code: string): string[] {
-  const functionNames: string[] = [];
-
-  // Match: export async function name(...) or export function name(...)
-  const asyncFnRegex = /export\s+(?:async\s+)?function\s+(\w+)\s*\(/g;
-  let match;
-  while ((match = asyncFnRegex.exec(code)) !== null) {
-    functionNames.push(match[1]);
-  }
-
-  // Match: export const name = async (...) => or export const name = (...) =>
-  const arrowFnRegex = /export\s+const\s+(\w+)\s*=\s*(?:async\s*)?\(/g;
-  while ((match = arrowFnRegex.exec(code)) !== null) {
-    functionNames.push(match[1]);
-  }
-
-  // Match: export const name = async function or export const name = function
-  const constFnRegex = /export\s+const\s+(\w+)\s*=\s*(?:async\s+)?function/g;
-  while ((match = constFnRegex.exec(code)) !== null) {
-    functionNames.push(match[1]);
-  }
-
-  return [...new Set(functionNames)]; // Remove duplicates
-}
-
-/**
- * Strip TypeScript type annotations from code to make it valid JavaScript
- * This is a careful regex-based approach that only targets actual type annotations
- */
-function stripTypeScript(code: string): string {
-  let result = code;
-
-  // Remove interface declarations (multiline)
-  result = result.replace(/^\s*interface\s+\w+\s*\{[\s\S]*?\n\}/gm, '');
-
-  // Remove type declarations
-  result = result.replace(/^\s*type\s+\w+\s*=\s*[^;]+;/gm, '');
-
-  // Remove import type statements
-  result = result.replace(/import\s+type\s+[^;]+;/g, '');
-
-  // Remove 'type' keyword from imports: import { type Foo, Bar } from
-  result = result.replace(/\{\s*type\s+(\w+)/g, '{ $1');
-  result = result.replace(/,\s*type\s+(\w+)/g, ', $1');
-
-  // Remove generic type parameters from function declarations: function foo<T>(
-  result = result.replace(/(function\s+\w+)\s*<[^>]+>\s*\(/g, '$1(');
-
-  // Remove return type annotations from function declarations: function foo(): Type {
-  result = result.replace(/\)\s*:\s*[\w<>[\]|&\s]+\s*\{/g, ') {');
-
-  // Remove return type annotations from arrow functions: ): Type =>
-  result = result.replace(/\)\s*:\s*[\w<>[\]|&\s]+\s*=>/g, ') =>');
-
-  // Remove parameter type annotations inside parentheses
-  // Match: (param: Type) or (param: Type, param2: Type)
-  // Be careful to only match inside function parameter lists
-  result = result.replace(/\(([^)]*)\)/g, (match, params) => {
-    // Only process if it looks like a parameter list with type annotations
-    if (!params.includes(':')) return match;
-
-    // Split by comma, strip types from each param
-    const stripped = params.split(',').map((param: string) => {
-      const trimmed = param.trim();
-      // Match: paramName: Type or paramName?: Type
-      const paramMatch = trimmed.match(/^(\w+)\??:\s*.+$/);
-      if (paramMatch) {
-        return paramMatch[1];
-      }
-      // Match: ...paramName: Type (rest params)
-      const restMatch = trimmed.match(/^(\.\.\.?\w+):\s*.+$/);
-      if (restMatch) {
-        return restMatch[1];
-      }
-      return trimmed;
-    }).join(', ');
-
-    return `(${stripped})`;
-  });
-
-  // Remove variable type annotations: const x: Type = or let x: Type =
-  result = result.replace(/(const|let|var)\s+(\w+)\s*:\s*[\w<>[\]|&\s]+\s*=/g, '$1 $2 =');
-
-  // Remove type assertions: value as Type (but not in object keys like 'has')
-  result = result.replace(/(\S)\s+as\s+[\w<>[\]|&]+/g, '$1');
-
-  // Remove non-null assertions: variable!
-  result = result.replace(/(\w+)!/g, '$1');
-
-  // Clean up excessive blank lines
-  result = result.replace(/\n{3,}/g, '\n\n');
-
-  return result;
-}
+import { bundleModules, Dependencies, SourceFiles } from './bundle';
+import { extractFunctions, FunctionMetadata } from './exports';
+import type { WorkerSourceMap } from './sourcemap';
 
 /**
  * Generate a Node.js worker script from user code
  * This is a simple script that:
- * - Strips TypeScript annotations
- * - Injects user code (with exports transformed)
- * - Creates function registry
+ * - Transpiles each TypeScript file to CommonJS with the TypeScript compiler
+ * - Bundles the files into a module registry with relative imports resolved
+ * - Creates function registry from the entry module's exports
  * - Reads function name + payload from argv
- * - Executes function, outputs result with __RESULT__ marker
- * - All console output streams in real-time
+ * - Executes function, writes the result or error to WORKER_RESULT_FILE (see protocol.ts)
+ * - Console calls stream in real-time as structured records (level, args, fields),
+ *   framed with WORKER_NONCE
+ * - With --serve <port>, stays up and runs one function per HTTP request instead
+ *
+ * Also returns where each module landed in the script, so error stacks can be
+ * mapped back to the user's files.
  */
-export function generateWorkerScript(userCode: string): {
+export function generateWorkerScript(
+  files: SourceFiles,
+  entry: string,
+  dependencies: Dependencies = {}
+): {
   script: string;
   functions: string[];
+  functionMetadata: FunctionMetadata[];
+  sourceMap: WorkerSourceMap;
 } {
-  const functionNames = extractFunctionNames(userCode);
+  // Transpile and link all modules - throws TranspileError with line/column diagnostics
+  const modules = bundleModules(files, entry, dependencies);
+
+  const functionMetadata = extractFunctions(files, entry);
+  const functionNames = functionMetadata.map((fn) => fn.name);
 
   if (functionNames.length === 0) {
     throw new Error(
@@ -119,56 +39,251 @@ export function generateWorkerScript(userCode: string): {
     );
   }
 
-  // Transform the user code:
-  // 1. Strip TypeScript type annotations
-  // 2. Remove 'export' keywords since we're in a script context
-  let transformedCode = stripTypeScript(userCode);
-  transformedCode = transformedCode
-    .replace(/export\s+async\s+function/g, 'async function')
-    .replace(/export\s+function/g, 'function')
-    .replace(/export\s+const/g, 'const');
+  // Module code goes in unindented, so only line numbers shift
+  const sourceMap: WorkerSourceMap = [];
+  let line = 4;
+  const moduleEntries = modules.map((m) => {
+    const lineCount = m.code.split('\n').length;
+    sourceMap.push({ path: m.path, startLine: line + 2, lineCount, mappings: m.mappings });
+    line += lineCount + 5;
+    return `  ${JSON.stringify(m.path)}: [
+    function (exports, require, module) {
+${m.code}
+    },
+    ${JSON.stringify(m.imports)},
+  ],`;
+  });
 
   const script = `// Worker script - generated for sandbox execution
-// User code (transformed - exports and TypeScript removed)
-${transformedCode}
+// User modules (transpiled to CommonJS, each wrapped in its own module scope)
+const userModules = {
+${moduleEntries.join('\n')}
+};
+
+// Minimal CommonJS loader - relative imports resolve to user modules,
+// everything else falls through to Node's require
+const moduleCache = {};
+function loadUserModule(path) {
+  if (moduleCache[path]) return moduleCache[path].exports;
+  const [factory, imports] = userModules[path];
+  const module = { exports: {} };
+  moduleCache[path] = module;
+  const localRequire = (specifier) =>
+    specifier in imports ? loadUserModule(imports[specifier]) : require(specifier);
+  factory.call(module.exports, module.exports, localRequire, module);
+  return module.exports;
+}
+
+const util = require('util');
+const fs = require('fs');
+const { AsyncLocalStorage } = require('async_hooks');
+
+// Console methods, the level each one logs at and the stream it writes to
+const consoleMethods = [
+  ['log', 'info', 'stdout'],
+  ['info', 'info', 'stdout'],
+  ['debug', 'debug', 'stdout'],
+  ['warn', 'warn', 'stderr'],
+  ['error', 'error', 'stderr'],
+];
+
+// Errors keep their name, stack, cause chain and custom properties
+function serializeError(error, depth = 0) {
+  if (!(error instanceof Error)) {
+    return { name: 'Error', message: typeof error === 'string' ? error : util.inspect(error) };
+  }
+
+  const properties = {};
+  for (const key of Object.keys(error)) {
+    if (['name', 'message', 'stack', 'cause'].includes(key)) continue;
+    try {
+      properties[key] = JSON.parse(JSON.stringify(error[key]) ?? 'null');
+    } catch {
+      properties[key] = util.inspect(error[key]);
+    }
+  }
+
+  return {
+    name: error.name,
+    message: error.message,
+    stack: error.stack,
+    cause: error.cause !== undefined && depth < 5 ? serializeError(error.cause, depth + 1) : undefined,
+    properties: Object.keys(properties).length > 0 ? properties : undefined,
+  };
+}
+
+function errorOutcome(error) {
+  return { error: serializeError(error) };
+}
+
+// Console arguments as JSON-safe values
+function serializeArg(arg) {
+  if (typeof arg === 'string') return arg;
+  if (arg instanceof Error) return serializeError(arg);
+  try {
+    return JSON.parse(JSON.stringify(arg) ?? 'null');
+  } catch {
+    return util.inspect(arg);
+  }
+}
+
+// Replace the console methods with ones that build a log record (see LogRecord in
+// protocol.ts) and pass it to write. console.withFields({ ... }) returns a console
+// whose records carry those fields.
+function installConsole(write) {
+  const createConsole = (fields) => {
+    const methods = {};
+    for (const [method, level, stream] of consoleMethods) {
+      methods[method] = (...args) => write(stream, {
+        level,
+        message: util.format(...args),
+        args: args.map(serializeArg),
+        timestamp: Date.now(),
+        fields,
+      });
+    }
+    methods.withFields = (more) => createConsole(serializeArg({ ...fields, ...more }));
+    return methods;
+  };
+  Object.assign(console, createConsole(undefined));
+}
+
+// The invocation a console call belongs to, in serve mode
+const currentInvocation = new AsyncLocalStorage();
+const nonce = process.env.WORKER_NONCE;
+
+// Installed before user modules load, so top-level console calls are records too.
+// One console call = one frame, so multi-line messages stay a single log entry
+installConsole((stream, record) => {
+  const send = currentInvocation.getStore();
+  if (send) send({ type: 'log', stream, ...record });
+  else if (nonce) process[stream].write(nonce + JSON.stringify(record) + '\\n');
+  else process[stream].write(record.message + '\\n');
+});
+
+const userModule = { exports: loadUserModule(${JSON.stringify(entry)}) };
 
 // Function registry
 const functions = {
-${functionNames.map((fn) => `  '${fn}': ${fn},`).join('\n')}
+${functionNames.map((fn) => `  '${fn}': userModule.exports['${fn}'],`).join('\n')}
 };
 
 // Main execution
 async function main() {
   const functionName = process.argv[2];
   const payloadJson = process.argv[3] || '{}';
+  const resultFile = process.env.WORKER_RESULT_FILE;
 
   if (!functionName) {
     console.error('Usage: node worker.js <functionName> [payloadJson]');
     process.exit(1);
   }
 
+  // Without a result file (e.g. run by hand) the outcome is printed instead
+  const writeOutcome = (outcome) => {
+    let json;
+    try {
+      json = JSON.stringify(outcome);
+    } catch (error) {
+      json = JSON.stringify(errorOutcome(new Error('Function result is not JSON-serializable: ' + error.message)));
+    }
+    if (resultFile) fs.writeFileSync(resultFile, json);
+    else process.stdout.write(json + '\\n');
+  };
+
   const func = functions[functionName];
   if (!func) {
-    console.error(\`Function '\${functionName}' not found. Available: \${Object.keys(functions).join(', ')}\`);
+    const message = \`Function '\${functionName}' not found. Available: \${Object.keys(functions).join(', ')}\`;
+    console.error(message);
+    writeOutcome(errorOutcome(new Error(message)));
     process.exit(1);
   }
 
   try {
     const payload = JSON.parse(payloadJson);
     const result = await func(payload);
-
-    // Output result with markers so it can be parsed
-    console.log('__RESULT__' + JSON.stringify(result) + '__END_RESULT__');
+    writeOutcome({ result });
   } catch (error) {
     console.error('Function error:', error.message || error);
-    // Output error result
-    console.log('__RESULT__' + JSON.stringify({ __error: true, message: error.message || String(error) }) + '__END_RESULT__');
+    writeOutcome(errorOutcome(error));
+    process.exit(1);
+  }
+}
+
+// Serve mode - a long-lived process for warm sandboxes. The module stays loaded and
+// each POST /invoke runs one function, streaming its console output and result back
+// as newline-delimited JSON. The port is publicly reachable, so every request must
+// carry the WORKER_SERVE_TOKEN the pool started the process with
+function serve(port) {
+  const http = require('http');
+  const crypto = require('crypto');
+
+  const token = process.env.WORKER_SERVE_TOKEN;
+  // Kept out of reach of the user's code
+  delete process.env.WORKER_SERVE_TOKEN;
+  if (!token) {
+    console.error('WORKER_SERVE_TOKEN is required in serve mode');
     process.exit(1);
   }
+  const expected = crypto.createHash('sha256').update('Bearer ' + token).digest();
+  const authorized = (req) => crypto.timingSafeEqual(
+    crypto.createHash('sha256').update(req.headers.authorization || '').digest(),
+    expected
+  );
+
+  const server = http.createServer((req, res) => {
+    if (!authorized(req)) {
+      res.statusCode = 401;
+      res.end();
+      return;
+    }
+    if (req.method === 'GET' && req.url === '/health') {
+      res.end('ok');
+      return;
+    }
+    if (req.method !== 'POST' || req.url !== '/invoke') {
+      res.statusCode = 404;
+      res.end();
+      return;
+    }
+
+    let body = '';
+    req.on('data', (chunk) => { body += chunk; });
+    req.on('end', async () => {
+      res.setHeader('Content-Type', 'application/x-ndjson');
+      // Late output (e.g. from a timer the function left running) is dropped
+      const send = (message) => {
+        if (!res.writableEnded) res.write(JSON.stringify(message) + '\\n');
+      };
+
+      // Console records from this request are routed back through send
+      await currentInvocation.run(send, async () => {
+        try {
+          const { function: functionName, payload } = JSON.parse(body);
+          const func = functions[functionName];
+          if (!func) {
+            throw new Error(\`Function '\${functionName}' not found. Available: \${Object.keys(functions).join(', ')}\`);
+          }
+          const result = await func(payload);
+          send({ type: 'result', result });
+        } catch (error) {
+          console.error('Function error:', error.message || error);
+          send({ type: 'error', ...errorOutcome(error) });
+        }
+      });
+      res.end();
+    });
+  });
+
+  server.listen(port, () => console.log(\`Worker listening on port \${port}\`));
 }
 
-main();
+if (process.argv[2] === '--serve') {
+  serve(Number(process.argv[3]) || 3000);
+} else {
+  main();
+}
 `;
 
-  return { script, functions: functionNames };
+  return { script, functions: functionNames, functionMetadata, sourceMap };
 }
@@ -0,0 +1,106 @@
+import { describe, expect, test } from 'bun:test';
+import { CronParseError, nextCronRun, parseCron } from './cron';
+
+function next(expression: string, timeZone: string, after: string): string | undefined {
+  return nextCronRun(parseCron(expression), timeZone, new Date(after))?.toISOString();
+}
+
+describe('parseCron', () => {
+  test('expands lists, ranges and steps', () => {
+    const cron = parseCron('0,30 9-17/4 */10 * *');
+    expect(cron.minutes).toEqual([0, 30]);
+    expect(cron.hours).toEqual([9, 13, 17]);
+    expect([...cron.daysOfMonth]).toEqual([1, 11, 21, 31]);
+    expect(cron.months.size).toBe(12);
+  });
+
+  test('reads a single value with a step as a start point', () => {
+    expect(parseCron('5/20 * * * *').minutes).toEqual([5, 25, 45]);
+  });
+
+  test('accepts month and day names, and 7 as Sunday', () => {
+    const cron = parseCron('0 0 * JAN-mar sun,7,Wed');
+    expect([...cron.months]).toEqual([1, 2, 3]);
+    expect([...cron.daysOfWeek].sort()).toEqual([0, 3]);
+  });
+
+  test('expands macros', () => {
+    expect(parseCron('@daily')).toEqual(parseCron('0 0 * * *'));
+    expect(parseCron(' @Hourly ')).toEqual(parseCron('0 * * * *'));
+  });
+
+  test('tracks which day fields are restricted', () => {
+    const cron = parseCron('0 0 1 * 1');
+    expect(cron.dayOfMonthRestricted).toBe(true);
+    expect(cron.dayOfWeekRestricted).toBe(true);
+    expect(parseCron('0 0 * * 1').dayOfMonthRestricted).toBe(false);
+    expect(parseCron('0 0 */2 * 1').dayOfMonthRestricted).toBe(false);
+    expect(parseCron('0 0 1 * */2').dayOfWeekRestricted).toBe(false);
+  });
+
+  test.each([
+    ['* * * *', 'Expected 5 fields'],
+    ['60 * * * *', "Invalid minute '60'"],
+    ['* 24 * * *', "Invalid hour '24'"],
+    ['* * 0 * *', "Invalid day of month '0'"],
+    ['* * * 13 *', "Invalid month '13'"],
+    ['* * * * 8', "Invalid day of week '8'"],
+    ['*/0 * * * *', 'Invalid step'],
+    ['* 10-5 * * *', "Invalid hour range '10-5'"],
+    ['1.5 * * * *', "Invalid minute '1.5'"],
+    ['* * * foo *', "Invalid month 'foo'"],
+  ])('rejects %p', (expression, message) => {
+    expect(() => parseCron(expression)).toThrow(CronParseError);
+    expect(() => parseCron(expression)).toThrow(message);
+  });
+});
+
+describe('nextCronRun', () => {
+  test('returns the next matching minute, strictly after the given time', () => {
+    expect(next('*/15 * * * *', 'UTC', '2026-03-10T10:15:00Z')).toBe('2026-03-10T10:30:00.000Z');
+    expect(next('*/15 * * * *', 'UTC', '2026-03-10T10:14:59.999Z')).toBe('2026-03-10T10:15:00.000Z');
+  });
+
+  test('rolls over into the next day, month and year', () => {
+    expect(next('30 8 * * *', 'UTC', '2026-03-10T09:00:00Z')).toBe('2026-03-11T08:30:00.000Z');
+    expect(next('0 0 1 * *', 'UTC', '2026-01-31T12:00:00Z')).toBe('2026-02-01T00:00:00.000Z');
+    expect(next('@yearly', 'UTC', '2026-06-01T00:00:00Z')).toBe('2027-01-01T00:00:00.000Z');
+  });
+
+  test('reads the expression as wall-clock time in the time zone', () => {
+    expect(next('0 9 * * *', 'America/New_York', '2026-01-15T00:00:00Z')).toBe('2026-01-15T14:00:00.000Z');
+    expect(next('0 9 * * *', 'America/New_York', '2026-07-15T00:00:00Z')).toBe('2026-07-15T13:00:00.000Z');
+  });
+
+  test('runs when either restricted day field matches', () => {
+    // The 13th, or any Friday: 2026-03-06 is a Friday
+    expect(next('0 0 13 * fri', 'UTC', '2026-03-01T00:00:00Z')).toBe('2026-03-06T00:00:00.000Z');
+    // Only Fridays when the day of month is unrestricted
+    expect(next('0 0 * * fri', 'UTC', '2026-03-07T00:00:00Z')).toBe('2026-03-13T00:00:00.000Z');
+  });
+
+  test('needs both day fields to match when one starts with *', () => {
+    // Mondays on odd days of the month: 2026-03-02 and 03-16 are even, 03-09 is odd
+    expect(next('0 0 */2 * 1', 'UTC', '2026-03-01T00:00:00Z')).toBe('2026-03-09T00:00:00.000Z');
+  });
+
+  test('finds Feb 29 in the next leap year', () => {
+    expect(next('0 0 29 2 *', 'UTC', '2026-03-01T00:00:00Z')).toBe('2028-02-29T00:00:00.000Z');
+  });
+
+  test('returns null for a date that never exists', () => {
+    expect(next('0 0 30 2 *', 'UTC', '2026-01-01T00:00:00Z')).toBeUndefined();
+  });
+
+  test('skips a time that a DST change skips', () => {
+    // 2026-03-08 02:30 doesn't exist in New York; the next run is the day after
+    expect(next('30 2 * * *', 'America/New_York', '2026-03-08T05:00:00Z')).toBe('2026-03-09T06:30:00.000Z');
+  });
+
+  test('runs a time that a DST change repeats once', () => {
+    // 2026-11-01 01:30 happens twice in New York: at 05:30Z (EDT) and 06:30Z (EST)
+    const first = next('30 1 * * *', 'America/New_York', '2026-11-01T04:00:00Z');
+    expect(first).toBe('2026-11-01T05:30:00.000Z');
+    expect(next('30 1 * * *', 'America/New_York', first!)).toBe('2026-11-02T06:30:00.000Z');
+  });
+});
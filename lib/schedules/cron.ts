@@ -0,0 +1,220 @@
+/**
+ * Thrown for a cron expression that can't be parsed
+ */
+export class CronParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CronParseError';
+  }
+}
+
+/**
+ * A parsed five-field cron expression: minute hour day-of-month month day-of-week
+ */
+export interface CronExpression {
+  minutes: number[];
+  hours: number[];
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  // 0 = Sunday
+  daysOfWeek: Set<number>;
+  // Standard cron: when both day fields are restricted, a day matching either runs.
+  // As in Vixie cron, a field starting with * (e.g. */2) doesn't count as restricted
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+const FIELDS = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: MONTH_NAMES },
+  // 7 is accepted as Sunday too
+  { name: 'day of week', min: 0, max: 7, names: DAY_NAMES },
+];
+
+// Far enough to reach any satisfiable expression, e.g. Feb 29 falling on a given weekday
+const MAX_SEARCH_DAYS = 8 * 366;
+
+/**
+ * Parse `*`, lists, ranges, steps and month/day names in each field, or a
+ * macro such as @daily
+ */
+export function parseCron(expression: string): CronExpression {
+  const source = MACROS[expression.trim().toLowerCase()] ?? expression;
+  const parts = source.trim().split(/\s+/);
+  if (parts.length !== 5) {
+    throw new CronParseError(`Expected 5 fields (minute hour day month weekday), got ${parts.length}`);
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = parts.map((part, i) => parseField(part, FIELDS[i]));
+
+  return {
+    minutes: [...minutes].sort((a, b) => a - b),
+    hours: [...hours].sort((a, b) => a - b),
+    daysOfMonth,
+    months,
+    daysOfWeek: new Set([...daysOfWeek].map((day) => day % 7)),
+    dayOfMonthRestricted: !parts[2].startsWith('*'),
+    dayOfWeekRestricted: !parts[4].startsWith('*'),
+  };
+}
+
+function parseField(
+  field: string,
+  spec: { name: string; min: number; max: number; names?: string[] }
+): Set<number> {
+  const values = new Set<number>();
+
+  const parseValue = (text: string): number => {
+    const index = spec.names?.indexOf(text.toLowerCase()) ?? -1;
+    const value = index >= 0 ? index + (spec.names === MONTH_NAMES ? 1 : 0) : Number(text);
+    if (!/^\w+$/.test(text) || !Number.isInteger(value) || value < spec.min || value > spec.max) {
+      throw new CronParseError(`Invalid ${spec.name} '${text}': expected ${spec.min}-${spec.max}`);
+    }
+    return value;
+  };
+
+  for (const item of field.split(',')) {
+    const [range, stepText, extra] = item.split('/');
+    const step = stepText === undefined ? 1 : Number(stepText);
+    if (extra !== undefined || !Number.isInteger(step) || step < 1) {
+      throw new CronParseError(`Invalid step in ${spec.name} '${item}'`);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === '*') {
+      start = spec.min;
+      end = spec.max;
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-');
+      start = parseValue(from);
+      end = parseValue(to);
+      if (start > end) throw new CronParseError(`Invalid ${spec.name} range '${range}'`);
+    } else {
+      start = parseValue(range);
+      // "5/15" means every 15 starting at 5
+      end = stepText === undefined ? start : spec.max;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * The first time strictly after `after` that the expression matches, read as
+ * wall-clock time in the time zone. Times skipped by a DST change don't run;
+ * times repeated by one run once. Null if it never matches (e.g. Feb 30).
+ */
+export function nextCronRun(cron: CronExpression, timeZone: string, after: Date): Date | null {
+  const start = wallClock(new Date(Math.floor(after.getTime() / 60_000) * 60_000 + 60_000), timeZone);
+
+  for (let dayOffset = 0; dayOffset < MAX_SEARCH_DAYS; dayOffset++) {
+    // Date.UTC normalizes day overflow into the next month/year
+    const day = new Date(Date.UTC(start.year, start.month - 1, start.day + dayOffset));
+    const year = day.getUTCFullYear();
+    const month = day.getUTCMonth() + 1;
+    const date = day.getUTCDate();
+    if (!matchesDay(cron, month, date, day.getUTCDay())) continue;
+
+    const firstDay = dayOffset === 0;
+    for (const hour of cron.hours) {
+      if (firstDay && hour < start.hour) continue;
+      for (const minute of cron.minutes) {
+        if (firstDay && hour === start.hour && minute < start.minute) continue;
+
+        const instant = fromWallClock({ year, month, day: date, hour, minute }, timeZone);
+        if (instant && instant.getTime() > after.getTime()) return instant;
+      }
+    }
+  }
+
+  return null;
+}
+
+function matchesDay(cron: CronExpression, month: number, date: number, weekday: number): boolean {
+  if (!cron.months.has(month)) return false;
+  const dom = cron.daysOfMonth.has(date);
+  const dow = cron.daysOfWeek.has(weekday);
+  if (cron.dayOfMonthRestricted && cron.dayOfWeekRestricted) return dom || dow;
+  return dom && dow;
+}
+
+interface WallClock {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function wallClock(instant: Date, timeZone: string): WallClock {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+    });
+    formatters.set(timeZone, formatter);
+  }
+
+  const parts = Object.fromEntries(
+    formatter.formatToParts(instant).map((part) => [part.type, Number(part.value)])
+  );
+  return { year: parts.year, month: parts.month, day: parts.day, hour: parts.hour, minute: parts.minute };
+}
+
+// Null when the wall-clock time doesn't exist in the zone (skipped by DST)
+function fromWallClock(wall: WallClock, timeZone: string): Date | null {
+  const asUtc = Date.UTC(wall.year, wall.month - 1, wall.day, wall.hour, wall.minute);
+  const offsetAt = (instant: number) => {
+    const local = wallClock(new Date(instant), timeZone);
+    return Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute) - instant;
+  };
+
+  // Try both offsets around the time, earliest first, so a repeated hour runs on its first pass
+  const candidates = [asUtc - offsetAt(asUtc - 86_400_000), asUtc - offsetAt(asUtc + 86_400_000)]
+    .sort((a, b) => a - b);
+  for (const candidate of candidates) {
+    const local = wallClock(new Date(candidate), timeZone);
+    if (local.year === wall.year && local.month === wall.month && local.day === wall.day &&
+        local.hour === wall.hour && local.minute === wall.minute) {
+      return new Date(candidate);
+    }
+  }
+  return null;
+}
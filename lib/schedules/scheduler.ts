@@ -0,0 +1,138 @@
+import { db } from '@/lib/db/client';
+import type { Schedule } from '@/lib/db/schema';
+import { beginInvocation, checkBackgroundTarget, launchInvocation } from '@/lib/invocations/run';
+import { DEFAULT_TIMEOUT_MS } from '@/lib/invocations/timeout';
+import { CronParseError, isValidTimeZone, nextCronRun, parseCron } from './cron';
+
+// A tick fires at most this many schedules; the rest stay due for the next one
+const MAX_SCHEDULES_PER_TICK = 50;
+// How long a claimed schedule is hidden from other ticks while it is being started
+const SCHEDULE_LEASE_MS = 5 * 60_000;
+
+export interface ScheduleInput {
+  functionName: string;
+  cron: string;
+  timezone: string;
+  payload: unknown;
+  enabled: boolean;
+}
+
+export interface FiredSchedule {
+  scheduleId: string;
+  workerId: string;
+  function: string;
+  // Set when the invocation started; error is set when it couldn't
+  invocationId?: string;
+  error?: string;
+  nextRunAt: string | null;
+}
+
+/**
+ * Read a schedule from a request body: { function, cron, timezone?, payload?, enabled? }.
+ * With `existing` (an update) every field is optional and defaults to its current value.
+ */
+export function parseScheduleInput(
+  body: Record<string, unknown>,
+  existing?: ScheduleInput
+): ScheduleInput | { error: string } {
+  const functionName = body.function ?? existing?.functionName;
+  if (typeof functionName !== 'string' || !functionName) {
+    return { error: 'function is required' };
+  }
+
+  const cron = body.cron ?? existing?.cron;
+  if (typeof cron !== 'string') {
+    return { error: 'cron is required, e.g. "*/5 * * * *" or "@daily"' };
+  }
+  try {
+    parseCron(cron);
+  } catch (error) {
+    if (error instanceof CronParseError) return { error: `Invalid cron expression: ${error.message}` };
+    throw error;
+  }
+
+  const timezone = body.timezone ?? existing?.timezone ?? 'UTC';
+  if (typeof timezone !== 'string' || !isValidTimeZone(timezone)) {
+    return { error: `Unknown time zone '${timezone}'. Use an IANA name such as Europe/Berlin` };
+  }
+
+  const enabled = body.enabled ?? existing?.enabled ?? true;
+  if (typeof enabled !== 'boolean') {
+    return { error: 'enabled must be a boolean' };
+  }
+
+  const payload = body.payload !== undefined ? body.payload : existing?.payload ?? {};
+
+  return { functionName, cron: cron.trim(), timezone, payload, enabled };
+}
+
+export function toScheduleInput(schedule: Schedule): ScheduleInput {
+  return {
+    functionName: schedule.function_name,
+    cron: schedule.cron,
+    timezone: schedule.timezone,
+    payload: schedule.payload,
+    enabled: schedule.enabled,
+  };
+}
+
+/**
+ * When an enabled schedule runs next, or null if it is disabled or never matches
+ */
+export function computeNextRun(input: Pick<ScheduleInput, 'cron' | 'timezone' | 'enabled'>, from = new Date()): Date | null {
+  if (!input.enabled) return null;
+  return nextCronRun(parseCron(input.cron), input.timezone, from);
+}
+
+/**
+ * Start every due schedule's invocation and move it to its next run.
+ * Runs missed while nothing ticked are not caught up: a late schedule fires once.
+ * The invocations keep running after the response, like async invocations.
+ */
+export async function runDueSchedules(): Promise<FiredSchedule[]> {
+  const due = await db.claimDueSchedules(MAX_SCHEDULES_PER_TICK, SCHEDULE_LEASE_MS);
+  const fired: FiredSchedule[] = [];
+
+  for (const schedule of due) {
+    const nextRunAt = computeNextRun(schedule);
+    const entry: FiredSchedule = {
+      scheduleId: schedule.id,
+      workerId: schedule.worker_id,
+      function: schedule.function_name,
+      nextRunAt: nextRunAt?.toISOString() ?? null,
+    };
+    fired.push(entry);
+
+    try {
+      const check = checkBackgroundTarget(
+        await db.getWorker(schedule.project_id, schedule.worker_id),
+        schedule.function_name
+      );
+      if ('error' in check) {
+        entry.error = check.error;
+        await db.recordScheduleRun(schedule.id, { nextRunAt, invocationId: null });
+        continue;
+      }
+
+      const { worker, expired } = check;
+      const invocation = await beginInvocation({
+        workerId: worker.id,
+        target: worker,
+        functionName: schedule.function_name,
+        payload: schedule.payload,
+        timeoutMs: worker.timeout_ms ?? DEFAULT_TIMEOUT_MS,
+      });
+      entry.invocationId = invocation.id;
+      await db.recordScheduleRun(schedule.id, { nextRunAt, invocationId: invocation.id });
+
+      launchInvocation(invocation, worker, { expired, rebuildOnExpiry: worker.rebuild_on_expiry });
+    } catch (error) {
+      console.error(`Error running schedule ${schedule.id}:`, error);
+      entry.error = error instanceof Error ? error.message : 'Failed to start invocation';
+      await db.recordScheduleRun(schedule.id, { nextRunAt, invocationId: entry.invocationId ?? null })
+        .catch((recordError) => console.error('Failed to store schedule run:', recordError));
+    }
+  }
+
+  return fired;
+}
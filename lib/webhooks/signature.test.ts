@@ -0,0 +1,147 @@
+import { describe, expect, test } from 'bun:test';
+import { createHmac } from 'crypto';
+import type { SignatureConfig } from '@/lib/db/schema';
+import { parseSignatureConfig, verifySignature } from './signature';
+
+const SECRET = 'whsec_test';
+const BODY = '{"event":"ping"}';
+const NOW = Date.UTC(2026, 0, 1);
+const NOW_S = NOW / 1000;
+
+function sign(data: string, algorithm = 'sha256', encoding: 'hex' | 'base64' = 'hex'): string {
+  return createHmac(algorithm, SECRET).update(data).digest(encoding);
+}
+
+function verify(config: SignatureConfig, headers: Record<string, string>, secret: string | null = SECRET) {
+  return verifySignature(config, secret, BODY, new Headers(headers), NOW);
+}
+
+describe('verifySignature', () => {
+  test('accepts unsigned deliveries for the none scheme', () => {
+    expect(verify({ scheme: 'none' }, {}, null)).toEqual({ status: 'unsigned' });
+  });
+
+  test('rejects signed schemes when the hook has no secret', () => {
+    expect(verify({ scheme: 'github' }, {}, null).status).toBe('invalid');
+  });
+
+  describe('github', () => {
+    const config: SignatureConfig = { scheme: 'github' };
+
+    test('verifies X-Hub-Signature-256', () => {
+      expect(verify(config, { 'X-Hub-Signature-256': `sha256=${sign(BODY)}` })).toEqual({ status: 'verified' });
+    });
+
+    test('rejects a wrong or missing signature', () => {
+      expect(verify(config, { 'X-Hub-Signature-256': `sha256=${sign('other')}` }).status).toBe('invalid');
+      expect(verify(config, {})).toEqual({ status: 'missing', reason: 'Missing X-Hub-Signature-256 header' });
+    });
+  });
+
+  describe('stripe', () => {
+    const config: SignatureConfig = { scheme: 'stripe' };
+    const header = (t: number, ...signatures: string[]) => ({
+      'Stripe-Signature': [`t=${t}`, ...signatures.map((signature) => `v1=${signature}`)].join(','),
+    });
+
+    test('verifies any of the v1 signatures', () => {
+      const valid = sign(`${NOW_S}.${BODY}`);
+      expect(verify(config, header(NOW_S, valid))).toEqual({ status: 'verified' });
+      expect(verify(config, header(NOW_S, sign('rotated'), valid))).toEqual({ status: 'verified' });
+    });
+
+    test('rejects a signature over a different timestamp', () => {
+      expect(verify(config, header(NOW_S, sign(`${NOW_S - 1}.${BODY}`))).status).toBe('invalid');
+    });
+
+    test('rejects a malformed header', () => {
+      expect(verify(config, { 'Stripe-Signature': `t=${NOW_S}` })).toEqual({
+        status: 'invalid',
+        reason: 'Malformed Stripe-Signature header',
+      });
+    });
+
+    test('accepts timestamps within the default five-minute tolerance', () => {
+      for (const t of [NOW_S - 300, NOW_S + 300]) {
+        expect(verify(config, header(t, sign(`${t}.${BODY}`))).status).toBe('verified');
+      }
+    });
+
+    test('rejects timestamps outside the tolerance', () => {
+      for (const t of [NOW_S - 301, NOW_S + 301]) {
+        expect(verify(config, header(t, sign(`${t}.${BODY}`)))).toEqual({
+          status: 'invalid',
+          reason: 'Timestamp is more than 300s from the current time',
+        });
+      }
+    });
+
+    test('uses a configured tolerance', () => {
+      const t = NOW_S - 60;
+      const headers = header(t, sign(`${t}.${BODY}`));
+      expect(verify({ scheme: 'stripe', toleranceS: 30 }, headers).status).toBe('invalid');
+      expect(verify({ scheme: 'stripe', toleranceS: 60 }, headers).status).toBe('verified');
+    });
+  });
+
+  describe('slack', () => {
+    const config: SignatureConfig = { scheme: 'slack' };
+    const headers = (t: number | string) => ({
+      'X-Slack-Signature': `v0=${sign(`v0:${t}:${BODY}`)}`,
+      'X-Slack-Request-Timestamp': String(t),
+    });
+
+    test('verifies the v0 signature', () => {
+      expect(verify(config, headers(NOW_S))).toEqual({ status: 'verified' });
+    });
+
+    test('rejects stale or unreadable timestamps', () => {
+      expect(verify(config, headers(NOW_S - 301)).status).toBe('invalid');
+      expect(verify(config, headers('soon')).status).toBe('invalid');
+    });
+
+    test('reports which header is missing', () => {
+      expect(verify(config, { 'X-Slack-Signature': 'v0=abc' }).reason).toBe('Missing X-Slack-Request-Timestamp header');
+    });
+  });
+
+  describe('hmac', () => {
+    test('verifies with the configured header, algorithm, encoding and prefix', () => {
+      const config = parseSignatureConfig({
+        scheme: 'hmac',
+        header: 'X-Signature',
+        algorithm: 'sha512',
+        encoding: 'base64',
+        prefix: 'sha512=',
+      }) as SignatureConfig;
+      const signature = `sha512=${sign(BODY, 'sha512', 'base64')}`;
+
+      expect(verify(config, { 'X-Signature': ` ${signature} ` })).toEqual({ status: 'verified' });
+      expect(verify(config, { 'X-Signature': sign(BODY, 'sha512', 'base64') }).status).toBe('invalid');
+      expect(verify(config, {})).toEqual({ status: 'missing', reason: 'Missing x-signature header' });
+    });
+  });
+});
+
+describe('parseSignatureConfig', () => {
+  test('defaults to hmac, which needs a header', () => {
+    expect(parseSignatureConfig({})).toEqual({ error: expect.stringContaining('signature.header is required') });
+    expect(parseSignatureConfig({ header: 'X-Sig' })).toEqual({
+      scheme: 'hmac',
+      header: 'x-sig',
+      algorithm: 'sha256',
+      encoding: 'hex',
+      prefix: '',
+    });
+  });
+
+  test('accepts a bare scheme name', () => {
+    expect(parseSignatureConfig('github')).toEqual({ scheme: 'github' });
+  });
+
+  test('rejects unknown schemes and invalid tolerances', () => {
+    expect(parseSignatureConfig({ scheme: 'paypal' })).toHaveProperty('error');
+    expect(parseSignatureConfig({ scheme: 'stripe', toleranceS: 0 })).toHaveProperty('error');
+    expect(parseSignatureConfig({ scheme: 'stripe', toleranceS: 600 })).toEqual({ scheme: 'stripe', toleranceS: 600 });
+  });
+});
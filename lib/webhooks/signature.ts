@@ -0,0 +1,147 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import type { SignatureConfig, SignatureScheme, SignatureStatus } from '@/lib/db/schema';
+
+const SIGNATURE_SCHEMES: SignatureScheme[] = ['github', 'stripe', 'slack', 'hmac', 'none'];
+const HMAC_ALGORITHMS = ['sha1', 'sha256', 'sha512'] as const;
+const HMAC_ENCODINGS = ['hex', 'base64'] as const;
+// Timestamped schemes reject deliveries older than this, against replays
+const DEFAULT_TOLERANCE_S = 300;
+
+export interface VerificationResult {
+  status: SignatureStatus;
+  // Why verification failed
+  reason?: string;
+}
+
+/**
+ * Read a hook's signature settings from a request body.
+ * `github`, `stripe` and `slack` follow those providers' formats; `hmac` signs the
+ * raw body with a configurable header, algorithm, encoding and prefix; `none`
+ * accepts unsigned deliveries.
+ */
+export function parseSignatureConfig(value: unknown): SignatureConfig | { error: string } {
+  const input = (typeof value === 'object' && value !== null ? value : { scheme: value }) as Record<string, unknown>;
+  const scheme = input.scheme ?? 'hmac';
+
+  if (!SIGNATURE_SCHEMES.includes(scheme as SignatureScheme)) {
+    return { error: `signature.scheme must be one of: ${SIGNATURE_SCHEMES.join(', ')}` };
+  }
+
+  if (input.toleranceS !== undefined && (!Number.isInteger(input.toleranceS) || (input.toleranceS as number) < 1)) {
+    return { error: 'signature.toleranceS must be a positive number of seconds' };
+  }
+  const toleranceS = input.toleranceS as number | undefined;
+
+  if (scheme !== 'hmac') {
+    return { scheme: scheme as SignatureScheme, ...(toleranceS !== undefined ? { toleranceS } : {}) };
+  }
+
+  if (typeof input.header !== 'string' || !/^[A-Za-z0-9-]+$/.test(input.header)) {
+    return { error: 'signature.header is required for the hmac scheme, e.g. "X-Signature"' };
+  }
+
+  const algorithm = input.algorithm ?? 'sha256';
+  if (!HMAC_ALGORITHMS.includes(algorithm as typeof HMAC_ALGORITHMS[number])) {
+    return { error: `signature.algorithm must be one of: ${HMAC_ALGORITHMS.join(', ')}` };
+  }
+
+  const encoding = input.encoding ?? 'hex';
+  if (!HMAC_ENCODINGS.includes(encoding as typeof HMAC_ENCODINGS[number])) {
+    return { error: `signature.encoding must be one of: ${HMAC_ENCODINGS.join(', ')}` };
+  }
+
+  const prefix = input.prefix ?? '';
+  if (typeof prefix !== 'string') {
+    return { error: 'signature.prefix must be a string, e.g. "sha256="' };
+  }
+
+  return {
+    scheme: 'hmac',
+    header: input.header.toLowerCase(),
+    algorithm: algorithm as SignatureConfig['algorithm'],
+    encoding: encoding as SignatureConfig['encoding'],
+    prefix,
+  };
+}
+
+/**
+ * Check a delivery's signature against the hook's secret
+ */
+export function verifySignature(
+  config: SignatureConfig,
+  secret: string | null,
+  rawBody: string,
+  headers: Headers,
+  now = Date.now()
+): VerificationResult {
+  if (config.scheme === 'none') return { status: 'unsigned' };
+  if (!secret) return { status: 'invalid', reason: 'The hook has no secret configured' };
+
+  switch (config.scheme) {
+    case 'github': {
+      const signature = headers.get('x-hub-signature-256');
+      if (!signature) return missing('X-Hub-Signature-256');
+      return compare(signature, 'sha256=' + hmac('sha256', secret, rawBody, 'hex'));
+    }
+
+    case 'stripe': {
+      // Stripe-Signature: t=1700000000,v1=<hex>[,v1=<hex>]
+      const header = headers.get('stripe-signature');
+      if (!header) return missing('Stripe-Signature');
+      const fields = header.split(',').map((part) => part.trim().split('='));
+      const timestamp = fields.find(([key]) => key === 't')?.[1];
+      const signatures = fields.filter(([key]) => key === 'v1').map(([, value]) => value);
+      if (!timestamp || signatures.length === 0) {
+        return { status: 'invalid', reason: 'Malformed Stripe-Signature header' };
+      }
+      const stale = checkTimestamp(timestamp, config, now);
+      if (stale) return stale;
+      const expected = hmac('sha256', secret, `${timestamp}.${rawBody}`, 'hex');
+      return signatures.some((signature) => compare(signature, expected).status === 'verified')
+        ? { status: 'verified' }
+        : { status: 'invalid', reason: 'Signature does not match' };
+    }
+
+    case 'slack': {
+      const signature = headers.get('x-slack-signature');
+      const timestamp = headers.get('x-slack-request-timestamp');
+      if (!signature) return missing('X-Slack-Signature');
+      if (!timestamp) return missing('X-Slack-Request-Timestamp');
+      const stale = checkTimestamp(timestamp, config, now);
+      if (stale) return stale;
+      return compare(signature, 'v0=' + hmac('sha256', secret, `v0:${timestamp}:${rawBody}`, 'hex'));
+    }
+
+    case 'hmac': {
+      const signature = headers.get(config.header!);
+      if (!signature) return missing(config.header!);
+      const expected = (config.prefix ?? '') + hmac(config.algorithm ?? 'sha256', secret, rawBody, config.encoding ?? 'hex');
+      return compare(signature.trim(), expected);
+    }
+  }
+}
+
+function hmac(algorithm: string, secret: string, data: string, encoding: 'hex' | 'base64'): string {
+  return createHmac(algorithm, secret).update(data, 'utf8').digest(encoding);
+}
+
+function compare(received: string, expected: string): VerificationResult {
+  const a = Buffer.from(received);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b)
+    ? { status: 'verified' }
+    : { status: 'invalid', reason: 'Signature does not match' };
+}
+
+function missing(header: string): VerificationResult {
+  return { status: 'missing', reason: `Missing ${header} header` };
+}
+
+function checkTimestamp(timestamp: string, config: SignatureConfig, now: number): VerificationResult | null {
+  const seconds = Number(timestamp);
+  const tolerance = config.toleranceS ?? DEFAULT_TOLERANCE_S;
+  if (!Number.isFinite(seconds) || Math.abs(now / 1000 - seconds) > tolerance) {
+    return { status: 'invalid', reason: `Timestamp is more than ${tolerance}s from the current time` };
+  }
+  return null;
+}
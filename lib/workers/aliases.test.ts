@@ -0,0 +1,73 @@
+import { describe, expect, test } from 'bun:test';
+import { isValidAliasName, parseAliasRoutes, pickWeightedVersion } from './aliases';
+
+describe('pickWeightedVersion', () => {
+  const routes = [
+    { version: 1, weight: 90 },
+    { version: 2, weight: 10 },
+  ];
+
+  test('maps the random point onto the routes in proportion to their weights', () => {
+    expect(pickWeightedVersion(routes, () => 0)).toBe(1);
+    expect(pickWeightedVersion(routes, () => 0.899)).toBe(1);
+    expect(pickWeightedVersion(routes, () => 0.9)).toBe(2);
+    expect(pickWeightedVersion(routes, () => 0.999)).toBe(2);
+  });
+
+  test('never picks a route with no weight', () => {
+    const withDrained = [{ version: 1, weight: 0 }, { version: 2, weight: 5 }, { version: 3, weight: 0 }];
+    for (const point of [0, 0.5, 0.999999]) {
+      expect(pickWeightedVersion(withDrained, () => point)).toBe(2);
+    }
+  });
+
+  test('lands floating point leftovers on the last weighted route', () => {
+    expect(pickWeightedVersion([...routes, { version: 3, weight: 0 }], () => 1)).toBe(2);
+  });
+
+  test('splits traffic close to the weights', () => {
+    let seed = 1;
+    // Small deterministic generator, so the test doesn't flake
+    const random = () => (seed = (seed * 16807) % 2147483647) / 2147483647;
+    const picks = Array.from({ length: 10_000 }, () => pickWeightedVersion(routes, random));
+    const canary = picks.filter((version) => version === 2).length / picks.length;
+    expect(canary).toBeGreaterThan(0.08);
+    expect(canary).toBeLessThan(0.12);
+  });
+});
+
+describe('parseAliasRoutes', () => {
+  test('points the alias at a single version', () => {
+    expect(parseAliasRoutes({ version: 3 })).toEqual([{ version: 3, weight: 100 }]);
+  });
+
+  test('reads weighted routes', () => {
+    expect(parseAliasRoutes({ routes: [{ version: 1, weight: 90 }, { version: 2, weight: 10 }] })).toEqual([
+      { version: 1, weight: 90 },
+      { version: 2, weight: 10 },
+    ]);
+  });
+
+  test.each([
+    [{ version: '3' }, 'version must be a version number'],
+    [{}, 'Provide `version` or a non-empty `routes` array of { version, weight }'],
+    [{ routes: [{ version: 1, weight: -1 }] }, 'Each route needs an integer version and a non-negative integer weight'],
+    [{ routes: [{ version: 1, weight: 1 }, { version: 1, weight: 2 }] }, 'Version 1 appears more than once'],
+    [{ routes: [{ version: 1, weight: 0 }] }, 'At least one route must have a positive weight'],
+  ])('rejects %j', (body, error) => {
+    expect(parseAliasRoutes(body)).toEqual({ error });
+  });
+});
+
+describe('isValidAliasName', () => {
+  test('accepts short URL-safe names', () => {
+    expect(isValidAliasName('prod')).toBe(true);
+    expect(isValidAliasName('canary_2-eu')).toBe(true);
+  });
+
+  test('rejects names that need escaping or start with punctuation', () => {
+    expect(isValidAliasName('-prod')).toBe(false);
+    expect(isValidAliasName('prod/eu')).toBe(false);
+    expect(isValidAliasName('a'.repeat(64))).toBe(false);
+  });
+});
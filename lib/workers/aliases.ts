@@ -0,0 +1,58 @@
+import type { AliasRoute } from '@/lib/db/schema';
+
+const ALIAS_NAME_REGEX = /^[a-z0-9][a-z0-9_-]{0,62}$/i;
+
+export function isValidAliasName(name: string): boolean {
+  return ALIAS_NAME_REGEX.test(name);
+}
+
+/**
+ * Read alias routes from a request body.
+ * `{ version: 3 }` points the alias at one version; `{ routes: [{ version, weight }] }`
+ * splits traffic between versions in proportion to their weights.
+ */
+export function parseAliasRoutes(body: Record<string, unknown>): AliasRoute[] | { error: string } {
+  if (body.version !== undefined) {
+    if (!Number.isInteger(body.version)) {
+      return { error: 'version must be a version number' };
+    }
+    return [{ version: body.version as number, weight: 100 }];
+  }
+
+  if (!Array.isArray(body.routes) || body.routes.length === 0) {
+    return { error: 'Provide `version` or a non-empty `routes` array of { version, weight }' };
+  }
+
+  const routes: AliasRoute[] = [];
+  for (const route of body.routes) {
+    if (!route || !Number.isInteger(route.version) || !Number.isInteger(route.weight) || route.weight < 0) {
+      return { error: 'Each route needs an integer version and a non-negative integer weight' };
+    }
+    if (routes.some((r) => r.version === route.version)) {
+      return { error: `Version ${route.version} appears more than once` };
+    }
+    routes.push({ version: route.version, weight: route.weight });
+  }
+
+  if (routes.every((r) => r.weight === 0)) {
+    return { error: 'At least one route must have a positive weight' };
+  }
+
+  return routes;
+}
+
+/**
+ * Pick a version from weighted routes, e.g. 90/10 sends ~10% of calls to the canary
+ */
+export function pickWeightedVersion(routes: AliasRoute[], random: () => number = Math.random): number {
+  const total = routes.reduce((sum, r) => sum + r.weight, 0);
+  let point = random() * total;
+
+  for (const route of routes) {
+    if (point < route.weight) return route.version;
+    point -= route.weight;
+  }
+
+  // Floating point leftovers land on the last weighted route
+  return routes.filter((r) => r.weight > 0).at(-1)!.version;
+}
@@ -0,0 +1,40 @@
+import { describe, expect, test } from 'bun:test';
+import ts from 'typescript';
+import type { Worker } from '@/lib/db/schema';
+import { clientContentDisposition, generateClientSource } from './client-sdk';
+import type { InvocationTarget } from './resolve';
+
+describe('generateClientSource', () => {
+  const target = { version: 3, functions: [], function_metadata: [] } as unknown as InvocationTarget;
+
+  function generate(name: string) {
+    return generateClientSource({ id: 'worker-1', name } as Worker, target, {
+      baseUrl: 'https://example.com',
+      pinnedVersion: null,
+    });
+  }
+
+  test('keeps the worker name inside the header comment', () => {
+    const source = generate('evil\nprocess.exit(1);\u2028globalThis.x = 1;');
+
+    expect(source.split('\n')[0]).toBe(
+      '// Generated client for worker "evil\\nprocess.exit(1);\\u2028globalThis.x = 1;" (version 3).'
+    );
+    const sourceFile = ts.createSourceFile('client.ts', source, ts.ScriptTarget.Latest);
+    expect(sourceFile.statements[0].getText(sourceFile)).toBe('const WORKER_ID = "worker-1";');
+  });
+});
+
+describe('clientContentDisposition', () => {
+  test('uses the name as is when it is plain ASCII', () => {
+    expect(clientContentDisposition('billing')).toBe(
+      "inline; filename=\"billing-client.ts\"; filename*=UTF-8''billing-client.ts"
+    );
+  });
+
+  test('adds an ASCII fallback and encodes the real name', () => {
+    expect(clientContentDisposition('tarifs "été"\r\n(v2)')).toBe(
+      "inline; filename=\"tarifs___t_____v2_-client.ts\"; filename*=UTF-8''tarifs%20%22%C3%A9t%C3%A9%22%0D%0A%28v2%29-client.ts"
+    );
+  });
+});
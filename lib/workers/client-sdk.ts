@@ -0,0 +1,325 @@
+import type { Worker } from '@/lib/db/schema';
+import type { FunctionMetadata } from '@/lib/sandbox/exports';
+import type { JsonSchema } from '@/lib/sandbox/schema';
+import type { InvocationTarget } from './resolve';
+
+/**
+ * Render a JSON Schema as a TypeScript type expression
+ */
+export function schemaToTypeScript(schema: JsonSchema | null | undefined, indent = ''): string {
+  if (!schema) return 'unknown';
+
+  if (schema.const !== undefined) return JSON.stringify(schema.const);
+  if (schema.enum) return schema.enum.map((value) => JSON.stringify(value)).join(' | ');
+  if (schema.anyOf) return union(schema.anyOf.map((sub) => schemaToTypeScript(sub, indent)));
+  if (schema.oneOf) return union(schema.oneOf.map((sub) => schemaToTypeScript(sub, indent)));
+  if (schema.allOf) {
+    return schema.allOf.map((sub) => parenthesize(schemaToTypeScript(sub, indent))).join(' & ');
+  }
+
+  if (Array.isArray(schema.type)) {
+    return union(schema.type.map((type) => schemaToTypeScript({ ...schema, type }, indent)));
+  }
+
+  switch (schema.type) {
+    case 'string':
+      return 'string';
+    case 'number':
+    case 'integer':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'null':
+      return 'null';
+    case 'array':
+      return `Array<${schemaToTypeScript(schema.items, indent)}>`;
+    case 'object':
+      return objectType(schema, indent);
+    default:
+      return schema.properties ? objectType(schema, indent) : 'unknown';
+  }
+}
+
+function objectType(schema: JsonSchema, indent: string): string {
+  const inner = indent + '  ';
+  const required = new Set(schema.required ?? []);
+  const lines = Object.entries(schema.properties ?? {}).map(([name, property]) => {
+    const key = /^[A-Za-z_$][\w$]*$/.test(name) ? name : JSON.stringify(name);
+    return `${inner}${key}${required.has(name) ? '' : '?'}: ${schemaToTypeScript(property, inner)};`;
+  });
+
+  const { additionalProperties } = schema;
+  if (additionalProperties === undefined || additionalProperties === true) {
+    // Without declared properties any key is allowed; with them, extra keys are tolerated
+    if (lines.length === 0) return 'Record<string, unknown>';
+  } else if (additionalProperties !== false) {
+    lines.push(`${inner}[key: string]: ${schemaToTypeScript(additionalProperties, inner)};`);
+  }
+
+  return lines.length > 0 ? `{\n${lines.join('\n')}\n${indent}}` : 'Record<string, never>';
+}
+
+function union(types: string[]): string {
+  return [...new Set(types)].map(parenthesize).join(' | ');
+}
+
+function parenthesize(type: string): string {
+  return / [|&] /.test(type) && !type.startsWith('{') ? `(${type})` : type;
+}
+
+function pascalCase(name: string): string {
+  return name.charAt(0).toUpperCase() + name.slice(1);
+}
+
+function docComment(lines: Array<string | null | undefined>, indent: string): string {
+  const text = lines.filter((line): line is string => !!line).map((line) => line.replace(/\*\//g, '*\\/'));
+  if (text.length === 0) return '';
+  return `${indent}/**\n${text.map((line) => `${indent} * ${line}`).join('\n')}\n${indent} */\n`;
+}
+
+function describeFunctionTypes(name: string, fn: FunctionMetadata | undefined): string {
+  const base = pascalCase(name);
+  return [
+    docComment([fn?.payloadType ? `Declared as \`${fn.payloadType}\`` : null], ''),
+    `export type ${base}Payload = ${schemaToTypeScript(fn?.inputSchema)};\n`,
+    docComment([fn?.returnType ? `Declared as \`${fn.returnType}\`` : null], ''),
+    `export type ${base}Result = ${schemaToTypeScript(fn?.outputSchema)};\n`,
+  ].join('');
+}
+
+function describeMethod(name: string, fn: FunctionMetadata | undefined): string {
+  const base = pascalCase(name);
+  // Functions without an input schema take anything, including nothing
+  const payload = fn?.inputSchema ? `payload: ${base}Payload` : `payload?: ${base}Payload`;
+  return [
+    docComment([fn?.description], '  '),
+    `  ${name}(${payload}, options?: InvokeOptions): Promise<InvocationResult<${base}Result>> {\n`,
+    `    return invoke<${base}Result>(this.#connection, '${name}', payload, options);\n`,
+    '  }\n',
+  ].join('');
+}
+
+/**
+ * A string literal that is also safe inside a line comment: JSON.stringify
+ * escapes newlines but leaves U+2028/U+2029, which end a comment too
+ */
+function sourceString(value: string): string {
+  return JSON.stringify(value).replace(/[\u2028\u2029]/g, (c) => `\\u${c.charCodeAt(0).toString(16)}`);
+}
+
+/**
+ * Content-Disposition for the generated client file: a plain ASCII filename
+ * for older clients, and the worker's actual name as filename* (RFC 6266).
+ */
+export function clientContentDisposition(workerName: string): string {
+  const fileName = `${workerName}-client.ts`;
+  const fallback = fileName.replace(/[^A-Za-z0-9._-]/g, '_');
+  const encoded = encodeURIComponent(fileName).replace(/['()*]/g, (c) => `%${c.charCodeAt(0).toString(16).toUpperCase()}`);
+  return `inline; filename="${fallback}"; filename*=UTF-8''${encoded}`;
+}
+
+/**
+ * Generate a typed TypeScript client for a worker version: one method per
+ * function, typed from the function schemas, over batch JSON or (with onLog)
+ * the SSE stream. pinnedVersion makes the client call that version by default.
+ */
+export function generateClientSource(
+  worker: Worker,
+  target: InvocationTarget,
+  options: { baseUrl: string; pinnedVersion: number | null }
+): string {
+  const functionTypes = target.functions
+    .map((name) => describeFunctionTypes(name, target.function_metadata.find((m) => m.name === name)))
+    .join('\n');
+  const methods = target.functions
+    .map((name) => describeMethod(name, target.function_metadata.find((m) => m.name === name)))
+    .join('\n');
+
+  return `// Generated client for worker ${sourceString(worker.name)} (version ${target.version}).
+// Regenerate with GET ${options.baseUrl}/api/workers/${worker.id}/client.ts - do not edit.
+
+const WORKER_ID = ${JSON.stringify(worker.id)};
+const DEFAULT_BASE_URL = ${JSON.stringify(options.baseUrl)};
+const PINNED_VERSION: number | undefined = ${options.pinnedVersion ?? 'undefined'};
+
+export interface LogEntry {
+  level: 'debug' | 'info' | 'warn' | 'error';
+  message: string;
+  args?: unknown[];
+  fields?: Record<string, unknown>;
+  timestamp: number;
+}
+
+export interface InvokeOptions {
+  // Stream logs as they happen (over SSE) instead of receiving them with the result
+  onLog?: (log: LogEntry) => void;
+  timeoutMs?: number;
+  version?: number;
+  alias?: string;
+  signal?: AbortSignal;
+}
+
+export interface InvocationResult<T> {
+  invocationId: string;
+  version: number;
+  result: T;
+  duration: number;
+  coldStart?: boolean;
+  logs: LogEntry[];
+}
+
+interface FailureBody {
+  error?: string;
+  type?: string;
+  invocationId?: string;
+  errorDetails?: unknown;
+  violations?: Array<{ path: string; message: string }>;
+  logs?: LogEntry[];
+}
+
+export interface WorkerClientOptions {
+  baseUrl?: string;
+  // An API key with the invoke scope, sent as a Bearer token
+  apiKey?: string;
+  headers?: Record<string, string>;
+  fetch?: typeof fetch;
+}
+
+/**
+ * Thrown when an invocation fails: the function threw, timed out or was cancelled,
+ * or the request was rejected (e.g. a payload that fails the input schema)
+ */
+export class WorkerInvocationError extends Error {
+  readonly status: number;
+  readonly type: string | undefined;
+  readonly invocationId: string | undefined;
+  readonly errorDetails: unknown;
+  readonly violations: Array<{ path: string; message: string }> | undefined;
+  readonly logs: LogEntry[];
+
+  constructor(data: FailureBody, status: number, logs: LogEntry[] = data.logs ?? []) {
+    super(data.error || 'Invocation failed');
+    this.name = 'WorkerInvocationError';
+    this.status = status;
+    this.type = data.type;
+    this.invocationId = data.invocationId;
+    this.errorDetails = data.errorDetails;
+    this.violations = data.violations;
+    this.logs = logs;
+  }
+}
+
+${functionTypes}
+interface Connection {
+  baseUrl: string;
+  headers: Record<string, string>;
+  fetch: typeof fetch;
+}
+
+// Methods are named after the worker's functions, so the client keeps nothing else public
+export class WorkerClient {
+  readonly #connection: Connection;
+
+  constructor(options: WorkerClientOptions = {}) {
+    this.#connection = {
+      baseUrl: (options.baseUrl ?? DEFAULT_BASE_URL).replace(/\\/$/, ''),
+      headers: {
+        ...(options.apiKey ? { Authorization: \`Bearer \${options.apiKey}\` } : {}),
+        ...options.headers,
+      },
+      fetch: options.fetch ?? ((input, init) => fetch(input, init)),
+    };
+  }
+
+${methods}}
+
+async function invoke<T>(
+  connection: Connection,
+  fn: string,
+  payload: unknown,
+  options: InvokeOptions = {}
+): Promise<InvocationResult<T>> {
+  const params = new URLSearchParams();
+  const version = options.alias === undefined ? options.version ?? PINNED_VERSION : undefined;
+  if (version !== undefined) params.set('version', String(version));
+  if (options.alias !== undefined) params.set('alias', options.alias);
+  if (options.timeoutMs !== undefined) params.set('timeout', String(options.timeoutMs));
+  const query = params.toString();
+
+  const res = await connection.fetch(
+    \`\${connection.baseUrl}/api/workers/\${WORKER_ID}/invoke/\${encodeURIComponent(fn)}\${query ? \`?\${query}\` : ''}\`,
+    {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(options.onLog ? { Accept: 'text/event-stream' } : {}),
+        ...connection.headers,
+      },
+      body: JSON.stringify(payload ?? {}),
+      signal: options.signal,
+    }
+  );
+
+  if (!options.onLog || !res.ok || !res.body) {
+    const data = await res.json();
+    if (!res.ok || !data.success) throw new WorkerInvocationError(data, res.status);
+    return data;
+  }
+
+  return readEventStream<T>(res.body, options.onLog);
+}
+
+// Parse the SSE response: log events go to onLog, then one result or error event
+async function readEventStream<T>(
+  body: ReadableStream<Uint8Array>,
+  onLog: (log: LogEntry) => void
+): Promise<InvocationResult<T>> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  const logs: LogEntry[] = [];
+  let buffer = '';
+  let eventType = '';
+  let eventData = '';
+
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\\n');
+    buffer = lines.pop() || '';
+
+    for (const line of lines) {
+      if (line.startsWith('event: ')) {
+        eventType = line.slice(7);
+      } else if (line.startsWith('data: ')) {
+        eventData = line.slice(6);
+      } else if (line === '' && eventType && eventData) {
+        const data = JSON.parse(eventData);
+        if (eventType === 'log') {
+          const log: LogEntry = {
+            level: data.level,
+            message: data.message,
+            args: data.args,
+            fields: data.fields,
+            timestamp: data.timestamp,
+          };
+          logs.push(log);
+          onLog(log);
+        } else if (eventType === 'result') {
+          await reader.cancel();
+          return { ...data, logs };
+        } else if (eventType === 'error') {
+          await reader.cancel();
+          throw new WorkerInvocationError(data, data.type === 'timeout' ? 504 : 500, logs);
+        }
+        eventType = '';
+        eventData = '';
+      }
+    }
+  }
+
+  throw new WorkerInvocationError({ error: 'Stream ended without a result' }, 502, logs);
+}
+`;
+}
@@ -0,0 +1,107 @@
+import { NextResponse } from 'next/server';
+import type { NewWorkerVersion } from '@/lib/db/client';
+import {
+  Dependencies,
+  normalizeDependencies,
+  normalizeFilePath,
+  normalizeSourceFiles,
+  SourceFiles,
+} from '@/lib/sandbox/bundle';
+import { DependencyInstallError, getSandboxClient } from '@/lib/sandbox/client';
+import { TranspileError } from '@/lib/sandbox/transpile';
+import { generateWorkerScript } from '@/lib/sandbox/worker-script';
+
+export interface WorkerSource {
+  files: SourceFiles;
+  entry: string;
+  dependencies: Dependencies;
+}
+
+/**
+ * Read the worker source from a deploy request body.
+ * Accepts a file map, or a single `code` string as shorthand for index.ts.
+ */
+export function parseWorkerSource(body: Record<string, unknown>): WorkerSource | { error: string } {
+  const files = body.files !== undefined
+    ? normalizeSourceFiles(body.files)
+    : typeof body.code === 'string' && body.code ? { 'index.ts': body.code } : null;
+
+  if (!files) {
+    return { error: 'Worker code is required: provide `files` (path -> source) or `code`' };
+  }
+
+  const entry = typeof body.entry === 'string'
+    ? normalizeFilePath(body.entry)
+    : 'index.ts' in files ? 'index.ts' : Object.keys(files)[0];
+
+  if (!entry || !(entry in files)) {
+    return { error: `Entry file '${body.entry}' not found in files` };
+  }
+
+  const dependencies = normalizeDependencies(body.dependencies);
+  if (!dependencies) {
+    return { error: 'Dependencies must be an object of npm package names to version strings' };
+  }
+
+  return { files, entry, dependencies };
+}
+
+/**
+ * Compile the source and bake it into a new sandbox snapshot.
+ * Passing a version's lockfile reinstalls exactly the dependencies it was built with.
+ */
+export async function buildWorkerVersion(
+  source: WorkerSource,
+  lockfile: Record<string, unknown> | null = null
+): Promise<NewWorkerVersion> {
+  // Generate Node.js worker script from user code
+  const { script, functions, functionMetadata, sourceMap } = generateWorkerScript(
+    source.files,
+    source.entry,
+    source.dependencies
+  );
+
+  // Create sandbox and snapshot (synchronous - no build phase!)
+  const sandboxClient = getSandboxClient();
+  const snapshot = await sandboxClient.createWorkerSnapshot(
+    script,
+    functions,
+    source.dependencies,
+    lockfile
+  );
+
+  return {
+    snapshotId: snapshot.snapshotId,
+    sourceFiles: source.files,
+    entryFile: source.entry,
+    dependencies: source.dependencies,
+    lockfile: snapshot.lockfile,
+    functions,
+    functionMetadata,
+    sourceMap,
+    snapshotExpiresAt: snapshot.expiresAt,
+  };
+}
+
+/**
+ * Map build failures caused by the submitted code to 400 responses.
+ * Returns null for anything else, which callers treat as a 500.
+ */
+export function buildErrorResponse(error: unknown): NextResponse | null {
+  // Compile errors are the caller's fault - report them with source positions
+  if (error instanceof TranspileError) {
+    return NextResponse.json(
+      { error: 'Worker code failed to compile', diagnostics: error.diagnostics },
+      { status: 400 }
+    );
+  }
+
+  if (error instanceof DependencyInstallError) {
+    return NextResponse.json(
+      { error: error.message, details: error.output },
+      { status: 400 }
+    );
+  }
+
+  return null;
+}
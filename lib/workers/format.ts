@@ -0,0 +1,200 @@
+import type {
+  ApiKey,
+  ApiKeyResponse,
+  Invocation,
+  InvocationLog,
+  InvocationLogResponse,
+  InvocationResponse,
+  Job,
+  JobResponse,
+  Project,
+  ProjectResponse,
+  Schedule,
+  ScheduleResponse,
+  Webhook,
+  WebhookResponse,
+  Worker,
+  WorkerAlias,
+  WorkerAliasResponse,
+  WorkerResponse,
+  WorkerSecret,
+  WorkerSecretResponse,
+  WorkerVersion,
+  WorkerVersionResponse,
+} from '@/lib/db/schema';
+
+// Helper to calculate days until expiration
+export function calculateExpiresInDays(expiresAt: Date | string | null): number | null {
+  if (!expiresAt) return null;
+  const expDate = typeof expiresAt === 'string' ? new Date(expiresAt) : expiresAt;
+  const now = new Date();
+  const diff = expDate.getTime() - now.getTime();
+  return Math.max(0, Math.ceil(diff / (1000 * 60 * 60 * 24)));
+}
+
+function toISOString(value: Date | string | null): string | null {
+  return value ? new Date(value).toISOString() : null;
+}
+
+export function toWorkerResponse(worker: Worker): WorkerResponse {
+  return {
+    id: worker.id,
+    projectId: worker.project_id,
+    name: worker.name,
+    version: worker.version,
+    latestVersion: worker.latest_version,
+    timeoutMs: worker.timeout_ms,
+    rebuildOnExpiry: worker.rebuild_on_expiry,
+    snapshotId: worker.snapshot_id,
+    entryFile: worker.entry_file,
+    dependencies: worker.dependencies,
+    functions: worker.functions,
+    functionMetadata: worker.function_metadata,
+    status: worker.status,
+    errorMessage: worker.error_message,
+    createdAt: toISOString(worker.created_at)!,
+    snapshotExpiresAt: toISOString(worker.snapshot_expires_at),
+    lastInvokedAt: toISOString(worker.last_invoked_at),
+    expiresInDays: calculateExpiresInDays(worker.snapshot_expires_at),
+    nextScheduledRunAt: toISOString(worker.next_scheduled_run_at),
+    lastScheduledRunAt: toISOString(worker.last_scheduled_run_at),
+  };
+}
+
+export function toWorkerVersionResponse(version: WorkerVersion, currentVersion: number): WorkerVersionResponse {
+  return {
+    version: version.version,
+    current: version.version === currentVersion,
+    snapshotId: version.snapshot_id,
+    entryFile: version.entry_file,
+    dependencies: version.dependencies,
+    functions: version.functions,
+    functionMetadata: version.function_metadata,
+    status: version.status,
+    errorMessage: version.error_message,
+    createdAt: toISOString(version.created_at)!,
+    snapshotExpiresAt: toISOString(version.snapshot_expires_at),
+    expiresInDays: calculateExpiresInDays(version.snapshot_expires_at),
+  };
+}
+
+export function toWorkerAliasResponse(alias: WorkerAlias): WorkerAliasResponse {
+  return {
+    name: alias.name,
+    routes: alias.routes,
+    createdAt: toISOString(alias.created_at)!,
+    updatedAt: toISOString(alias.updated_at)!,
+  };
+}
+
+export function toWorkerSecretResponse(secret: WorkerSecret): WorkerSecretResponse {
+  return {
+    name: secret.name,
+    createdAt: toISOString(secret.created_at)!,
+    updatedAt: toISOString(secret.updated_at)!,
+  };
+}
+
+export function toScheduleResponse(schedule: Schedule): ScheduleResponse {
+  return {
+    id: schedule.id,
+    workerId: schedule.worker_id,
+    function: schedule.function_name,
+    cron: schedule.cron,
+    timezone: schedule.timezone,
+    payload: schedule.payload,
+    enabled: schedule.enabled,
+    nextRunAt: toISOString(schedule.next_run_at),
+    lastRunAt: toISOString(schedule.last_run_at),
+    lastInvocationId: schedule.last_invocation_id,
+    lastStatus: schedule.last_status,
+    createdAt: toISOString(schedule.created_at)!,
+    updatedAt: toISOString(schedule.updated_at)!,
+  };
+}
+
+export function toJobResponse(job: Job): JobResponse {
+  return {
+    id: job.id,
+    workerId: job.worker_id,
+    function: job.function_name,
+    payload: job.payload,
+    status: job.status,
+    attempts: job.attempts,
+    maxAttempts: job.max_attempts,
+    backoffMs: job.backoff_ms,
+    runAt: toISOString(job.run_at)!,
+    lastError: job.last_error,
+    lastInvocationId: job.last_invocation_id,
+    createdAt: toISOString(job.created_at)!,
+    updatedAt: toISOString(job.updated_at)!,
+    completedAt: toISOString(job.completed_at),
+  };
+}
+
+export function toWebhookResponse(webhook: Webhook): WebhookResponse {
+  return {
+    id: webhook.id,
+    workerId: webhook.worker_id,
+    function: webhook.function_name,
+    url: `/api/hooks/${webhook.id}`,
+    signature: webhook.signature,
+    hasSecret: webhook.secret_encrypted !== null,
+    createdAt: toISOString(webhook.created_at)!,
+    lastDeliveryAt: toISOString(webhook.last_delivery_at),
+  };
+}
+
+export function toInvocationResponse(invocation: Invocation): InvocationResponse {
+  return {
+    id: invocation.id,
+    workerId: invocation.worker_id,
+    version: invocation.version,
+    function: invocation.function_name,
+    payload: invocation.payload,
+    result: invocation.result,
+    error: invocation.error,
+    errorDetails: invocation.error_details,
+    status: invocation.status,
+    timeoutMs: invocation.timeout_ms,
+    duration: invocation.duration_ms,
+    coldStart: invocation.cold_start,
+    webhookId: invocation.webhook_id,
+    signatureStatus: invocation.signature_status,
+    startedAt: toISOString(invocation.started_at)!,
+    finishedAt: toISOString(invocation.finished_at),
+  };
+}
+
+export function toInvocationLogResponse(log: InvocationLog): InvocationLogResponse {
+  return {
+    stream: log.stream,
+    level: log.level,
+    message: log.message,
+    args: log.args ?? undefined,
+    fields: log.fields ?? undefined,
+    timestamp: new Date(log.logged_at).getTime(),
+  };
+}
+
+// The key hash never leaves the server
+export function toApiKeyResponse(key: ApiKey): ApiKeyResponse {
+  return {
+    id: key.id,
+    projectId: key.project_id,
+    name: key.name,
+    prefix: key.prefix,
+    scopes: key.scopes,
+    createdAt: toISOString(key.created_at)!,
+    lastUsedAt: toISOString(key.last_used_at),
+    revokedAt: toISOString(key.revoked_at),
+  };
+}
+
+export function toProjectResponse(project: Project): ProjectResponse {
+  return {
+    id: project.id,
+    name: project.name,
+    createdAt: toISOString(project.created_at)!,
+  };
+}
@@ -0,0 +1,233 @@
+import type { Worker } from '@/lib/db/schema';
+import type { FunctionMetadata } from '@/lib/sandbox/exports';
+import type { JsonSchema } from '@/lib/sandbox/schema';
+import { DEFAULT_TIMEOUT_MS, MAX_TIMEOUT_MS } from '@/lib/invocations/timeout';
+import type { InvocationTarget } from './resolve';
+
+// Shapes shared by every function's responses, referenced from components.schemas
+const componentSchemas: Record<string, unknown> = {
+  LogEntry: {
+    type: 'object',
+    properties: {
+      level: { type: 'string', enum: ['debug', 'info', 'warn', 'error'] },
+      message: { type: 'string' },
+      args: { type: 'array', description: 'Console arguments, made JSON-safe' },
+      fields: { type: 'object', description: 'Fields attached with console.withFields()' },
+      timestamp: { type: 'integer', description: 'Milliseconds since the epoch' },
+    },
+    required: ['level', 'message', 'timestamp'],
+  },
+  StackFrame: {
+    type: 'object',
+    properties: {
+      function: { type: ['string', 'null'] },
+      file: { type: 'string' },
+      line: { type: 'integer' },
+      column: { type: 'integer' },
+      userCode: { type: 'boolean' },
+    },
+    required: ['function', 'file', 'line', 'column', 'userCode'],
+  },
+  ErrorDetails: {
+    type: 'object',
+    description: 'The error thrown by the function, with its stack mapped to the worker source',
+    properties: {
+      name: { type: 'string' },
+      message: { type: 'string' },
+      stack: { type: 'string' },
+      frames: { type: 'array', items: { $ref: '#/components/schemas/StackFrame' } },
+      properties: { type: 'object' },
+      cause: { $ref: '#/components/schemas/ErrorDetails' },
+    },
+    required: ['name', 'message', 'frames'],
+  },
+  InvocationFailure: {
+    type: 'object',
+    properties: {
+      success: { const: false },
+      function: { type: 'string' },
+      invocationId: { type: 'string', format: 'uuid' },
+      version: { type: 'integer' },
+      type: { type: 'string', enum: ['error', 'timeout', 'cancelled'] },
+      coldStart: { type: 'boolean' },
+      error: { type: 'string' },
+      errorDetails: { $ref: '#/components/schemas/ErrorDetails' },
+      logs: { type: 'array', items: { $ref: '#/components/schemas/LogEntry' } },
+    },
+    required: ['success', 'function', 'invocationId', 'version', 'type', 'error', 'logs'],
+  },
+  AsyncInvocation: {
+    type: 'object',
+    properties: {
+      invocationId: { type: 'string', format: 'uuid' },
+      function: { type: 'string' },
+      version: { type: 'integer' },
+      timeoutMs: { type: 'integer' },
+      status: { const: 'running' },
+      statusUrl: { type: 'string' },
+      streamUrl: { type: 'string' },
+    },
+    required: ['invocationId', 'function', 'version', 'timeoutMs', 'status', 'statusUrl', 'streamUrl'],
+  },
+  Error: {
+    type: 'object',
+    properties: {
+      error: { type: 'string' },
+    },
+    required: ['error'],
+  },
+  ValidationError: {
+    type: 'object',
+    properties: {
+      error: { type: 'string' },
+      violations: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            path: { type: 'string', description: 'JSON Pointer to the invalid value' },
+            message: { type: 'string' },
+          },
+          required: ['path', 'message'],
+        },
+      },
+    },
+    required: ['error', 'violations'],
+  },
+};
+
+const invokeParameters = [
+  {
+    name: 'version',
+    in: 'query',
+    description: 'Run a specific version instead of the current one',
+    schema: { type: 'integer', minimum: 1 },
+  },
+  {
+    name: 'alias',
+    in: 'query',
+    description: 'Run the version an alias routes to',
+    schema: { type: 'string' },
+  },
+  {
+    name: 'async',
+    in: 'query',
+    description: 'Return 202 with an invocation ID and run the function in the background',
+    schema: { type: 'boolean' },
+  },
+  {
+    name: 'timeout',
+    in: 'query',
+    description: 'Timeout in milliseconds, overriding the worker default',
+    schema: { type: 'integer', minimum: 1, maximum: MAX_TIMEOUT_MS },
+  },
+  {
+    name: 'X-Invocation-Timeout',
+    in: 'header',
+    description: 'Same as the timeout query parameter',
+    schema: { type: 'integer', minimum: 1, maximum: MAX_TIMEOUT_MS },
+  },
+];
+
+const SSE_DESCRIPTION = [
+  'With `Accept: text/event-stream` the response is an event stream instead:',
+  'a `rebuilding` event first if an expired snapshot is being rebuilt, then',
+  'a `log` event (a LogEntry plus `stream`) per console call, then exactly one',
+  '`result` event (the success envelope without `logs`) or `error` event (the failure',
+  'envelope without `logs`). Disconnecting cancels the invocation.',
+].join(' ');
+
+function errorResponse(description: string, schema = 'Error') {
+  return {
+    description,
+    content: { 'application/json': { schema: { $ref: `#/components/schemas/${schema}` } } },
+  };
+}
+
+function describeOperation(workerName: string, fn: FunctionMetadata | undefined, name: string) {
+  const typeNote = (type: string | null | undefined) => (type ? `TypeScript type: \`${type}\`` : undefined);
+  const input: JsonSchema = fn?.inputSchema ?? {};
+  const output: JsonSchema = fn?.outputSchema ?? {};
+
+  const success = {
+    type: 'object',
+    properties: {
+      success: { const: true },
+      function: { const: name },
+      invocationId: { type: 'string', format: 'uuid' },
+      version: { type: 'integer' },
+      result: fn?.returnType ? { ...output, description: typeNote(fn.returnType) } : output,
+      duration: { type: 'integer', description: 'Milliseconds' },
+      coldStart: { type: 'boolean' },
+      logs: { type: 'array', items: { $ref: '#/components/schemas/LogEntry' } },
+    },
+    required: ['success', 'function', 'invocationId', 'version', 'result', 'duration', 'logs'],
+  };
+
+  return {
+    operationId: name,
+    summary: fn?.description ?? `Invoke ${name}`,
+    tags: [workerName],
+    parameters: invokeParameters,
+    requestBody: {
+      required: false,
+      description: typeNote(fn?.payloadType),
+      content: { 'application/json': { schema: input } },
+    },
+    responses: {
+      200: {
+        description: `The function returned. ${SSE_DESCRIPTION}`,
+        content: {
+          'application/json': { schema: success },
+          'text/event-stream': { schema: { type: 'string' } },
+        },
+      },
+      202: {
+        description: 'Accepted for background execution (`?async=true`)',
+        content: { 'application/json': { schema: { $ref: '#/components/schemas/AsyncInvocation' } } },
+      },
+      400: errorResponse('Invalid version, timeout or worker state'),
+      401: errorResponse('Missing, invalid or revoked API key'),
+      403: errorResponse("The API key lacks the 'invoke' scope"),
+      404: errorResponse('Worker, function, version or alias not found'),
+      410: errorResponse('The worker snapshot has expired and must be rebuilt or redeployed (unless rebuildOnExpiry is set)'),
+      422: errorResponse("The payload does not match the function's input schema", 'ValidationError'),
+      500: errorResponse('The function threw or its result failed the output schema', 'InvocationFailure'),
+      504: errorResponse('The function ran past its timeout', 'InvocationFailure'),
+    },
+  };
+}
+
+/**
+ * Describe a worker version's functions as an OpenAPI 3.1 document.
+ * Request and response bodies use the schemas derived from (or declared alongside)
+ * each function, so a typed payload shows up as a typed request body.
+ */
+export function buildOpenAPIDocument(worker: Worker, target: InvocationTarget, serverUrl: string) {
+  const paths: Record<string, unknown> = {};
+  for (const name of target.functions) {
+    const metadata = target.function_metadata.find((m) => m.name === name);
+    paths[`/api/workers/${worker.id}/invoke/${encodeURIComponent(name)}`] = {
+      post: describeOperation(worker.name, metadata, name),
+    };
+  }
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: worker.name,
+      version: String(target.version),
+      description: `Functions exported by worker ${worker.name} (version ${target.version}). ` +
+        `Invocations time out after ${worker.timeout_ms ?? DEFAULT_TIMEOUT_MS}ms unless overridden.`,
+    },
+    servers: [{ url: serverUrl }],
+    security: [{ apiKey: [] }],
+    paths,
+    components: {
+      schemas: componentSchemas,
+      securitySchemes: {
+        apiKey: { type: 'http', scheme: 'bearer', description: 'An API key with the invoke scope' },
+      },
+    },
+  };
+}
@@ -0,0 +1,41 @@
+import { db } from '@/lib/db/client';
+import type { Worker } from '@/lib/db/schema';
+import { rebuildVersion } from './renew';
+import type { InvocationTarget } from './resolve';
+
+// Rebuilds running in this process, so concurrent calls to one expired version share a build
+const rebuilds = new Map<string, Promise<InvocationTarget>>();
+
+/**
+ * Whether an invocation target can't run because its snapshot is gone.
+ * Workers without rebuildOnExpiry only go by the stored status; workers with it
+ * also check the expiry time, since they can recover. A snapshot deleted early
+ * shows up when the sandbox boots instead (see executeInvocation).
+ */
+export function isTargetExpired(worker: Pick<Worker, 'rebuild_on_expiry'>, target: InvocationTarget): boolean {
+  if (target.status === 'expired') return true;
+  if (!worker.rebuild_on_expiry || target.status !== 'ready') return false;
+  return !!target.snapshot_expires_at && new Date(target.snapshot_expires_at).getTime() <= Date.now();
+}
+
+/**
+ * Rebuild an expired target's snapshot from its stored source and return the
+ * renewed target, keeping the version number. A version already renewed
+ * elsewhere (e.g. by the renewal job) is used as is.
+ */
+export function rehydrateTarget(workerId: string, target: InvocationTarget): Promise<InvocationTarget> {
+  const key = `${workerId}:${target.version}`;
+  let rebuild = rebuilds.get(key);
+
+  if (!rebuild) {
+    rebuild = (async () => {
+      const version = await db.getWorkerVersion(workerId, target.version);
+      if (!version) throw new Error(`Version ${target.version} not found`);
+      if (version.snapshot_id !== target.snapshot_id && version.status === 'ready') return version;
+      return rebuildVersion(version);
+    })().finally(() => rebuilds.delete(key));
+    rebuilds.set(key, rebuild);
+  }
+
+  return rebuild;
+}
@@ -0,0 +1,112 @@
+import { afterEach, describe, expect, mock, spyOn, test } from 'bun:test';
+import * as nextServer from 'next/server';
+import { db } from '@/lib/db/client';
+import type { WorkerVersion } from '@/lib/db/schema';
+import { SandboxClient } from '@/lib/sandbox/client';
+
+// Collect the work scheduled with after() so the tests decide when it runs
+const scheduled: (() => Promise<void>)[] = [];
+mock.module('next/server', () => ({
+  ...nextServer,
+  after: (task: () => Promise<void>) => scheduled.push(task),
+}));
+
+const { renewExpiringSnapshots } = await import('./renew');
+
+function version(n: number, snapshotId: string): WorkerVersion {
+  return {
+    id: `version-${n}`,
+    worker_id: 'worker-1',
+    version: n,
+    snapshot_id: snapshotId,
+    functions: ['hello'],
+    function_metadata: [],
+    status: 'ready',
+    error_message: null,
+    source_files: { 'worker.ts': 'export function hello() { return 1; }' },
+    entry_file: 'worker.ts',
+    dependencies: {},
+    lockfile: null,
+    source_map: [],
+    created_at: new Date('2026-01-01T00:00:00Z'),
+    snapshot_expires_at: new Date('2026-01-08T00:00:00Z'),
+  };
+}
+
+function stubSnapshots(...snapshotIds: string[]) {
+  const createWorkerSnapshot = spyOn(SandboxClient.prototype, 'createWorkerSnapshot');
+  for (const snapshotId of snapshotIds) {
+    createWorkerSnapshot.mockResolvedValueOnce({ snapshotId, lockfile: null, expiresAt: new Date('2026-01-15T00:00:00Z') });
+  }
+  return createWorkerSnapshot;
+}
+
+async function runScheduled() {
+  while (scheduled.length > 0) await scheduled.shift()!();
+}
+
+afterEach(() => {
+  mock.restore();
+  scheduled.length = 0;
+});
+
+describe('renewExpiringSnapshots', () => {
+  test('returns the claimed versions and rebuilds them after the response', async () => {
+    const claim = spyOn(db, 'claimVersionsForRenewal').mockResolvedValue([version(1, 'snap-old-1'), version(2, 'snap-old-2')]);
+    const createWorkerSnapshot = stubSnapshots('snap-new-1', 'snap-new-2');
+    const replace = spyOn(db, 'replaceVersionSnapshot').mockImplementation(async (_workerId, n) => version(n, `snap-new-${n}`));
+
+    expect(await renewExpiringSnapshots()).toEqual([
+      { workerId: 'worker-1', version: 1, snapshotExpiresAt: '2026-01-08T00:00:00.000Z' },
+      { workerId: 'worker-1', version: 2, snapshotExpiresAt: '2026-01-08T00:00:00.000Z' },
+    ]);
+    expect(claim).toHaveBeenCalledWith(5, 24 * 60 * 60_000, 60 * 60_000);
+    expect(createWorkerSnapshot).not.toHaveBeenCalled();
+
+    await runScheduled();
+    expect(createWorkerSnapshot).toHaveBeenCalledTimes(2);
+    expect(replace.mock.calls.map(([workerId, n, previous, built]) => [workerId, n, previous, built.snapshotId])).toEqual([
+      ['worker-1', 1, 'snap-old-1', 'snap-new-1'],
+      ['worker-1', 2, 'snap-old-2', 'snap-new-2'],
+    ]);
+  });
+
+  test('keeps going when one rebuild fails', async () => {
+    spyOn(db, 'claimVersionsForRenewal').mockResolvedValue([version(1, 'snap-old-1'), version(2, 'snap-old-2')]);
+    const createWorkerSnapshot = spyOn(SandboxClient.prototype, 'createWorkerSnapshot')
+      .mockRejectedValueOnce(new Error('sandbox unavailable'))
+      .mockResolvedValueOnce({ snapshotId: 'snap-new-2', lockfile: null, expiresAt: new Date('2026-01-15T00:00:00Z') });
+    const replace = spyOn(db, 'replaceVersionSnapshot').mockImplementation(async (_workerId, n) => version(n, `snap-new-${n}`));
+    const consoleError = spyOn(console, 'error').mockImplementation(() => {});
+
+    await renewExpiringSnapshots();
+    await runScheduled();
+
+    expect(createWorkerSnapshot).toHaveBeenCalledTimes(2);
+    expect(replace).toHaveBeenCalledTimes(1);
+    expect(consoleError.mock.calls[0][0]).toBe('Error renewing snapshot of worker worker-1 version 1:');
+  });
+
+  test('drops its snapshot when another rebuild swapped first', async () => {
+    spyOn(db, 'claimVersionsForRenewal').mockResolvedValue([version(1, 'snap-old')]);
+    stubSnapshots('snap-ours');
+    spyOn(db, 'replaceVersionSnapshot').mockResolvedValue(null);
+    const getWorkerVersion = spyOn(db, 'getWorkerVersion').mockResolvedValue(version(1, 'snap-theirs'));
+    const deleteSnapshot = spyOn(SandboxClient.prototype, 'deleteSnapshot').mockResolvedValue();
+
+    await renewExpiringSnapshots();
+    await runScheduled();
+
+    expect(deleteSnapshot).toHaveBeenCalledWith('snap-ours');
+    expect(getWorkerVersion).toHaveBeenCalledWith('worker-1', 1);
+  });
+
+  test('schedules nothing to rebuild when no snapshot is due', async () => {
+    spyOn(db, 'claimVersionsForRenewal').mockResolvedValue([]);
+    const createWorkerSnapshot = spyOn(SandboxClient.prototype, 'createWorkerSnapshot');
+
+    expect(await renewExpiringSnapshots()).toEqual([]);
+    await runScheduled();
+    expect(createWorkerSnapshot).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,63 @@
+import { after } from 'next/server';
+import { db } from '@/lib/db/client';
+import type { WorkerVersion } from '@/lib/db/schema';
+import { getSandboxClient } from '@/lib/sandbox/client';
+import { buildWorkerVersion } from './deploy';
+
+// Snapshots expiring within this window are rebuilt ahead of time
+const RENEWAL_WINDOW_MS = 24 * 60 * 60_000;
+// A run rebuilds at most this many snapshots; the rest wait for the next one
+const MAX_RENEWALS_PER_RUN = 5;
+// How long a claimed version is left alone; a failed rebuild is retried after this
+const RENEWAL_LEASE_MS = 60 * 60_000;
+
+export interface RenewingVersion {
+  workerId: string;
+  version: number;
+  snapshotExpiresAt: string | null;
+}
+
+/**
+ * Build a fresh snapshot of a version from its stored source and lockfile, and
+ * swap it in. The worker ID and version number stay the same, so callers and
+ * aliases are unaffected. The old snapshot is left to expire on its own, since
+ * invocations may still be booting from it.
+ */
+export async function rebuildVersion(version: WorkerVersion): Promise<WorkerVersion> {
+  const built = await buildWorkerVersion(
+    { files: version.source_files, entry: version.entry_file, dependencies: version.dependencies },
+    version.lockfile
+  );
+
+  const renewed = await db.replaceVersionSnapshot(version.worker_id, version.version, version.snapshot_id, built);
+  if (renewed) return renewed;
+
+  // Another rebuild swapped the snapshot first; keep its result and drop ours
+  getSandboxClient().deleteSnapshot(built.snapshotId)
+    .catch((error) => console.error('Failed to delete unused snapshot:', error));
+  return (await db.getWorkerVersion(version.worker_id, version.version))!;
+}
+
+/**
+ * Rebuild the snapshots of invocable versions that are about to expire, or
+ * already have. The rebuilds run one at a time after the response.
+ */
+export async function renewExpiringSnapshots(): Promise<RenewingVersion[]> {
+  const versions = await db.claimVersionsForRenewal(MAX_RENEWALS_PER_RUN, RENEWAL_WINDOW_MS, RENEWAL_LEASE_MS);
+
+  after(async () => {
+    for (const version of versions) {
+      try {
+        await rebuildVersion(version);
+      } catch (error) {
+        console.error(`Error renewing snapshot of worker ${version.worker_id} version ${version.version}:`, error);
+      }
+    }
+  });
+
+  return versions.map((version) => ({
+    workerId: version.worker_id,
+    version: version.version,
+    snapshotExpiresAt: version.snapshot_expires_at ? new Date(version.snapshot_expires_at).toISOString() : null,
+  }));
+}
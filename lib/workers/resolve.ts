@@ -0,0 +1,54 @@
+import { db } from '@/lib/db/client';
+import type { Worker, WorkerVersion } from '@/lib/db/schema';
+import { pickWeightedVersion } from './aliases';
+
+// The parts of a version an invocation needs
+export type InvocationTarget = Pick<
+  WorkerVersion,
+  'version' | 'snapshot_id' | 'functions' | 'function_metadata' | 'source_map' | 'status' | 'snapshot_expires_at'
+>;
+
+/**
+ * Pick the version an invocation runs against.
+ * Plain invocation uses the worker's current version; `?version=N` pins an explicit
+ * one, and `?alias=prod` resolves the alias and picks one of its versions by weight.
+ */
+export async function resolveInvocationTarget(
+  worker: Worker,
+  searchParams: URLSearchParams
+): Promise<InvocationTarget | { error: string; status: number }> {
+  const versionParam = searchParams.get('version');
+  const aliasParam = searchParams.get('alias');
+
+  if (versionParam !== null && aliasParam !== null) {
+    return { error: 'Specify either version or alias, not both', status: 400 };
+  }
+
+  let versionNumber: number;
+
+  if (aliasParam !== null) {
+    const alias = await db.getAlias(worker.id, aliasParam);
+    if (!alias) {
+      return { error: `Alias '${aliasParam}' not found`, status: 404 };
+    }
+    versionNumber = pickWeightedVersion(alias.routes);
+  } else if (versionParam !== null) {
+    if (!/^\d+$/.test(versionParam)) {
+      return { error: `Invalid version '${versionParam}'`, status: 400 };
+    }
+    versionNumber = Number(versionParam);
+  } else {
+    return worker;
+  }
+
+  if (versionNumber === worker.version) {
+    return worker;
+  }
+
+  const version = await db.getWorkerVersion(worker.id, versionNumber);
+  if (!version) {
+    return { error: `Version ${versionNumber} not found`, status: 404 };
+  }
+
+  return version;
+}
@@ -0,0 +1,153 @@
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
+import { db } from '@/lib/db/client';
+import type { WorkerSecret } from '@/lib/db/schema';
+
+const ENV_NAME_REGEX = /^[A-Za-z_][A-Za-z0-9_]*$/;
+// The sandbox protocol's own variables (WORKER_NONCE, WORKER_RESULT_FILE, ...)
+const RESERVED_PREFIX = 'WORKER_';
+const MAX_VARIABLES = 100;
+const MAX_VALUE_BYTES = 32 * 1024;
+// Shorter values would mask ordinary output (every "1" or "on") when redacted
+const MIN_REDACTED_LENGTH = 4;
+
+export const REDACTED = '[REDACTED]';
+
+/**
+ * Thrown when secrets are used without WORKER_SECRETS_KEY configured
+ */
+export class SecretsKeyError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SecretsKeyError';
+  }
+}
+
+// WORKER_SECRETS_KEY is 32 bytes, as 64 hex characters or base64
+function getSecretsKey(): Buffer {
+  const raw = process.env.WORKER_SECRETS_KEY;
+  if (!raw) {
+    throw new SecretsKeyError('WORKER_SECRETS_KEY environment variable is required to use worker secrets');
+  }
+
+  const key = /^[0-9a-f]{64}$/i.test(raw) ? Buffer.from(raw, 'hex') : Buffer.from(raw, 'base64');
+  if (key.length !== 32) {
+    throw new SecretsKeyError('WORKER_SECRETS_KEY must be 32 bytes, as 64 hex characters or base64');
+  }
+  return key;
+}
+
+/**
+ * Encrypt one value with AES-256-GCM as `iv.tag.ciphertext` (base64url).
+ * The worker ID and name (a variable name, or `webhook:<id>` for a hook's
+ * signing secret) are bound in as associated data, so a ciphertext copied to
+ * another row fails to decrypt.
+ */
+export function encryptSecret(workerId: string, name: string, value: string): string {
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', getSecretsKey(), iv);
+  cipher.setAAD(Buffer.from(`${workerId}:${name}`));
+  const ciphertext = Buffer.concat([cipher.update(value, 'utf8'), cipher.final()]);
+  return [iv, cipher.getAuthTag(), ciphertext].map((part) => part.toString('base64url')).join('.');
+}
+
+export function decryptSecret(workerId: string, name: string, encrypted: string): string {
+  const [iv, tag, ciphertext] = encrypted.split('.').map((part) => Buffer.from(part, 'base64url'));
+  const decipher = createDecipheriv('aes-256-gcm', getSecretsKey(), iv);
+  decipher.setAAD(Buffer.from(`${workerId}:${name}`));
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString('utf8');
+}
+
+/**
+ * Read an env update from a request body: `{ NAME: "value" }` sets a variable,
+ * `{ NAME: null }` removes it, and variables not mentioned are left alone
+ */
+export function parseEnvUpdate(
+  body: unknown
+): { set: Record<string, string>; remove: string[] } | { error: string } {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return { error: 'Body must be an object of { NAME: "value" }, with null to remove a variable' };
+  }
+
+  const set: Record<string, string> = {};
+  const remove: string[] = [];
+  for (const [name, value] of Object.entries(body)) {
+    if (!ENV_NAME_REGEX.test(name)) {
+      return { error: `Invalid variable name '${name}': use letters, digits and underscores` };
+    }
+    if (name.toUpperCase().startsWith(RESERVED_PREFIX)) {
+      return { error: `Variable names starting with ${RESERVED_PREFIX} are reserved` };
+    }
+
+    if (value === null) {
+      remove.push(name);
+    } else if (typeof value === 'string') {
+      if (Buffer.byteLength(value) > MAX_VALUE_BYTES) {
+        return { error: `Value of ${name} is larger than ${MAX_VALUE_BYTES} bytes` };
+      }
+      set[name] = value;
+    } else {
+      return { error: `Value of ${name} must be a string, or null to remove it` };
+    }
+  }
+
+  return { set, remove };
+}
+
+/**
+ * Apply an env update to a worker, encrypting the new values.
+ * Returns an error when the update would exceed the variable limit.
+ */
+export async function updateWorkerEnv(
+  workerId: string,
+  update: { set: Record<string, string>; remove: string[] }
+): Promise<WorkerSecret[] | { error: string }> {
+  const existing = await db.getWorkerSecrets(workerId);
+  const names = new Set(existing.map((secret) => secret.name));
+  Object.keys(update.set).forEach((name) => names.add(name));
+  update.remove.forEach((name) => names.delete(name));
+
+  if (names.size > MAX_VARIABLES) {
+    return { error: `A worker can have at most ${MAX_VARIABLES} variables` };
+  }
+
+  const set = Object.entries(update.set).map(([name, value]) => ({
+    name,
+    valueEncrypted: encryptSecret(workerId, name, value),
+  }));
+  return db.updateWorkerSecrets(workerId, set, update.remove);
+}
+
+/**
+ * Decrypt a worker's variables for its process environment
+ */
+export async function loadWorkerEnv(workerId: string): Promise<Record<string, string>> {
+  const secrets = await db.getWorkerSecrets(workerId);
+  return Object.fromEntries(
+    secrets.map((secret) => [secret.name, decryptSecret(workerId, secret.name, secret.value_encrypted)])
+  );
+}
+
+/**
+ * Build a function that replaces secret values in strings, and in the strings
+ * nested inside arrays and objects (console arguments and fields)
+ */
+export function createRedactor(env: Record<string, string>): <T>(value: T) => T {
+  // Longest first, so a secret containing another is replaced whole
+  const secrets = Object.values(env)
+    .filter((value) => value.length >= MIN_REDACTED_LENGTH)
+    .sort((a, b) => b.length - a.length);
+
+  function redact(value: unknown): unknown {
+    if (typeof value === 'string') {
+      return secrets.reduce((text, secret) => text.split(secret).join(REDACTED), value);
+    }
+    if (Array.isArray(value)) return value.map(redact);
+    if (typeof value === 'object' && value !== null) {
+      return Object.fromEntries(Object.entries(value).map(([key, child]) => [key, redact(child)]));
+    }
+    return value;
+  }
+
+  return <T>(value: T) => (secrets.length > 0 ? (redact(value) as T) : value);
+}